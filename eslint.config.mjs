@@ -35,6 +35,15 @@ export default [
         MutationObserver: "readonly",
         Document: "readonly",
         HTMLInputElement: "readonly",
+        HTMLElement: "readonly",
+        HTMLDivElement: "readonly",
+        HTMLPreElement: "readonly",
+        HTMLFieldSetElement: "readonly",
+        HTMLSelectElement: "readonly",
+        HTMLButtonElement: "readonly",
+        URLSearchParams: "readonly",
+        Blob: "readonly",
+        Storage: "readonly",
 
         // Game engine globals
         Phaser: "readonly",
@@ -1,7 +1,7 @@
 import { Game as MainGame } from "./scenes/Game";
-import { GameOver } from "./scenes/GameOver";
 import { MainMenu } from "./scenes/MainMenu";
 import { Preloader } from "./scenes/Preloader";
+import { Results } from "./scenes/Results";
 
 import { Game, Types } from "phaser";
 
@@ -25,7 +25,7 @@ const config: Types.Core.GameConfig = {
       debug: true,
     },
   },
-  scene: [Preloader, MainMenu, MainGame, GameOver],
+  scene: [Preloader, MainMenu, MainGame, Results],
 };
 
 export default new Game(config);
@@ -2,16 +2,16 @@ import { Scene, Physics } from "phaser";
 import { ImportedTrack } from "../utils/track-types";
 import { addTrackToScene } from "../utils/track-importer";
 import { calculateWorldBounds } from "../utils/track-transformer";
+import { isPointInTrackArea } from "../utils/track-area";
 import {
-  isOutOfBounds,
   getRespawnPosition,
   isControlAllowed,
   isDragAllowed,
+  Position,
 } from "../utils/game-logic";
 import {
   calculateSlingZoom,
   calculateSpeedZoom,
-  calculateSlingLength,
   calculateVelocityMagnitude,
   shouldUpdateZoomDuringDrag,
   getZoomConfig,
@@ -24,14 +24,121 @@ import {
   TIMING,
   DERIVED,
 } from "../utils/balance";
+import { onBalanceChange } from "../utils/balance-store";
+import {
+  SlingState,
+  createSlingState,
+  recordSling,
+  updateSlingState,
+  calculateTimingMultiplier,
+  calculateAngleMultiplier,
+  calculateSlingImpulse,
+  getSlingImpulseConfig,
+  getTimingBoostConfig,
+  getAngleBoostConfig,
+} from "../utils/sling-physics";
+import { isDevMode } from "../utils/dev-mode";
+import {
+  RaceState,
+  createRaceState,
+  startRace,
+  finishRace,
+  getElapsedTime,
+  formatRaceTime,
+  getLineCrossing,
+  getLapLine,
+  LapProgress,
+  createLapProgress,
+  crossLapLine,
+  getBestLap,
+  RunStats,
+  createRunStats,
+  CheckpointProgress,
+  createCheckpointProgress,
+  passCheckpoint,
+  hasPassedAllCheckpoints,
+  getSplitDelta,
+  formatTimeDelta,
+} from "../utils/race-logic";
+import {
+  recordPersonalBest,
+  recordPersonalBestLap,
+  getBestSplits,
+  saveBestSplits,
+} from "../utils/personal-best";
+import {
+  getSurfaceZoneConfig,
+  getBoostedVelocity,
+  getZoneAirFriction,
+} from "../utils/surface-zones";
+import {
+  getTeleporterConfig,
+  getExitVelocity,
+  isTeleporterReady,
+} from "../utils/teleporters";
+import {
+  applyBounceScale,
+  getBodyMaterial,
+  isLosslessBody,
+} from "../utils/matter-factory";
+import {
+  BounceContact,
+  getSurfaceNormal,
+  getSurfaceVelocity,
+  resolveBounces,
+} from "../utils/bounce";
+import { getObstaclePose } from "../utils/obstacle-motion";
+import {
+  GhostRecorder,
+  GhostSlingEvent,
+  GhostTimeline,
+  getGhostPosition,
+  loadBestGhost,
+  saveBestGhost,
+} from "../utils/ghost-replay";
+import type { GhostFile } from "../utils/ghost-format";
+import {
+  FixedStepClock,
+  advanceFixedStep,
+  createFixedStepClock,
+  getFixedStepConfig,
+  interpolatePosition,
+} from "../utils/fixed-step";
+import type { ResultsSceneData } from "./Results";
+import { BalancePanel } from "../ui/balance-panel";
+
+/** Physics radius of the puck body */
+const PUCK_RADIUS = 24;
+
+/** Delay between crossing the finish line and showing the results (ms) */
+const RESULTS_DELAY = 1000;
+
+/** Ghost puck opacity while racing against it */
+const GHOST_ALPHA = 0.4;
+
+/** How long the HUD shows the split of the last checkpoint (ms) */
+const SPLIT_DISPLAY_DURATION = 3000;
+
+/** Label prefixes of checkpoint, surface zone and teleporter sensors, followed by their index */
+const CHECKPOINT_LABEL_PREFIX = "checkpoint-";
+const ZONE_LABEL_PREFIX = "zone-";
+const TELEPORTER_LABEL_PREFIX = "teleporter-";
+
+export interface GameSceneData {
+  /** Finished run to watch back instead of playing */
+  replayOf?: ResultsSceneData;
+}
 
 export class Game extends Scene {
   camera: Phaser.Cameras.Scene2D.Camera;
   background: Phaser.GameObjects.Image;
   puck: Physics.Matter.Sprite;
+  /** What the player sees and drags, interpolated between physics steps */
+  puckView: Phaser.GameObjects.Sprite;
   msg_text: Phaser.GameObjects.Text;
   sling: Phaser.GameObjects.Graphics;
   fpsText: Phaser.GameObjects.Text;
+  hudText: Phaser.GameObjects.Text;
   isDragging: boolean;
   startX: number;
   startY: number;
@@ -42,13 +149,93 @@ export class Game extends Scene {
   isRespawning: boolean = false;
   currentZoom: number = CAMERA_ZOOM.DEFAULT;
   maxReachedZoomDuringDrag: number = CAMERA_ZOOM.DEFAULT;
+  slingState: SlingState = createSlingState();
+  raceState: RaceState = createRaceState();
+  runStats: RunStats = createRunStats();
+  ghostRecorder: GhostRecorder = new GhostRecorder();
+  ghost: Phaser.GameObjects.Sprite | null = null;
+  ghostTimeline: GhostTimeline | null = null;
+  replayOf: ResultsSceneData | null = null;
+  replaySlings: GhostSlingEvent[] = [];
+  clock: FixedStepClock = createFixedStepClock();
+  /** Simulated time in milliseconds, advanced only by physics steps */
+  simulationTime: number = 0;
+  previousPuckPosition: Position | null = null;
+  /** Sling released since the last step, applied on the next one */
+  pendingSling: Position | null = null;
+  respawnRepositionTime: number | null = null;
+  respawnEndTime: number | null = null;
+  checkpointProgress: CheckpointProgress = createCheckpointProgress();
+  /** Splits of the personal best run, compared against on the HUD */
+  bestSplits: number[] | null = null;
+  /** Checkpoints touched during the current step, processed after it */
+  checkpointHits: number[] = [];
+  /** Simulation time of the last checkpoint hit, for the HUD */
+  lastSplitTime: number | null = null;
+  lapProgress: LapProgress = createLapProgress();
+  /** Sensor parts touching the puck per surface zone index */
+  zoneContacts: Map<number, number> = new Map();
+  /** Surface zones entered during the current step, processed after it */
+  zoneEntries: number[] = [];
+  /** Teleporters entered during the current step, processed after it */
+  teleporterEntries: number[] = [];
+  /** Simulation time of the last teleport, entrances cool down after it */
+  lastTeleportTime: number | null = null;
+  /** Lossless surfaces hit during the current step, bounced after it */
+  bounceContacts: BounceContact[] = [];
+  /** Puck velocity before Matter resolved the contacts of the step */
+  incomingVelocity: Position | null = null;
+  /** Graphics of currentTrack.movingObstacles, in the same order */
+  movingObstacleGraphics: Phaser.GameObjects.Graphics[] = [];
+  balancePanel: BalancePanel | null = null;
+  private unsubscribeBalance: (() => void) | null = null;
 
   constructor() {
     super("Game");
   }
 
+  init(data: GameSceneData) {
+    this.replayOf = data?.replayOf ?? null;
+    // Phaser keeps the last data object when a scene is started without
+    // one, so consume the replay request to make "Retry" play normally
+    this.scene.settings.data = {};
+  }
+
   create() {
     this.camera = this.cameras.main;
+    this.currentZoom = CAMERA_ZOOM.DEFAULT;
+    this.maxReachedZoomDuringDrag = CAMERA_ZOOM.DEFAULT;
+    this.slingState = createSlingState();
+    this.raceState = createRaceState();
+    this.runStats = createRunStats();
+    this.ghostRecorder = new GhostRecorder();
+    this.ghost = null;
+    this.ghostTimeline = null;
+    this.replaySlings = [];
+    this.clock = createFixedStepClock();
+    this.simulationTime = 0;
+    this.previousPuckPosition = null;
+    this.pendingSling = null;
+    this.isRespawning = false;
+    this.respawnRepositionTime = null;
+    this.respawnEndTime = null;
+    this.checkpointProgress = createCheckpointProgress();
+    this.bestSplits = null;
+    this.checkpointHits = [];
+    this.lastSplitTime = null;
+    this.lapProgress = createLapProgress();
+    this.zoneContacts = new Map();
+    this.bounceContacts = [];
+    this.incomingVelocity = null;
+    this.zoneEntries = [];
+    this.teleporterEntries = [];
+    this.lastTeleportTime = null;
+    this.movingObstacleGraphics = [];
+
+    // Physics is stepped manually at a fixed rate in update()
+    this.matter.world.autoUpdate = false;
+
+    this.events.once("shutdown", () => this.teardown());
 
     // Check if we have an imported track
     const importedTrack = this.registry.get("importedTrack") as
@@ -65,10 +252,22 @@ export class Game extends Scene {
     try {
       this.setupImportedTrack(importedTrack);
       this.setupPuck();
+      this.setupGhost();
       this.setupCamera();
       this.setupSlingshot();
-      this.setupInput();
       this.setupFPS();
+      this.setupHUD();
+      this.setupCheckpoints();
+      this.setupSurfaceZones();
+      this.setupTeleporters();
+      this.setupMaterials();
+      if (this.replayOf) {
+        this.setupReplay();
+      } else {
+        this.setupInput();
+        this.setupCollisions();
+      }
+      this.setupDevMode();
     } catch (error) {
       console.error("Failed to setup game:", error);
       this.showErrorMessage(
@@ -90,7 +289,10 @@ export class Game extends Scene {
 
       // Instead, we'll let our custom boundaries handle collisions
 
-      addTrackToScene(track, this);
+      // Bodies are shared between runs, put the moving obstacles back at
+      // their starting pose before drawing them
+      this.moveObstacles(0);
+      this.movingObstacleGraphics = addTrackToScene(track, this);
 
       // Set camera bounds to match world bounds
       this.cameras.main.setBounds(
@@ -138,17 +340,156 @@ export class Game extends Scene {
     }
 
     this.puck.setScale(1.5); // Increase visual size by 50%
-    this.puck.setCircle(24); // Increase physics radius by 50% (16 * 1.5 = 24)
-    this.puck.setBounce(PHYSICS.BOUNCE);
-    this.puck.anims.play("idle");
+    this.puck.setCircle(PUCK_RADIUS); // Increase physics radius by 50% (16 * 1.5 = 24)
+    this.applyPuckPhysics();
+
+    // The body is only moved by fixed physics steps, so a separate sprite
+    // is drawn between the last two steps to keep motion smooth
+    this.puck.setVisible(false);
+    this.puckView = this.add.sprite(
+      this.puck.x,
+      this.puck.y,
+      this.puck.texture.key,
+      0,
+    );
+    this.puckView.setScale(1.5);
+    this.puckView.anims.play("idle");
+    this.puckView.setInteractive();
+    this.input.setDraggable(this.puckView);
+    this.previousPuckPosition = { x: this.puck.x, y: this.puck.y };
+
+    // Re-apply puck physics whenever the balance is tuned live
+    this.unsubscribeBalance = onBalanceChange((change) => {
+      if (change.section === "PHYSICS") {
+        this.applyPuckPhysics();
+        this.applyTrackBounce();
+      }
+    });
+  }
+
+  private applyPuckPhysics() {
+    if (!this.puck) return;
+
+    // Matter keeps the highest restitution and lowest friction of a pair,
+    // so a neutral puck lets the material it hits decide
+    this.puck.setBounce(0);
+    this.puck.setFriction(1);
     this.puck.setFrictionAir(PHYSICS.AIR_FRICTION);
-    this.puck.setInteractive();
-    this.input.setDraggable(this.puck);
-    this.puck.setAlpha(1); // Ensure puck starts fully visible
+  }
+
+  /**
+   * Scale the bounce off walls and obstacles by PHYSICS.BOUNCE_SCALE, on the
+   * bodies themselves since they are shared between runs
+   */
+  private applyTrackBounce() {
+    if (!this.currentTrack) return;
+
+    applyBounceScale(
+      [...this.currentTrack.walls, ...this.currentTrack.obstacles],
+      PHYSICS.BOUNCE_SCALE,
+    );
+  }
+
+  private setupDevMode() {
+    if (!isDevMode()) return;
+
+    this.balancePanel = new BalancePanel();
+  }
+
+  private teardown() {
+    this.unsubscribeBalance?.();
+    this.unsubscribeBalance = null;
+    this.balancePanel?.destroy();
+    this.balancePanel = null;
   }
 
   private setupCamera() {
-    this.camera.startFollow(this.puck);
+    this.camera.startFollow(this.puckView);
+  }
+
+  /**
+   * Show the best run on this track (or the run being watched) as a
+   * translucent puck without a physics body
+   */
+  private setupGhost() {
+    if (!this.currentTrack) return;
+
+    const trackHash = this.currentTrack.metadata.trackHash;
+    const importedGhost = this.registry.get("importedGhost") as
+      | GhostFile
+      | undefined;
+
+    // An imported ghost only races on the track it was recorded on
+    let timeline: GhostTimeline | null;
+    if (this.replayOf) {
+      timeline = this.replayOf.replay;
+    } else if (importedGhost && importedGhost.trackHash === trackHash) {
+      timeline = importedGhost.timeline;
+    } else {
+      timeline = loadBestGhost(trackHash);
+    }
+    const start = timeline ? getGhostPosition(timeline, 0) : null;
+    if (!timeline || !start) return;
+
+    this.ghostTimeline = timeline;
+    this.ghost = this.add.sprite(start.x, start.y, "star", 0);
+    this.ghost.setScale(1.5);
+    this.ghost.setAlpha(GHOST_ALPHA);
+    this.ghost.setTint(0x88ccff);
+    this.ghost.anims.play("idle");
+  }
+
+  /**
+   * Watch a run by simulating it again from its recorded slings
+   * The ghost keyframes are still shown alongside as a reference
+   */
+  private setupReplay() {
+    const replay = this.replayOf?.replay;
+    if (!replay) {
+      throw new Error("Replay data is missing");
+    }
+
+    this.replaySlings = [...replay.slings];
+    this.puckView.disableInteractive();
+    this.camera.setZoom(CAMERA_ZOOM.DEFAULT);
+  }
+
+  private updateGhost(time: number) {
+    if (!this.ghost || !this.ghostTimeline) return;
+
+    const position = getGhostPosition(this.ghostTimeline, time);
+    if (position) {
+      this.ghost.setPosition(position.x, position.y);
+    }
+  }
+
+  /**
+   * Apply the recorded slings due on the current frame of the replay
+   */
+  private applyReplaySlings() {
+    while (
+      this.replaySlings.length > 0 &&
+      this.replaySlings[0].frame <= this.ghostRecorder.frameIndex
+    ) {
+      const sling = this.replaySlings.shift()!;
+      this.applySling({ x: sling.x, y: sling.y });
+    }
+  }
+
+  /**
+   * Stop a replay that ran past the recorded time without finishing,
+   * which means the simulation no longer matches the recording
+   */
+  private checkReplayDivergence() {
+    const replay = this.replayOf?.replay;
+    if (!replay || this.raceState.phase !== "running") return;
+
+    const elapsed = getElapsedTime(this.raceState, this.simulationTime);
+    if (elapsed > replay.time + RESULTS_DELAY) {
+      console.warn("Replay diverged from the recorded run");
+      this.raceState = finishRace(this.raceState, this.simulationTime);
+      this.completeRun();
+    }
   }
 
   private setupSlingshot() {
@@ -165,13 +506,15 @@ export class Game extends Scene {
         gameObject: Phaser.GameObjects.GameObject,
       ) => {
         if (
-          isControlAllowed(gameObject, this.puck, {
+          isControlAllowed(gameObject, this.puckView, {
             isRespawning: this.isRespawning,
           })
         ) {
           this.isDragging = true;
-          this.startX = (gameObject as Phaser.Physics.Matter.Sprite).x;
-          this.startY = (gameObject as Phaser.Physics.Matter.Sprite).y;
+          this.startX = (gameObject as Phaser.GameObjects.Sprite).x;
+          this.startY = (gameObject as Phaser.GameObjects.Sprite).y;
+          this.diffX = 0;
+          this.diffY = 0;
           // Reset max zoom tracking for new drag
           this.maxReachedZoomDuringDrag = this.currentZoom;
         }
@@ -187,7 +530,7 @@ export class Game extends Scene {
         dragY: number,
       ) => {
         if (
-          isDragAllowed(gameObject, this.puck, {
+          isDragAllowed(gameObject, this.puckView, {
             isRespawning: this.isRespawning,
             isDragging: this.isDragging,
           })
@@ -208,15 +551,16 @@ export class Game extends Scene {
         gameObject: Phaser.GameObjects.GameObject,
       ) => {
         if (
-          isControlAllowed(gameObject, this.puck, {
+          isControlAllowed(gameObject, this.puckView, {
             isRespawning: this.isRespawning,
           })
         ) {
           this.sling.clear();
           this.isDragging = false;
-          const velocityX = this.diffX * SLINGSHOT.VELOCITY_MULTIPLIER;
-          const velocityY = this.diffY * SLINGSHOT.VELOCITY_MULTIPLIER;
-          this.puck.setVelocity(velocityX, velocityY);
+
+          // Applied on the next physics step so every sling lands on a
+          // known simulation frame
+          this.pendingSling = { x: this.diffX, y: this.diffY };
 
           // Start speed-based zoom after release
           this.startSpeedBasedZoom();
@@ -259,6 +603,276 @@ export class Game extends Scene {
     );
   }
 
+  private setupCollisions() {
+    this.matter.world.on(
+      "collisionstart",
+      (event: Phaser.Physics.Matter.Events.CollisionStartEvent) => {
+        if (this.raceState.phase !== "running" || !this.puck?.body) return;
+
+        const puckBody = this.puck.body;
+        event.pairs.forEach((pair) => {
+          if (pair.bodyA !== puckBody && pair.bodyB !== puckBody) return;
+
+          const other = pair.bodyA === puckBody ? pair.bodyB : pair.bodyA;
+          if (
+            other.label.startsWith("wall") ||
+            other.label.startsWith("obstacle")
+          ) {
+            this.runStats.wallHits++;
+          }
+        });
+      },
+    );
+  }
+
+  /**
+   * Collect checkpoint sensor hits, in replays as well since the finish
+   * depends on them
+   */
+  private setupCheckpoints() {
+    if (!this.currentTrack) return;
+
+    if (!this.replayOf) {
+      this.bestSplits = getBestSplits(this.currentTrack.metadata.trackHash);
+    }
+
+    this.matter.world.on(
+      "collisionstart",
+      (event: Phaser.Physics.Matter.Events.CollisionStartEvent) => {
+        if (this.raceState.phase !== "running") return;
+
+        this.getPuckContacts(event).forEach(({ other: { label } }) => {
+          if (label.startsWith(CHECKPOINT_LABEL_PREFIX)) {
+            this.checkpointHits.push(
+              parseInt(label.slice(CHECKPOINT_LABEL_PREFIX.length), 10),
+            );
+          }
+        });
+      },
+    );
+  }
+
+  /**
+   * Pairs of the puck with the bodies it starts or stops touching
+   * Compound bodies collide through their parts, `other` is their parent
+   * holding the label and material.
+   */
+  private getPuckContacts(
+    event:
+      | Phaser.Physics.Matter.Events.CollisionStartEvent
+      | Phaser.Physics.Matter.Events.CollisionEndEvent,
+  ): {
+    pair: Phaser.Types.Physics.Matter.MatterCollisionPair;
+    other: MatterJS.BodyType;
+  }[] {
+    const puckBody = this.puck?.body;
+    if (!puckBody) return [];
+
+    return event.pairs
+      .filter((pair) => pair.bodyA === puckBody || pair.bodyB === puckBody)
+      .map((pair) => ({
+        pair,
+        other: (pair.bodyA === puckBody ? pair.bodyB : pair.bodyA).parent,
+      }));
+  }
+
+  /**
+   * Scale the bounce off walls and obstacles and collect lossless hits, in
+   * replays as well since it changes how the puck moves
+   * Collision start events come before Matter resolves the contact, so the
+   * puck velocity is still the incoming one for lossless bounces.
+   */
+  private setupMaterials() {
+    this.applyTrackBounce();
+
+    this.matter.world.on(
+      "collisionstart",
+      (event: Phaser.Physics.Matter.Events.CollisionStartEvent) => {
+        this.getPuckContacts(event).forEach(({ pair, other }) => {
+          if (!getBodyMaterial(other)) return;
+
+          // The puck is neutral, so the pair bounces as the scaled body does
+          if (isLosslessBody(other)) {
+            const { velocity } = this.puck.body as MatterJS.BodyType;
+            this.incomingVelocity ??= { x: velocity.x, y: velocity.y };
+            this.bounceContacts.push({
+              normal: getSurfaceNormal(pair.collision, this.puck.body),
+              restitution: other.restitution,
+              surfaceVelocity: getSurfaceVelocity(
+                other,
+                pair.collision.supports,
+              ),
+            });
+          }
+        });
+      },
+    );
+  }
+
+  /**
+   * Replace Matter's response to lossless hits during the last step by an
+   * exact reflection, which keeps the speed and adds no spin
+   */
+  private updateBounces() {
+    const contacts = this.bounceContacts;
+    const incoming = this.incomingVelocity;
+    this.bounceContacts = [];
+    this.incomingVelocity = null;
+    if (!incoming || contacts.length === 0) return;
+
+    const velocity = resolveBounces(incoming, contacts);
+    this.puck.setVelocity(velocity.x, velocity.y);
+    this.puck.setAngularVelocity(0);
+  }
+
+  /**
+   * Track the surface zones under the puck, in replays as well since they
+   * change how it moves
+   */
+  private setupSurfaceZones() {
+    const getZoneIndex = (label: string) =>
+      label.startsWith(ZONE_LABEL_PREFIX)
+        ? parseInt(label.slice(ZONE_LABEL_PREFIX.length), 10)
+        : null;
+
+    this.matter.world.on(
+      "collisionstart",
+      (event: Phaser.Physics.Matter.Events.CollisionStartEvent) => {
+        this.getPuckContacts(event).forEach(({ other: { label } }) => {
+          const index = getZoneIndex(label);
+          if (index === null) return;
+
+          // Parts of one compound zone only boost once
+          const contacts = this.zoneContacts.get(index) ?? 0;
+          this.zoneContacts.set(index, contacts + 1);
+          if (contacts === 0) {
+            this.zoneEntries.push(index);
+          }
+        });
+      },
+    );
+
+    this.matter.world.on(
+      "collisionend",
+      (event: Phaser.Physics.Matter.Events.CollisionEndEvent) => {
+        this.getPuckContacts(event).forEach(({ other: { label } }) => {
+          const index = getZoneIndex(label);
+          if (index === null) return;
+
+          const contacts = (this.zoneContacts.get(index) ?? 1) - 1;
+          if (contacts > 0) {
+            this.zoneContacts.set(index, contacts);
+          } else {
+            this.zoneContacts.delete(index);
+          }
+        });
+      },
+    );
+  }
+
+  /**
+   * Collect the teleporter entrances the puck enters, in replays as well
+   */
+  private setupTeleporters() {
+    this.matter.world.on(
+      "collisionstart",
+      (event: Phaser.Physics.Matter.Events.CollisionStartEvent) => {
+        this.getPuckContacts(event).forEach(({ other: { label } }) => {
+          if (label.startsWith(TELEPORTER_LABEL_PREFIX)) {
+            this.teleporterEntries.push(
+              parseInt(label.slice(TELEPORTER_LABEL_PREFIX.length), 10),
+            );
+          }
+        });
+      },
+    );
+  }
+
+  /**
+   * Send the puck through the first teleporter entered during the last
+   * step, unless the previous teleport is too recent
+   * Its interpolation restarts at the exit, so the view and the camera
+   * following it snap there instead of sweeping across the track. The speed
+   * is kept, which leaves the speed zoom where it was.
+   */
+  private updateTeleporters() {
+    const entries = this.teleporterEntries;
+    this.teleporterEntries = [];
+    if (
+      entries.length === 0 ||
+      !this.currentTrack ||
+      !this.puck?.body ||
+      this.raceState.phase !== "running" ||
+      this.isRespawning ||
+      !isTeleporterReady(
+        this.lastTeleportTime,
+        this.simulationTime,
+        getTeleporterConfig(),
+      )
+    ) {
+      return;
+    }
+
+    const { exit } = this.currentTrack.teleporters[entries[0]];
+    const velocity = getExitVelocity(this.puck.body.velocity, exit);
+    this.puck.setPosition(exit.position.x, exit.position.y);
+    this.puck.setVelocity(velocity.x, velocity.y);
+    this.previousPuckPosition = { x: exit.position.x, y: exit.position.y };
+    this.lastTeleportTime = this.simulationTime;
+  }
+
+  /**
+   * Boost the puck on the pads entered during the last step and set its
+   * air friction for the zones it is on
+   */
+  private updateSurfaceZones() {
+    const entries = this.zoneEntries;
+    this.zoneEntries = [];
+    if (!this.currentTrack || !this.puck?.body) return;
+
+    const zones = this.currentTrack.surfaceZones;
+    const config = getSurfaceZoneConfig();
+
+    // Pads do nothing before the first sling or during a respawn
+    if (this.raceState.phase === "running" && !this.isRespawning) {
+      entries
+        .filter((index) => zones[index].type === "boost")
+        .forEach((index) => {
+          const velocity = getBoostedVelocity(
+            this.puck.body!.velocity,
+            zones[index],
+            config,
+          );
+          this.puck.setVelocity(velocity.x, velocity.y);
+        });
+    }
+
+    this.puck.setFrictionAir(
+      getZoneAirFriction(
+        [...this.zoneContacts.keys()].map((index) => zones[index]),
+        config,
+      ),
+    );
+  }
+
+  /**
+   * Count the checkpoints hit during the last step, in order only
+   */
+  private updateCheckpoints() {
+    const hits = this.checkpointHits;
+    this.checkpointHits = [];
+    if (this.raceState.phase !== "running" || this.isRespawning) return;
+
+    const time = getElapsedTime(this.raceState, this.simulationTime);
+    hits.forEach((index) => {
+      const progress = passCheckpoint(this.checkpointProgress, index, time);
+      if (progress !== this.checkpointProgress) {
+        this.checkpointProgress = progress;
+        this.lastSplitTime = this.simulationTime;
+      }
+    });
+  }
+
   private setupFPS() {
     // Create FPS counter text
     this.fpsText = this.add.text(10, 10, "FPS: 60", {
@@ -274,13 +888,236 @@ export class Game extends Scene {
     this.fpsText.setDepth(1000); // High depth to stay on top
   }
 
-  private updateCameraZoomForSling() {
-    const slingLength = calculateSlingLength(
-      this.startX,
-      this.startY,
-      this.puck.x,
-      this.puck.y,
+  private applyPendingSling() {
+    const vector = this.pendingSling;
+    this.pendingSling = null;
+    if (!vector || !this.puck.body || this.isRespawning) return;
+
+    // Reward re-slinging close to the peak speed of the last sling
+    const timingMultiplier = calculateTimingMultiplier(
+      this.slingState,
+      getTimingBoostConfig(),
     );
+    // Reward strafe-like slings at an angle to the current direction
+    const angleMultiplier = calculateAngleMultiplier(
+      this.puck.body.velocity,
+      vector,
+      getAngleBoostConfig(),
+    );
+    const multiplier = timingMultiplier * angleMultiplier;
+    const impulse = calculateSlingImpulse(vector, getSlingImpulseConfig());
+    this.applySling({
+      x: impulse.velocity.x * multiplier,
+      y: impulse.velocity.y * multiplier,
+    });
+  }
+
+  private applySling(velocity: Position) {
+    this.puck.setVelocity(velocity.x, velocity.y);
+    this.slingState = recordSling(
+      calculateVelocityMagnitude(velocity.x, velocity.y),
+    );
+
+    // The clock starts on the first sling
+    this.raceState = startRace(this.raceState, this.simulationTime);
+    if (this.raceState.phase === "running") {
+      this.runStats.slingCount++;
+      this.ghostRecorder.recordSling(velocity);
+    }
+  }
+
+  private getCurrentSlingImpulse() {
+    return calculateSlingImpulse(
+      { x: this.diffX, y: this.diffY },
+      getSlingImpulseConfig(),
+    );
+  }
+
+  private setupHUD() {
+    // Race time and speed, below the FPS counter
+    this.hudText = this.add.text(10, 44, "", {
+      fontSize: "20px",
+      color: "#ffffff",
+      fontFamily: "Arial, monospace",
+      backgroundColor: "#000000",
+      padding: { x: 8, y: 4 },
+    });
+
+    this.hudText.setScrollFactor(0);
+    this.hudText.setDepth(1000);
+    this.updateHUD();
+  }
+
+  private updateHUD() {
+    if (!this.hudText || !this.puck || !this.puck.body) return;
+
+    const elapsed = getElapsedTime(this.raceState, this.simulationTime);
+    const speed = calculateVelocityMagnitude(
+      this.puck.body.velocity.x,
+      this.puck.body.velocity.y,
+    );
+
+    const lines = [
+      `Time: ${formatRaceTime(elapsed)}`,
+      `Speed: ${speed.toFixed(1)}`,
+    ];
+    lines.push(...this.getLapLines());
+    const checkpointCount = this.currentTrack?.checkpoints.length ?? 0;
+    if (checkpointCount > 0) {
+      lines.push(
+        `Checkpoints: ${this.checkpointProgress.next}/${checkpointCount}`,
+      );
+    }
+    const split = this.getRecentSplitText();
+    if (split) {
+      lines.push(split);
+    }
+    if (this.replayOf) {
+      lines.unshift("REPLAY");
+    }
+    if (this.raceState.phase === "finished") {
+      lines.push("FINISHED!");
+    }
+
+    this.hudText.setText(lines.join("\n"));
+  }
+
+  /**
+   * Current lap, last and best lap times of a multi-lap race
+   */
+  private getLapLines(): string[] {
+    const laps = this.currentTrack?.laps ?? 1;
+    if (laps <= 1) {
+      return [];
+    }
+
+    const { lapTimes } = this.lapProgress;
+    const lines = [`Lap: ${Math.min(lapTimes.length + 1, laps)}/${laps}`];
+    const bestLap = getBestLap(lapTimes);
+    if (bestLap !== null) {
+      lines.push(
+        `Last lap: ${formatRaceTime(lapTimes[lapTimes.length - 1])}`,
+        `Best lap: ${formatRaceTime(bestLap)}`,
+      );
+    }
+
+    return lines;
+  }
+
+  /**
+   * Time and personal best delta of the last checkpoint, for a few
+   * seconds after hitting it
+   */
+  private getRecentSplitText(): string | null {
+    if (
+      this.lastSplitTime === null ||
+      this.simulationTime - this.lastSplitTime > SPLIT_DISPLAY_DURATION
+    ) {
+      return null;
+    }
+
+    const { splits } = this.checkpointProgress;
+    const index = splits.length - 1;
+    const text = `Split ${index + 1}: ${formatRaceTime(splits[index])}`;
+    const delta = getSplitDelta(splits, this.bestSplits, index);
+
+    return delta === null ? text : `${text} (${formatTimeDelta(delta)})`;
+  }
+
+  private updateRace() {
+    const lapLine = this.currentTrack ? getLapLine(this.currentTrack) : null;
+    if (
+      this.raceState.phase !== "running" ||
+      !lapLine ||
+      !this.puck ||
+      !this.previousPuckPosition
+    ) {
+      return;
+    }
+
+    const crossing = getLineCrossing(
+      this.previousPuckPosition,
+      { x: this.puck.x, y: this.puck.y },
+      PUCK_RADIUS,
+      lapLine,
+    );
+    if (!crossing) return;
+
+    // Only crossing the line the right way after every checkpoint ends a
+    // lap, crossing it backwards has to be made up for first
+    const { checkpoints, laps } = this.currentTrack!;
+    const progress = crossLapLine(
+      this.lapProgress,
+      crossing,
+      getElapsedTime(this.raceState, this.simulationTime),
+      hasPassedAllCheckpoints(this.checkpointProgress, checkpoints.length),
+    );
+    const completedLap =
+      progress.lapTimes.length > this.lapProgress.lapTimes.length;
+    this.lapProgress = progress;
+    if (!completedLap) return;
+
+    if (progress.lapTimes.length >= laps) {
+      this.raceState = finishRace(this.raceState, this.simulationTime);
+      this.completeRun();
+      return;
+    }
+
+    // Every lap goes through the checkpoints again, splits keep adding up
+    this.checkpointProgress = { ...this.checkpointProgress, next: 0 };
+  }
+
+  private completeRun() {
+    if (!this.currentTrack) return;
+
+    if (this.replayOf) {
+      const watched = this.replayOf;
+      this.time.delayedCall(RESULTS_DELAY, () => {
+        this.scene.start("Results", watched);
+      });
+      return;
+    }
+
+    const time = getElapsedTime(this.raceState, this.simulationTime);
+    const trackHash = this.currentTrack.metadata.trackHash;
+    const { previousBest, isNewBest } = recordPersonalBest(trackHash, time);
+    // Best laps are only tracked on circuits, a single lap is the run
+    const { lapTimes } = this.lapProgress;
+    const lapUpdate =
+      lapTimes.length > 1
+        ? recordPersonalBestLap(trackHash, getBestLap(lapTimes)!)
+        : { previousBest: null, isNewBest: false };
+    const replay = this.ghostRecorder.finish(time, {
+      x: this.puck.x,
+      y: this.puck.y,
+    });
+
+    if (isNewBest) {
+      saveBestGhost(trackHash, replay);
+      saveBestSplits(trackHash, this.checkpointProgress.splits);
+    }
+
+    const result: ResultsSceneData = {
+      ...this.runStats,
+      trackHash,
+      time,
+      previousBest,
+      isNewBest,
+      lapTimes,
+      previousBestLap: lapUpdate.previousBest,
+      isNewBestLap: lapUpdate.isNewBest,
+      replay,
+    };
+
+    console.log(`Race finished in ${formatRaceTime(time)}s`, result);
+
+    this.time.delayedCall(RESULTS_DELAY, () => {
+      this.scene.start("Results", result);
+    });
+  }
+
+  private updateCameraZoomForSling() {
+    const slingLength = this.getCurrentSlingImpulse().length;
 
     const zoomConfig = getZoomConfig();
 
@@ -344,10 +1181,14 @@ export class Game extends Scene {
     if (!this.currentTrack || !this.puck || this.isRespawning) return;
 
     this.isRespawning = true;
+    if (this.raceState.phase === "running") {
+      this.runStats.respawns++;
+    }
 
     // Stop the puck immediately
     this.puck.setVelocity(0, 0);
     this.puck.setAngularVelocity(0);
+    this.pendingSling = null;
 
     // Clear slingshot graphics if dragging
     if (this.isDragging) {
@@ -355,84 +1196,274 @@ export class Game extends Scene {
       this.sling.clear();
     }
 
-    // Fade out animation
+    // Fade out animation, the puck is moved by updateRespawn() on the
+    // physics step where the fade ends
+    this.respawnRepositionTime =
+      this.simulationTime + DERIVED.RESPAWN_FADE_DURATION;
     this.tweens.add({
-      targets: this.puck,
+      targets: this.puckView,
       alpha: 0,
       duration: DERIVED.RESPAWN_FADE_DURATION,
       ease: "Power2.easeInOut",
-      onComplete: () => {
-        this.repositionAndFadeIn();
-      },
     });
   }
 
+  /**
+   * Advance the respawn sequence on simulation time rather than tweens,
+   * so replays respawn on the same step
+   */
+  private updateRespawn() {
+    if (
+      this.respawnRepositionTime !== null &&
+      this.simulationTime >= this.respawnRepositionTime
+    ) {
+      this.respawnRepositionTime = null;
+      this.repositionAndFadeIn();
+    } else if (
+      this.respawnEndTime !== null &&
+      this.simulationTime >= this.respawnEndTime
+    ) {
+      this.respawnEndTime = null;
+      this.isRespawning = false;
+    }
+  }
+
+  /**
+   * Last checkpoint hit, or the start before the first one
+   */
+  private getCheckpointRespawnPosition(): { x: number; y: number } {
+    const { checkpoints, startPosition, bounds } = this.currentTrack!;
+    const last = checkpoints[this.checkpointProgress.next - 1];
+    return last
+      ? { x: last.position.x, y: last.position.y }
+      : getRespawnPosition(null, startPosition, bounds);
+  }
+
   private repositionAndFadeIn() {
     if (!this.currentTrack || !this.puck) return;
 
-    // Determine respawn position using priority order
-    const respawnPos = getRespawnPosition(
-      this.lastValidPosition,
-      this.currentTrack.startPosition,
-      this.currentTrack.bounds,
-    );
+    // Determine respawn position using priority order, unless the track
+    // sends the puck back to its last checkpoint
+    const respawnPos =
+      this.currentTrack.respawnMode === "checkpoint"
+        ? this.getCheckpointRespawnPosition()
+        : getRespawnPosition(
+            this.lastValidPosition,
+            this.currentTrack.startPosition,
+            this.currentTrack.bounds,
+          );
 
     // Set new position while invisible
     this.puck.setPosition(respawnPos.x, respawnPos.y);
     this.puck.setVelocity(0, 0);
     this.puck.setAngularVelocity(0);
+    this.previousPuckPosition = respawnPos;
+    this.slingState = createSlingState();
 
     // Fade in animation
+    this.respawnEndTime = this.simulationTime + DERIVED.RESPAWN_FADE_DURATION;
     this.tweens.add({
-      targets: this.puck,
+      targets: this.puckView,
       alpha: 1,
       duration: DERIVED.RESPAWN_FADE_DURATION,
       ease: "Power2.easeInOut",
-      onComplete: () => {
-        this.isRespawning = false;
-      },
     });
   }
 
-  update() {
+  update(_time: number, delta: number) {
     // Update FPS counter
     if (this.fpsText) {
       const fps = Math.round(this.game.loop.actualFps);
       this.fpsText.setText(`FPS: ${fps}`);
     }
 
-    // Check if puck is out of bounds and update last valid position
-    if (this.currentTrack && this.puck && !this.isRespawning) {
-      const puckPosition = { x: this.puck.x, y: this.puck.y };
+    if (!this.currentTrack || !this.puck || !this.puckView) return;
 
-      if (isOutOfBounds(puckPosition, this.currentTrack.bounds)) {
-        // Start respawn animation
-        this.startRespawnAnimation();
-      } else {
-        // Update last valid position when puck is in bounds
-        this.lastValidPosition = { x: puckPosition.x, y: puckPosition.y };
-      }
+    // Run the simulation at a fixed rate whatever the display refresh rate
+    const config = getFixedStepConfig();
+    const advance = advanceFixedStep(this.clock, delta, config);
+    this.clock = advance.clock;
+    for (let step = 0; step < advance.steps; step++) {
+      this.stepSimulation(config.step);
     }
 
+    this.renderPuck(advance.alpha);
+    this.renderMovingObstacles(
+      getElapsedTime(
+        this.raceState,
+        this.simulationTime - (1 - advance.alpha) * config.step,
+      ),
+    );
+    this.updateHUD();
+
+    // Move the ghost along the same race clock, between steps as well
+    this.updateGhost(
+      getElapsedTime(
+        this.raceState,
+        this.simulationTime + advance.alpha * config.step,
+      ),
+    );
+
     // Update speed-based zoom when not dragging
     if (!this.isDragging && !this.isRespawning) {
       this.updateSpeedBasedZoom();
     }
 
     if (
-      isDragAllowed(this.puck, this.puck, {
+      isDragAllowed(this.puckView, this.puckView, {
         isRespawning: this.isRespawning,
         isDragging: this.isDragging,
       })
     ) {
-      this.sling.clear();
-      this.sling.lineBetween(
-        Math.round(this.puck.x),
-        Math.round(this.puck.y),
-        Math.round(this.camera.scrollX + this.input.activePointer.x),
-        Math.round(this.camera.scrollY + this.input.activePointer.y),
+      this.drawSling();
+    }
+  }
+
+  /**
+   * One fixed physics step, everything that affects the outcome of a run
+   * happens here so the same slings on the same frames replay identically
+   */
+  private stepSimulation(step: number) {
+    if (this.replayOf) {
+      this.applyReplaySlings();
+    } else {
+      this.applyPendingSling();
+    }
+
+    this.previousPuckPosition = { x: this.puck.x, y: this.puck.y };
+    this.moveObstacles(
+      getElapsedTime(this.raceState, this.simulationTime + step),
+    );
+    this.matter.world.step(step);
+    this.updateBounces();
+    this.simulationTime += step;
+
+    this.updateRespawn();
+
+    // Check if puck is out of bounds and update last valid position
+    if (this.currentTrack && !this.isRespawning) {
+      const puckPosition = { x: this.puck.x, y: this.puck.y };
+
+      if (!isPointInTrackArea(this.currentTrack.trackArea, puckPosition)) {
+        // Start respawn animation
+        this.startRespawnAnimation();
+      } else {
+        // Update last valid position when puck is in bounds
+        this.lastValidPosition = { x: puckPosition.x, y: puckPosition.y };
+      }
+    }
+
+    this.updateSurfaceZones();
+    this.updateCheckpoints();
+    this.updateRace();
+    // After the race, so a line crossed on the way in still counts
+    this.updateTeleporters();
+
+    if (this.raceState.phase === "running") {
+      this.ghostRecorder.recordFrame(
+        getElapsedTime(this.raceState, this.simulationTime),
+        { x: this.puck.x, y: this.puck.y },
+      );
+    }
+
+    // Track the speed curve of the last sling for the timing boost
+    if (this.puck.body && !this.isRespawning) {
+      this.slingState = updateSlingState(
+        this.slingState,
+        calculateVelocityMagnitude(
+          this.puck.body.velocity.x,
+          this.puck.body.velocity.y,
+        ),
+        getTimingBoostConfig(),
       );
     }
+
+    this.checkReplayDivergence();
+  }
+
+  /**
+   * Put the moving obstacles where they are at a race time, before the step
+   * reaching it
+   * They only move while the race runs, so every run, replay and ghost meets
+   * them at the same times. Moving them with a velocity lets Matter push the
+   * puck along.
+   */
+  private moveObstacles(time: number) {
+    this.currentTrack?.movingObstacles.forEach(({ body, motion, home }) => {
+      const pose = getObstaclePose(motion, home, time);
+      this.matter.body.setPosition(body, pose, true);
+      this.matter.body.setAngle(body, pose.angle, true);
+    });
+  }
+
+  /**
+   * Draw the moving obstacles at a race time between steps, like the puck
+   */
+  private renderMovingObstacles(time: number) {
+    this.currentTrack?.movingObstacles.forEach(({ motion, home }, index) => {
+      const pose = getObstaclePose(motion, home, time);
+      this.movingObstacleGraphics[index]
+        ?.setPosition(pose.x, pose.y)
+        .setRotation(pose.angle);
+    });
+  }
+
+  private renderPuck(alpha: number) {
+    const current = { x: this.puck.x, y: this.puck.y };
+    const position = interpolatePosition(
+      this.previousPuckPosition ?? current,
+      current,
+      alpha,
+    );
+
+    this.puckView.setPosition(position.x, position.y);
+    this.puckView.setRotation(this.puck.rotation);
+  }
+
+  private drawSling() {
+    const impulse = this.getCurrentSlingImpulse();
+    const puckX = Math.round(this.puckView.x);
+    const puckY = Math.round(this.puckView.y);
+
+    this.sling.clear();
+
+    // Maximum sling reach
+    this.sling.lineStyle(2, 0xffffff, 0.3);
+    this.sling.strokeCircle(puckX, puckY, SLINGSHOT.MAX_LENGTH);
+
+    // Sling band, clamped to MAX_LENGTH and colored from green to red by power
+    const color = Phaser.Display.Color.Interpolate.RGBWithRGB(
+      0,
+      255,
+      0,
+      255,
+      0,
+      0,
+      100,
+      Math.round(impulse.power * 100),
+    );
+    this.sling.lineStyle(
+      4,
+      Phaser.Display.Color.GetColor(color.r, color.g, color.b),
+    );
+    this.sling.lineBetween(
+      puckX,
+      puckY,
+      Math.round(puckX - impulse.vector.x),
+      Math.round(puckY - impulse.vector.y),
+    );
+
+    // Power indicator bar above the puck
+    const barWidth = 80;
+    const barHeight = 10;
+    const barX = puckX - barWidth / 2;
+    const barY = puckY - 60;
+    this.sling.fillStyle(0x000000, 0.6);
+    this.sling.fillRect(barX, barY, barWidth, barHeight);
+    this.sling.fillStyle(
+      Phaser.Display.Color.GetColor(color.r, color.g, color.b),
+    );
+    this.sling.fillRect(barX, barY, barWidth * impulse.power, barHeight);
   }
 
   private showErrorMessage(message: string) {
@@ -1,10 +1,19 @@
 import { Scene, GameObjects } from "phaser";
+import { DEV_TRACK_PATH, isDevMode } from "../utils/dev-mode";
+import { ImportedTrack } from "../utils/track-types";
+import { formatRaceTime } from "../utils/race-logic";
+import {
+  GHOST_FILE_EXTENSION,
+  parseGhostFile,
+  validateGhostForTrack,
+} from "../utils/ghost-format";
 
 export class MainMenu extends Scene {
   background: GameObjects.Image;
   logo: GameObjects.Image;
   title: GameObjects.Text;
   private fileInput: HTMLInputElement;
+  private ghostInput: HTMLInputElement;
 
   constructor() {
     super("MainMenu");
@@ -59,25 +68,68 @@ export class MainMenu extends Scene {
         this.openFileDialog();
       });
 
-    this.createFileInput();
+    const importGhostButton = this.add
+      .text(centerX, centerY + 240, "Import Ghost", {
+        fontFamily: "Arial Black",
+        fontSize: 24,
+        color: "#88ccff",
+        stroke: "#000000",
+        strokeThickness: 5,
+        align: "center",
+      })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerover", () => importGhostButton.setColor("#ffff00"))
+      .on("pointerout", () => importGhostButton.setColor("#88ccff"))
+      .on("pointerdown", () => {
+        this.ghostInput.click();
+      });
+
+    this.fileInput = this.createFileInput(".svg", (file) => {
+      if (file.type === "image/svg+xml") {
+        this.handleSVGFile(file);
+      }
+    });
+    this.ghostInput = this.createFileInput(
+      `${GHOST_FILE_EXTENSION},.json`,
+      (file) => this.handleGhostFile(file),
+    );
+
+    this.events.once("shutdown", () => {
+      this.fileInput.remove();
+      this.ghostInput.remove();
+    });
+
+    // Dev mode jumps straight into the test track, but only once so the
+    // menu stays reachable through "Back to Menu"
+    if (isDevMode() && !this.registry.get("devTrackLoaded")) {
+      this.registry.set("devTrackLoaded", true);
+      this.loadDefaultTrack();
+    }
   }
 
-  private createFileInput() {
-    this.fileInput = document.createElement("input");
-    this.fileInput.type = "file";
-    this.fileInput.accept = ".svg";
-    this.fileInput.style.display = "none";
+  private createFileInput(
+    accept: string,
+    onFile: (file: File) => void,
+  ): HTMLInputElement {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = accept;
+    input.style.display = "none";
 
-    this.fileInput.addEventListener("change", (event) => {
+    input.addEventListener("change", (event) => {
       const target = event.target as HTMLInputElement;
       const file = target.files?.[0];
 
-      if (file && file.type === "image/svg+xml") {
-        this.handleSVGFile(file);
+      if (file) {
+        onFile(file);
       }
+      // Allow picking the same file again
+      target.value = "";
     });
 
-    document.body.appendChild(this.fileInput);
+    document.body.appendChild(input);
+    return input;
   }
 
   private openFileDialog() {
@@ -123,6 +175,50 @@ export class MainMenu extends Scene {
     }
   }
 
+  private async handleGhostFile(file: File) {
+    const track = this.registry.get("importedTrack") as
+      | ImportedTrack
+      | undefined;
+    if (!track) {
+      this.showMessage("Load a track before importing a ghost", "#ff0000");
+      return;
+    }
+
+    try {
+      const ghostFile = parseGhostFile(await file.text());
+      const validation = validateGhostForTrack(ghostFile, track);
+
+      if (!validation.isValid) {
+        this.showMessage(
+          `Ghost rejected: ${validation.errors.join(", ")}`,
+          "#ff0000",
+        );
+        return;
+      }
+
+      if (validation.warnings.length > 0) {
+        console.warn("Ghost warnings:", validation.warnings);
+      }
+
+      // Game prefers this ghost over the stored personal best
+      this.registry.set("importedGhost", ghostFile);
+
+      const details = [
+        `Ghost loaded: ${formatRaceTime(ghostFile.timeline.time)}`,
+        ...validation.warnings,
+      ];
+      this.showMessage(
+        details.join("\n"),
+        validation.warnings.length > 0 ? "#ffaa00" : "#00ff00",
+      );
+    } catch (error) {
+      console.error("Error importing ghost:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      this.showMessage(`Ghost import failed: ${errorMessage}`, "#ff0000");
+    }
+  }
+
   private showMessage(text: string, color: string) {
     const messageText = this.add
       .text(this.cameras.main.width / 2, this.cameras.main.height - 100, text, {
@@ -144,7 +240,7 @@ export class MainMenu extends Scene {
 
   private async loadDefaultTrack() {
     try {
-      const response = await fetch("assets/tracks/track_straight_test.svg");
+      const response = await fetch(DEV_TRACK_PATH);
       if (!response.ok) {
         throw new Error(`Failed to load default track: ${response.statusText}`);
       }
@@ -0,0 +1,199 @@
+import { Scene, GameObjects } from "phaser";
+import {
+  RunResult,
+  formatRaceTime,
+  formatTimeDelta,
+  getBestDelta,
+  getBestLap,
+  getBestLapDelta,
+} from "../utils/race-logic";
+import { GhostTimeline } from "../utils/ghost-replay";
+import {
+  createGhostFile,
+  getGhostFileName,
+  serializeGhostFile,
+} from "../utils/ghost-format";
+import { downloadTextFile } from "../utils/download";
+import type { GameSceneData } from "./Game";
+
+export interface ResultsSceneData extends RunResult {
+  /** Recording of the run, null when it cannot be watched back */
+  replay: GhostTimeline | null;
+}
+
+export class Results extends Scene {
+  camera: Phaser.Cameras.Scene2D.Camera;
+  title: GameObjects.Text;
+  private result: ResultsSceneData;
+
+  constructor() {
+    super("Results");
+  }
+
+  init(data: ResultsSceneData) {
+    this.result = data;
+  }
+
+  create() {
+    this.camera = this.cameras.main;
+    this.camera.setBackgroundColor(0x1d2b53);
+
+    const centerX = this.cameras.main.width / 2;
+    const centerY = this.cameras.main.height / 2;
+
+    this.title = this.add
+      .text(centerX, centerY - 250, "Finished!", {
+        fontFamily: "Arial Black",
+        fontSize: 48,
+        color: "#ffffff",
+        stroke: "#000000",
+        strokeThickness: 8,
+        align: "center",
+      })
+      .setOrigin(0.5);
+
+    this.add
+      .text(centerX, centerY - 160, formatRaceTime(this.result.time), {
+        fontFamily: "Arial Black",
+        fontSize: 64,
+        color: "#ffd700",
+        stroke: "#000000",
+        strokeThickness: 8,
+        align: "center",
+      })
+      .setOrigin(0.5);
+
+    this.createBestText(centerX, centerY - 90);
+
+    const stats = [
+      `Slings: ${this.result.slingCount}`,
+      `Wall hits: ${this.result.wallHits}`,
+      `Respawns: ${this.result.respawns}`,
+    ];
+    const bestLapText = this.getBestLapText();
+    if (bestLapText) {
+      stats.push(bestLapText);
+    }
+    this.add
+      .text(centerX, centerY - 10, stats.join("\n"), {
+        fontFamily: "Arial",
+        fontSize: 24,
+        color: "#ffffff",
+        stroke: "#000000",
+        strokeThickness: 4,
+        align: "center",
+        lineSpacing: 6,
+      })
+      .setOrigin(0.5);
+
+    this.createButton(centerX, centerY + 100, "Retry", () => {
+      this.scene.start("Game");
+    });
+    this.createButton(
+      centerX,
+      centerY + 170,
+      "Watch Replay",
+      this.result.replay
+        ? () => {
+            const data: GameSceneData = { replayOf: this.result };
+            this.scene.start("Game", data);
+          }
+        : null,
+    );
+    this.createButton(
+      centerX,
+      centerY + 240,
+      "Export Ghost",
+      this.result.replay ? () => this.exportGhost() : null,
+    );
+    this.createButton(centerX, centerY + 310, "Back to Menu", () => {
+      this.scene.start("MainMenu");
+    });
+  }
+
+  private exportGhost() {
+    if (!this.result.replay) return;
+
+    const file = createGhostFile(this.result.replay, this.result.trackHash);
+    downloadTextFile(getGhostFileName(file), serializeGhostFile(file));
+  }
+
+  private createBestText(x: number, y: number) {
+    const delta = getBestDelta(this.result);
+
+    let text: string;
+    let color: string;
+    if (delta === null) {
+      text = "First finish - new personal best!";
+      color = "#00ff00";
+    } else if (this.result.isNewBest) {
+      text = `New personal best! (${formatTimeDelta(delta)})`;
+      color = "#00ff00";
+    } else {
+      text = `Personal best ${formatRaceTime(this.result.previousBest!)} (${formatTimeDelta(delta)})`;
+      color = "#ff6666";
+    }
+
+    this.add
+      .text(x, y, text, {
+        fontFamily: "Arial",
+        fontSize: 22,
+        color,
+        stroke: "#000000",
+        strokeThickness: 4,
+        align: "center",
+      })
+      .setOrigin(0.5);
+  }
+
+  /**
+   * Best lap of a multi-lap race and how it compares to the best lap so far
+   */
+  private getBestLapText(): string | null {
+    const bestLap = getBestLap(this.result.lapTimes);
+    if (bestLap === null || this.result.lapTimes.length <= 1) {
+      return null;
+    }
+
+    const text = `Best lap: ${formatRaceTime(bestLap)}`;
+    const delta = getBestLapDelta(this.result);
+    if (this.result.isNewBestLap) {
+      return delta === null
+        ? `${text} (new best lap!)`
+        : `${text} (new best lap! ${formatTimeDelta(delta)})`;
+    }
+
+    return delta === null ? text : `${text} (${formatTimeDelta(delta)})`;
+  }
+
+  /**
+   * Menu-style text button, shown greyed out when there is no action
+   */
+  private createButton(
+    x: number,
+    y: number,
+    label: string,
+    onClick: (() => void) | null,
+  ): GameObjects.Text {
+    const button = this.add
+      .text(x, y, label, {
+        fontFamily: "Arial Black",
+        fontSize: 32,
+        color: onClick ? "#ffffff" : "#777777",
+        stroke: "#000000",
+        strokeThickness: 6,
+        align: "center",
+      })
+      .setOrigin(0.5);
+
+    if (onClick) {
+      button
+        .setInteractive({ useHandCursor: true })
+        .on("pointerover", () => button.setColor("#ffff00"))
+        .on("pointerout", () => button.setColor("#ffffff"))
+        .on("pointerdown", onClick);
+    }
+
+    return button;
+  }
+}
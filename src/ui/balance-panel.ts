@@ -0,0 +1,328 @@
+import { DERIVED, BalanceSectionName } from "../utils/balance";
+import {
+  getBalanceSectionNames,
+  getBalanceKeys,
+  getBalanceValue,
+  setBalanceValue,
+  resetBalance,
+  onBalanceChange,
+} from "../utils/balance-store";
+import {
+  BALANCE_LIMITS,
+  BalancePreset,
+  DEFAULT_PRESET,
+  ValueLimit,
+  applyBalancePreset,
+  createPresetFromCurrent,
+  deleteStoredPreset,
+  isValueOptions,
+  loadStoredPresets,
+  parsePreset,
+  saveStoredPreset,
+  serializePreset,
+  validateBalanceEdit,
+  validateBalancePreset,
+} from "../utils/balance-presets";
+import { downloadTextFile } from "../utils/download";
+
+/**
+ * Dev mode overlay listing every balance value as an editable field.
+ * Edits are applied to the balance store immediately, so the running
+ * scene picks them up on its next read.
+ */
+export class BalancePanel {
+  private root: HTMLDivElement;
+  private inputs = new Map<string, HTMLInputElement | HTMLSelectElement>();
+  private derivedText: HTMLPreElement;
+  private presetSelect: HTMLSelectElement;
+  private presetNameInput: HTMLInputElement;
+  private statusText: HTMLDivElement;
+  private unsubscribe: () => void;
+
+  constructor(parent: HTMLElement = document.body) {
+    this.root = document.createElement("div");
+    this.root.id = "balance-panel";
+
+    const details = document.createElement("details");
+    details.open = true;
+
+    const summary = document.createElement("summary");
+    summary.textContent = "Balance";
+    details.appendChild(summary);
+    details.appendChild(this.createPresetSection());
+
+    getBalanceSectionNames().forEach((section) => {
+      details.appendChild(this.createSection(section));
+    });
+
+    const derivedTitle = document.createElement("h4");
+    derivedTitle.textContent = "DERIVED";
+    details.appendChild(derivedTitle);
+
+    this.derivedText = document.createElement("pre");
+    details.appendChild(this.derivedText);
+
+    const resetButton = document.createElement("button");
+    resetButton.type = "button";
+    resetButton.textContent = "Reset to defaults";
+    resetButton.addEventListener("click", () => resetBalance());
+    details.appendChild(resetButton);
+
+    this.root.appendChild(details);
+
+    // Keep keyboard and pointer events from reaching the game canvas
+    this.root.addEventListener("pointerdown", (event) =>
+      event.stopPropagation(),
+    );
+    this.root.addEventListener("keydown", (event) => event.stopPropagation());
+
+    parent.appendChild(this.root);
+
+    this.unsubscribe = onBalanceChange((change) => {
+      this.refreshInput(change.section, change.key);
+      this.refreshDerived();
+    });
+    this.refreshDerived();
+  }
+
+  destroy() {
+    this.unsubscribe();
+    this.root.remove();
+    this.inputs.clear();
+  }
+
+  private createPresetSection(): HTMLFieldSetElement {
+    const fieldset = document.createElement("fieldset");
+    const legend = document.createElement("legend");
+    legend.textContent = "PRESETS";
+    fieldset.appendChild(legend);
+
+    this.presetSelect = document.createElement("select");
+    fieldset.appendChild(this.presetSelect);
+    this.refreshPresetList();
+
+    this.presetNameInput = document.createElement("input");
+    this.presetNameInput.type = "text";
+    this.presetNameInput.placeholder = "Preset name";
+    fieldset.appendChild(this.presetNameInput);
+
+    const buttons = document.createElement("div");
+    buttons.className = "balance-panel-buttons";
+    buttons.appendChild(this.createButton("Apply", () => this.applySelected()));
+    buttons.appendChild(this.createButton("Save", () => this.saveCurrent()));
+    buttons.appendChild(
+      this.createButton("Delete", () => this.deleteSelected()),
+    );
+    buttons.appendChild(
+      this.createButton("Export", () => this.exportSelected()),
+    );
+
+    const fileInput = document.createElement("input");
+    fileInput.type = "file";
+    fileInput.accept = ".json,application/json";
+    fileInput.style.display = "none";
+    fileInput.addEventListener("change", () => {
+      const file = fileInput.files?.[0];
+      if (file) {
+        this.importFile(file);
+      }
+      fileInput.value = "";
+    });
+    buttons.appendChild(this.createButton("Import", () => fileInput.click()));
+    buttons.appendChild(fileInput);
+    fieldset.appendChild(buttons);
+
+    this.statusText = document.createElement("div");
+    this.statusText.className = "balance-panel-status";
+    fieldset.appendChild(this.statusText);
+
+    return fieldset;
+  }
+
+  private createButton(text: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.textContent = text;
+    button.addEventListener("click", onClick);
+    return button;
+  }
+
+  private getPresets(): BalancePreset[] {
+    return [DEFAULT_PRESET, ...loadStoredPresets()];
+  }
+
+  private getSelectedPreset(): BalancePreset | undefined {
+    return this.getPresets().find(
+      (preset) => preset.name === this.presetSelect.value,
+    );
+  }
+
+  private refreshPresetList(selectedName?: string) {
+    const previous = selectedName ?? this.presetSelect.value;
+    this.presetSelect.innerHTML = "";
+
+    this.getPresets().forEach((preset) => {
+      const option = document.createElement("option");
+      option.value = preset.name;
+      option.textContent = preset.name;
+      this.presetSelect.appendChild(option);
+    });
+
+    if (previous && this.getPresets().some((p) => p.name === previous)) {
+      this.presetSelect.value = previous;
+    }
+  }
+
+  private applySelected() {
+    const preset = this.getSelectedPreset();
+    if (!preset) return;
+
+    try {
+      applyBalancePreset(preset);
+      this.showStatus(`Applied "${preset.name}"`);
+    } catch (error) {
+      this.showError(error);
+    }
+  }
+
+  private saveCurrent() {
+    const name = this.presetNameInput.value.trim() || this.presetSelect.value;
+    if (!name || name === DEFAULT_PRESET.name) {
+      this.showStatus("Enter a preset name to save", true);
+      return;
+    }
+
+    const preset = createPresetFromCurrent(name);
+    const validation = validateBalancePreset(preset);
+    if (!validation.isValid) {
+      this.showStatus(validation.errors.join("\n"), true);
+      return;
+    }
+
+    try {
+      saveStoredPreset(preset);
+      this.refreshPresetList(name);
+      this.presetNameInput.value = "";
+      this.showStatus(`Saved "${name}"`);
+    } catch (error) {
+      this.showError(error);
+    }
+  }
+
+  private deleteSelected() {
+    const name = this.presetSelect.value;
+    if (!name || name === DEFAULT_PRESET.name) return;
+
+    deleteStoredPreset(name);
+    this.refreshPresetList();
+    this.showStatus(`Deleted "${name}"`);
+  }
+
+  private exportSelected() {
+    const preset = this.getSelectedPreset();
+    if (!preset) return;
+
+    downloadTextFile(`balance_${preset.name}.json`, serializePreset(preset));
+  }
+
+  private async importFile(file: File) {
+    try {
+      const preset = parsePreset(await file.text());
+      saveStoredPreset(preset);
+      this.refreshPresetList(preset.name);
+      this.showStatus(`Imported "${preset.name}"`);
+    } catch (error) {
+      this.showError(error);
+    }
+  }
+
+  private showError(error: unknown) {
+    this.showStatus(
+      error instanceof Error ? error.message : "Unknown error",
+      true,
+    );
+  }
+
+  private showStatus(text: string, isError: boolean = false) {
+    this.statusText.textContent = text;
+    this.statusText.style.color = isError ? "#ff4444" : "#00ff00";
+  }
+
+  private createSection(section: BalanceSectionName): HTMLFieldSetElement {
+    const fieldset = document.createElement("fieldset");
+    const legend = document.createElement("legend");
+    legend.textContent = section;
+    fieldset.appendChild(legend);
+
+    const limits = BALANCE_LIMITS[section] as Record<string, ValueLimit>;
+
+    getBalanceKeys(section).forEach((key) => {
+      const label = document.createElement("label");
+      label.textContent = key;
+
+      const limit = limits[key];
+      const input = isValueOptions(limit)
+        ? this.createOptionsInput(section, key, limit.options)
+        : this.createNumberInput(section, key);
+      input.value = String(getBalanceValue(section, key));
+
+      label.appendChild(input);
+      fieldset.appendChild(label);
+      this.inputs.set(`${section}.${key}`, input);
+    });
+
+    return fieldset;
+  }
+
+  private createNumberInput(
+    section: BalanceSectionName,
+    key: string,
+  ): HTMLInputElement {
+    const input = document.createElement("input");
+    input.type = "number";
+    input.step = "any";
+    input.addEventListener("change", () => {
+      const value = parseFloat(input.value);
+      const validation = validateBalanceEdit(section, key, value);
+      if (validation.isValid) {
+        setBalanceValue(section, key, value);
+      } else {
+        // Revert invalid input to the current value
+        this.refreshInput(section, key);
+        this.showStatus(validation.errors.join(", "), true);
+      }
+    });
+    return input;
+  }
+
+  private createOptionsInput(
+    section: BalanceSectionName,
+    key: string,
+    options: readonly string[],
+  ): HTMLSelectElement {
+    const select = document.createElement("select");
+    options.forEach((value) => {
+      const option = document.createElement("option");
+      option.value = value;
+      option.textContent = value;
+      select.appendChild(option);
+    });
+    select.addEventListener("change", () => {
+      setBalanceValue(section, key, select.value);
+    });
+    return select;
+  }
+
+  private refreshInput(section: BalanceSectionName, key: string) {
+    const input = this.inputs.get(`${section}.${key}`);
+    if (input) {
+      input.value = String(getBalanceValue(section, key));
+    }
+  }
+
+  private refreshDerived() {
+    this.derivedText.textContent = Object.entries(DERIVED)
+      .map(([key, value]) => `${key}: ${value}`)
+      .join("\n");
+  }
+}
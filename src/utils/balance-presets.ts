@@ -0,0 +1,407 @@
+import { BalanceConfig, BalanceSectionName, POWER_CURVES } from "./balance";
+import {
+  BalanceSnapshot,
+  BalanceValue,
+  DEFAULT_BALANCE,
+  applyBalanceSnapshot,
+  getBalanceSectionNames,
+  isBalanceKey,
+  isBalanceSection,
+  resetBalance,
+  snapshotBalance,
+} from "./balance-store";
+import { ValidationResult } from "./track-types";
+
+/**
+ * Partial override of the balance sections, e.g. `{ PHYSICS: { BOUNCE_SCALE: 1 } }`
+ */
+export type BalanceOverrides = Partial<{
+  [Section in BalanceSectionName]: Partial<Record<string, BalanceValue>>;
+}>;
+
+export interface BalancePreset {
+  name: string;
+  values: BalanceOverrides;
+}
+
+export interface ValueRange {
+  min: number;
+  max: number;
+}
+
+export interface ValueOptions {
+  options: readonly string[];
+}
+
+export type ValueLimit = ValueRange | ValueOptions;
+
+export type BalanceLimits = {
+  [Section in BalanceSectionName]: Record<
+    keyof BalanceConfig[Section],
+    ValueLimit
+  >;
+};
+
+/**
+ * Accepted range (or set of options) for every balance value
+ * Values outside of these limits are rejected
+ */
+export const BALANCE_LIMITS: BalanceLimits = {
+  CAMERA_ZOOM: {
+    MIN: { min: 0.05, max: 5 },
+    MAX: { min: 0.05, max: 5 },
+    DEFAULT: { min: 0.05, max: 5 },
+  },
+  SLINGSHOT: {
+    MAX_LENGTH: { min: 10, max: 5000 },
+    VELOCITY_MULTIPLIER: { min: 0.001, max: 10 },
+    POWER_CURVE: { options: POWER_CURVES },
+  },
+  SLING_BOOST: {
+    TIMING_MAX_MULTIPLIER: { min: 1, max: 5 },
+    TIMING_CURVE_EXPONENT: { min: 0.1, max: 10 },
+    DECELERATION_THRESHOLD: { min: 0, max: 10 },
+    MIN_PEAK_SPEED: { min: 0, max: 100 },
+    ANGLE_PEAK_MULTIPLIER: { min: 1, max: 5 },
+    ANGLE_PEAK_DEGREES: { min: 1, max: 90 },
+    ANGLE_CURVE_EXPONENT: { min: 0.1, max: 10 },
+    ANGLE_MIN_SPEED: { min: 0, max: 100 },
+  },
+  PHYSICS: {
+    MAX_VELOCITY: { min: 1, max: 1000 },
+    AIR_FRICTION: { min: 0, max: 1 },
+    BOUNCE_SCALE: { min: 0, max: 2 },
+    FIXED_STEP: { min: 1, max: 100 },
+    MAX_STEPS_PER_FRAME: { min: 1, max: 20 },
+  },
+  SURFACE_ZONES: {
+    BOOST_SPEED: { min: 0, max: 200 },
+    SLOW_AIR_FRICTION: { min: 0, max: 1 },
+    ICE_AIR_FRICTION: { min: 0, max: 1 },
+  },
+  TELEPORTERS: {
+    COOLDOWN: { min: 0, max: 10000 },
+  },
+  MOUSE: {
+    ZOOM_SPEED: { min: 0.01, max: 5 },
+  },
+  TIMING: {
+    SLING_ZOOM_DURATION: { min: 0, max: 10000 },
+    SPEED_ZOOM_DURATION: { min: 0, max: 10000 },
+    MOUSE_ZOOM_DURATION: { min: 0, max: 10000 },
+    RESPAWN_DURATION: { min: 0, max: 10000 },
+  },
+};
+
+/**
+ * Keys that changed meaning, so presets still using them are rejected rather
+ * than applied with the old values
+ */
+const RENAMED_BALANCE_KEYS: Record<string, string> = {
+  "PHYSICS.BOUNCE":
+    "PHYSICS.BOUNCE_SCALE (a multiplier on wall restitution, 1 by default)",
+};
+
+/** localStorage key holding the saved presets, keyed by name */
+export const PRESET_STORAGE_KEY = "puckpuck2.balancePresets";
+
+/** Preset that restores the values shipped in balance.ts */
+export const DEFAULT_PRESET: BalancePreset = { name: "default", values: {} };
+
+export function isValueOptions(limit: ValueLimit): limit is ValueOptions {
+  return "options" in limit;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merge overrides on top of the default balance values
+ */
+export function mergeBalanceOverrides(
+  overrides: BalanceOverrides,
+): BalanceSnapshot {
+  const merged = {} as BalanceSnapshot;
+
+  getBalanceSectionNames().forEach((section) => {
+    merged[section] = {
+      ...DEFAULT_BALANCE[section],
+      ...(overrides[section] as Record<string, BalanceValue> | undefined),
+    };
+  });
+
+  return merged;
+}
+
+/**
+ * Check that a value is a well-formed override and that the resulting
+ * balance is coherent (every value in range, zoom levels ordered)
+ */
+export function validateBalanceOverrides(values: unknown): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!isPlainObject(values)) {
+    return {
+      isValid: false,
+      errors: ["Balance values must be an object"],
+      warnings,
+    };
+  }
+
+  Object.entries(values).forEach(([section, sectionValues]) => {
+    if (!isBalanceSection(section)) {
+      errors.push(`Unknown balance section: ${section}`);
+      return;
+    }
+
+    if (!isPlainObject(sectionValues)) {
+      errors.push(`${section} must be an object`);
+      return;
+    }
+
+    const limits = BALANCE_LIMITS[section] as Record<string, ValueLimit>;
+
+    Object.entries(sectionValues).forEach(([key, value]) => {
+      const renamed = RENAMED_BALANCE_KEYS[`${section}.${key}`];
+      if (renamed) {
+        errors.push(`${section}.${key} was replaced by ${renamed}`);
+        return;
+      }
+
+      if (!isBalanceKey(section, key)) {
+        errors.push(`Unknown balance value: ${section}.${key}`);
+        return;
+      }
+
+      const limit = limits[key];
+
+      if (isValueOptions(limit)) {
+        if (typeof value !== "string" || !limit.options.includes(value)) {
+          errors.push(
+            `${section}.${key} must be one of ${limit.options.join(", ")}`,
+          );
+        }
+        return;
+      }
+
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        errors.push(`${section}.${key} must be a finite number`);
+        return;
+      }
+
+      if (value < limit.min || value > limit.max) {
+        errors.push(
+          `${section}.${key} must be between ${limit.min} and ${limit.max} (got ${value})`,
+        );
+      }
+    });
+  });
+
+  if (errors.length > 0) {
+    return { isValid: false, errors, warnings };
+  }
+
+  const merged = mergeBalanceOverrides(values as BalanceOverrides);
+  const zoom = merged.CAMERA_ZOOM as Record<string, number>;
+
+  if (zoom.MIN > zoom.MAX) {
+    errors.push("CAMERA_ZOOM.MIN must not be greater than CAMERA_ZOOM.MAX");
+  } else if (zoom.DEFAULT < zoom.MIN || zoom.DEFAULT > zoom.MAX) {
+    errors.push(
+      "CAMERA_ZOOM.DEFAULT must be between CAMERA_ZOOM.MIN and CAMERA_ZOOM.MAX",
+    );
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Check a single value edited on top of the current balance
+ */
+export function validateBalanceEdit(
+  section: BalanceSectionName,
+  key: string,
+  value: BalanceValue,
+): ValidationResult {
+  const current = snapshotBalance();
+
+  return validateBalanceOverrides({
+    ...current,
+    [section]: { ...current[section], [key]: value },
+  });
+}
+
+/**
+ * Validate an unknown value (typically parsed JSON) as a named preset
+ */
+export function validateBalancePreset(data: unknown): ValidationResult {
+  if (!isPlainObject(data)) {
+    return {
+      isValid: false,
+      errors: ["Preset must be an object"],
+      warnings: [],
+    };
+  }
+
+  const errors: string[] = [];
+
+  if (typeof data.name !== "string" || data.name.trim() === "") {
+    errors.push("Preset name must be a non-empty string");
+  } else if (data.name.trim() === DEFAULT_PRESET.name) {
+    // A stored preset with this name would hide the built-in values
+    errors.push(`Preset name "${DEFAULT_PRESET.name}" is reserved`);
+  }
+
+  const valuesResult = validateBalanceOverrides(data.values);
+  errors.push(...valuesResult.errors);
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings: valuesResult.warnings,
+  };
+}
+
+/**
+ * Build a preset holding only the values that differ from the defaults
+ */
+export function createPresetFromCurrent(name: string): BalancePreset {
+  const current = snapshotBalance();
+  const values: BalanceOverrides = {};
+
+  getBalanceSectionNames().forEach((section) => {
+    Object.entries(current[section]).forEach(([key, value]) => {
+      if (DEFAULT_BALANCE[section][key] !== value) {
+        values[section] = { ...values[section], [key]: value };
+      }
+    });
+  });
+
+  return { name, values };
+}
+
+/**
+ * Reset the balance to defaults, then apply the preset overrides
+ */
+export function applyBalancePreset(preset: BalancePreset): void {
+  const validation = validateBalanceOverrides(preset.values);
+  if (!validation.isValid) {
+    throw new Error(
+      `Invalid preset "${preset.name}": ${validation.errors.join(", ")}`,
+    );
+  }
+
+  resetBalance();
+  applyBalanceSnapshot(preset.values as BalanceSnapshot);
+}
+
+export function serializePreset(preset: BalancePreset): string {
+  return JSON.stringify(preset, null, 2);
+}
+
+/**
+ * Parse and validate a preset exported with serializePreset
+ */
+export function parsePreset(json: string): BalancePreset {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(
+      `Preset is not valid JSON: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+
+  const validation = validateBalancePreset(data);
+  if (!validation.isValid) {
+    throw new Error(`Invalid preset: ${validation.errors.join(", ")}`);
+  }
+
+  const preset = data as BalancePreset;
+  return { name: preset.name.trim(), values: preset.values };
+}
+
+/**
+ * Read saved presets, skipping any entry that no longer validates or uses
+ * the reserved default name
+ */
+export function loadStoredPresets(
+  storage: Storage = window.localStorage,
+): BalancePreset[] {
+  const raw = storage.getItem(PRESET_STORAGE_KEY);
+  if (!raw) {
+    return [];
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    console.warn("Ignoring corrupted balance presets in storage");
+    return [];
+  }
+
+  if (!isPlainObject(data)) {
+    return [];
+  }
+
+  const presets: BalancePreset[] = [];
+  Object.entries(data).forEach(([name, values]) => {
+    if (name === DEFAULT_PRESET.name) {
+      console.warn(`Ignoring stored preset with the reserved name "${name}"`);
+      return;
+    }
+
+    const validation = validateBalanceOverrides(values);
+    if (validation.isValid) {
+      presets.push({ name, values: values as BalanceOverrides });
+    } else {
+      console.warn(`Ignoring invalid stored preset "${name}":`, validation);
+    }
+  });
+
+  return presets;
+}
+
+function writeStoredPresets(presets: BalancePreset[], storage: Storage): void {
+  const data: Record<string, BalanceOverrides> = {};
+  presets.forEach((preset) => {
+    data[preset.name] = preset.values;
+  });
+  storage.setItem(PRESET_STORAGE_KEY, JSON.stringify(data));
+}
+
+/**
+ * Save a preset, replacing any stored preset with the same name
+ */
+export function saveStoredPreset(
+  preset: BalancePreset,
+  storage: Storage = window.localStorage,
+): void {
+  const validation = validateBalancePreset(preset);
+  if (!validation.isValid) {
+    throw new Error(`Invalid preset: ${validation.errors.join(", ")}`);
+  }
+
+  const presets = loadStoredPresets(storage).filter(
+    (stored) => stored.name !== preset.name,
+  );
+  presets.push(preset);
+  writeStoredPresets(presets, storage);
+}
+
+export function deleteStoredPreset(
+  name: string,
+  storage: Storage = window.localStorage,
+): void {
+  const presets = loadStoredPresets(storage).filter(
+    (stored) => stored.name !== name,
+  );
+  writeStoredPresets(presets, storage);
+}
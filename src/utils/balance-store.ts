@@ -0,0 +1,146 @@
+import {
+  BALANCE,
+  BalanceConfig,
+  BalanceSectionName,
+  recomputeDerived,
+} from "./balance";
+import { hashString } from "./hash";
+
+export type BalanceValue = number | string;
+
+export type BalanceSnapshot = {
+  [Section in BalanceSectionName]: Record<string, BalanceValue>;
+};
+
+export interface BalanceChange {
+  section: BalanceSectionName;
+  key: string;
+  value: BalanceValue;
+  previousValue: BalanceValue;
+}
+
+export type BalanceListener = (change: BalanceChange) => void;
+
+const listeners = new Set<BalanceListener>();
+
+/**
+ * Deep copy of the current balance values
+ */
+export function snapshotBalance(): BalanceSnapshot {
+  const snapshot = {} as BalanceSnapshot;
+
+  getBalanceSectionNames().forEach((section) => {
+    snapshot[section] = { ...BALANCE[section] };
+  });
+
+  return snapshot;
+}
+
+/**
+ * Short hash identifying a set of balance values
+ */
+export function hashBalanceSnapshot(snapshot: BalanceSnapshot): string {
+  return hashString(JSON.stringify(snapshot));
+}
+
+/**
+ * Values shipped in balance.ts, captured before anything is tuned
+ */
+export const DEFAULT_BALANCE: BalanceSnapshot = snapshotBalance();
+
+export function getBalanceSectionNames(): BalanceSectionName[] {
+  return Object.keys(BALANCE) as BalanceSectionName[];
+}
+
+export function getBalanceKeys(section: BalanceSectionName): string[] {
+  return Object.keys(BALANCE[section]);
+}
+
+export function isBalanceSection(name: string): name is BalanceSectionName {
+  return Object.prototype.hasOwnProperty.call(BALANCE, name);
+}
+
+export function isBalanceKey(
+  section: BalanceSectionName,
+  key: string,
+): boolean {
+  return Object.prototype.hasOwnProperty.call(BALANCE[section], key);
+}
+
+export function getBalanceValue(
+  section: BalanceSectionName,
+  key: string,
+): BalanceValue {
+  if (!isBalanceKey(section, key)) {
+    throw new Error(`Unknown balance value: ${section}.${key}`);
+  }
+
+  return (BALANCE[section] as Record<string, BalanceValue>)[key];
+}
+
+/**
+ * Update a single balance value in place, recompute DERIVED and notify listeners
+ */
+export function setBalanceValue(
+  section: BalanceSectionName,
+  key: string,
+  value: BalanceValue,
+): void {
+  const previousValue = getBalanceValue(section, key);
+
+  // Values keep the type they were declared with in balance.ts
+  const isValid =
+    typeof previousValue === "number"
+      ? typeof value === "number" && Number.isFinite(value)
+      : typeof value === "string";
+  if (!isValid) {
+    throw new Error(`Invalid value for ${section}.${key}: ${value}`);
+  }
+
+  if (previousValue === value) {
+    return;
+  }
+
+  (BALANCE[section] as Record<string, BalanceValue>)[key] = value;
+  recomputeDerived();
+
+  listeners.forEach((listener) =>
+    listener({ section, key, value, previousValue }),
+  );
+}
+
+/**
+ * Apply every value of a (possibly partial) snapshot
+ */
+export function applyBalanceSnapshot(
+  snapshot: Partial<{
+    [Section in keyof BalanceConfig]: Record<string, BalanceValue>;
+  }>,
+): void {
+  getBalanceSectionNames().forEach((section) => {
+    const values = snapshot[section];
+    if (!values) return;
+
+    Object.entries(values).forEach(([key, value]) => {
+      setBalanceValue(section, key, value);
+    });
+  });
+}
+
+/**
+ * Restore every value to the defaults from balance.ts
+ */
+export function resetBalance(): void {
+  applyBalanceSnapshot(DEFAULT_BALANCE);
+}
+
+/**
+ * Subscribe to balance changes
+ * Returns a function that removes the listener
+ */
+export function onBalanceChange(listener: BalanceListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -3,6 +3,10 @@
  *
  * Centralized configuration for all gameplay parameters.
  * Adjust these values to fine-tune game feel and balance.
+ *
+ * The sections below are mutable so the dev mode balance panel can tune them
+ * while playing. Always change them through the balance store
+ * (see balance-store.ts) so DERIVED stays in sync and listeners are notified.
  */
 
 // ===== CAMERA CONFIGURATION =====
@@ -18,10 +22,19 @@ export const CAMERA_ZOOM = {
   MAX: 0.8,
   /** Default starting zoom level - positioned to allow smooth scaling in both directions */
   DEFAULT: 0.55, // Midpoint between MIN and MAX for smooth linear scaling
-} as const;
+};
 
 // ===== SLINGSHOT CONFIGURATION =====
 
+/**
+ * Curves mapping sling length to launch power
+ * - linear: power grows evenly with length
+ * - ease-in: fine control on short slings, power ramps up near max length
+ * - ease-out: power ramps up quickly, long slings add little
+ */
+export const POWER_CURVES = ["linear", "ease-in", "ease-out"] as const;
+export type PowerCurve = (typeof POWER_CURVES)[number];
+
 /**
  * Slingshot mechanics parameters
  * These directly affect game speed and difficulty
@@ -31,7 +44,34 @@ export const SLINGSHOT = {
   MAX_LENGTH: 500,
   /** Velocity multiplier when releasing slingshot - higher = faster gameplay */
   VELOCITY_MULTIPLIER: 0.1,
-} as const;
+  /** Curve mapping sling length (clamped to MAX_LENGTH) to launch power */
+  POWER_CURVE: "linear" as PowerCurve,
+};
+
+// ===== SLING BOOST CONFIGURATION =====
+
+/**
+ * Quake-style boost when re-slinging a moving puck
+ * See sling-physics.ts for how these values are combined
+ */
+export const SLING_BOOST = {
+  /** Timing multiplier when re-slinging exactly at the peak speed of the last sling */
+  TIMING_MAX_MULTIPLIER: 1.5,
+  /** Timing curve exponent - higher = reward concentrated closer to the peak speed */
+  TIMING_CURVE_EXPONENT: 2,
+  /** Speed drop below the peak before the puck counts as decelerating */
+  DECELERATION_THRESHOLD: 0.05,
+  /** Peak speed below which no timing boost is granted */
+  MIN_PEAK_SPEED: 1,
+  /** Angle multiplier when slinging at ANGLE_PEAK_DEGREES from the current direction */
+  ANGLE_PEAK_MULTIPLIER: 1.3,
+  /** Angle between current velocity and sling giving the highest multiplier */
+  ANGLE_PEAK_DEGREES: 45,
+  /** Angle curve exponent - higher = narrower window around the peak angle */
+  ANGLE_CURVE_EXPONENT: 1,
+  /** Current speed below which no angle boost is granted */
+  ANGLE_MIN_SPEED: 1,
+};
 
 // ===== PHYSICS CONFIGURATION =====
 
@@ -43,9 +83,37 @@ export const PHYSICS = {
   MAX_VELOCITY: 50,
   /** Air friction coefficient - higher = faster deceleration */
   AIR_FRICTION: 0.05,
-  /** Bounce coefficient for puck - higher = more bouncy */
-  BOUNCE: 0.8,
-} as const;
+  /** Multiplier on the restitution of the material the puck hits - 1 keeps standard walls from slowing it down */
+  BOUNCE_SCALE: 1,
+  /** Simulation step in milliseconds, independent of the display rate */
+  FIXED_STEP: 1000 / 60,
+  /** Most simulation steps run in one rendered frame before time is dropped */
+  MAX_STEPS_PER_FRAME: 5,
+};
+
+// ===== SURFACE ZONES =====
+
+/**
+ * Defaults for track surface zones without a data-strength attribute
+ */
+export const SURFACE_ZONES = {
+  /** Speed a boost pad adds on contact */
+  BOOST_SPEED: 10,
+  /** Air friction while on a slow zone - higher = harder braking */
+  SLOW_AIR_FRICTION: 0.15,
+  /** Air friction while on ice - lower = longer slides */
+  ICE_AIR_FRICTION: 0.005,
+};
+
+// ===== TELEPORTERS =====
+
+/**
+ * Teleporter behavior
+ */
+export const TELEPORTERS = {
+  /** Time after a teleport during which entrances do nothing (ms) */
+  COOLDOWN: 500,
+};
 
 // ===== MOUSE CONTROLS =====
 
@@ -55,7 +123,7 @@ export const PHYSICS = {
 export const MOUSE = {
   /** Mouse wheel zoom speed increment */
   ZOOM_SPEED: 0.2,
-} as const;
+};
 
 // ===== ANIMATION TIMING =====
 
@@ -71,7 +139,26 @@ export const TIMING = {
   MOUSE_ZOOM_DURATION: 200,
   /** Respawn animation total duration */
   RESPAWN_DURATION: 800,
-} as const;
+};
+
+// ===== BALANCE SECTIONS =====
+
+/**
+ * Every tunable section, keyed by its exported name
+ */
+export const BALANCE = {
+  CAMERA_ZOOM,
+  SLINGSHOT,
+  SLING_BOOST,
+  PHYSICS,
+  SURFACE_ZONES,
+  TELEPORTERS,
+  MOUSE,
+  TIMING,
+};
+
+export type BalanceConfig = typeof BALANCE;
+export type BalanceSectionName = keyof BalanceConfig;
 
 // ===== DERIVED VALUES =====
 
@@ -81,7 +168,17 @@ export const TIMING = {
  */
 export const DERIVED = {
   /** Zoom range for calculations */
-  ZOOM_RANGE: CAMERA_ZOOM.MAX - CAMERA_ZOOM.MIN,
+  ZOOM_RANGE: 0,
   /** Half respawn duration for fade out/in */
-  RESPAWN_FADE_DURATION: TIMING.RESPAWN_DURATION / 2,
-} as const;
+  RESPAWN_FADE_DURATION: 0,
+};
+
+/**
+ * Recompute DERIVED from the current section values
+ */
+export function recomputeDerived(): void {
+  DERIVED.ZOOM_RANGE = CAMERA_ZOOM.MAX - CAMERA_ZOOM.MIN;
+  DERIVED.RESPAWN_FADE_DURATION = TIMING.RESPAWN_DURATION / 2;
+}
+
+recomputeDerived();
@@ -0,0 +1,91 @@
+import { Vector } from "./sling-physics";
+
+/**
+ * Exact bounces off frictionless walls and obstacles
+ *
+ * Matter's impulse solver loses a little speed and adds spin on every hit,
+ * even with full restitution and no friction. Contacts with lossless bodies
+ * are collected before Matter resolves them, then the puck's incoming
+ * velocity is reflected around their normals instead.
+ */
+
+export interface BounceContact {
+  /** Unit normal of the surface, pointing towards the puck */
+  normal: Vector;
+  /** 1 keeps the speed along the normal, more adds to it */
+  restitution: number;
+  /** Velocity of a moving surface at the contact, the bounce is relative to it */
+  surfaceVelocity?: Vector;
+}
+
+/**
+ * Surface normal of a Matter collision, pointing towards the puck
+ * Matter's normal points from bodyB to bodyA.
+ */
+export function getSurfaceNormal(
+  collision: { bodyA: unknown; normal: Vector },
+  puckBody: unknown,
+): Vector {
+  const { normal } = collision;
+  return collision.bodyA === puckBody
+    ? { x: normal.x, y: normal.y }
+    : { x: -normal.x, y: -normal.y };
+}
+
+/**
+ * Velocity of a body at contact points, its own plus what its rotation adds
+ */
+export function getSurfaceVelocity(
+  body: { position: Vector; velocity: Vector; angularVelocity: number },
+  supports: Vector[],
+): Vector {
+  const { position, velocity, angularVelocity } = body;
+  if (supports.length === 0 || angularVelocity === 0) {
+    return { x: velocity.x, y: velocity.y };
+  }
+
+  const contact = {
+    x: supports.reduce((sum, point) => sum + point.x, 0) / supports.length,
+    y: supports.reduce((sum, point) => sum + point.y, 0) / supports.length,
+  };
+  return {
+    x: velocity.x - angularVelocity * (contact.y - position.y),
+    y: velocity.y + angularVelocity * (contact.x - position.x),
+  };
+}
+
+/**
+ * Velocity after bouncing off a surface, reflected around its normal
+ * The speed along the surface is kept untouched, and a puck already moving
+ * away from the surface is left alone. Against a moving surface this holds
+ * relative to the surface.
+ */
+export function getBounceVelocity(
+  velocity: Vector,
+  contact: BounceContact,
+): Vector {
+  const { normal, restitution, surfaceVelocity = { x: 0, y: 0 } } = contact;
+  const along =
+    (velocity.x - surfaceVelocity.x) * normal.x +
+    (velocity.y - surfaceVelocity.y) * normal.y;
+  if (along >= 0) {
+    return velocity;
+  }
+
+  const change = (1 + restitution) * along;
+  return {
+    x: velocity.x - change * normal.x,
+    y: velocity.y - change * normal.y,
+  };
+}
+
+/**
+ * Velocity after bouncing off every surface hit in one step, such as both
+ * walls of a corner
+ */
+export function resolveBounces(
+  velocity: Vector,
+  contacts: BounceContact[],
+): Vector {
+  return contacts.reduce(getBounceVelocity, velocity);
+}
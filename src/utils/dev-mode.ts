@@ -0,0 +1,10 @@
+/** Test track behind "Play Game", loaded automatically in dev mode */
+export const DEV_TRACK_PATH = "assets/tracks/track_straight_test.svg";
+
+/**
+ * Dev mode is enabled by adding `?dev` to the page URL
+ */
+export function isDevMode(search: string = window.location.search): boolean {
+  const value = new URLSearchParams(search).get("dev");
+  return value !== null && value !== "0" && value !== "false";
+}
@@ -0,0 +1,16 @@
+/**
+ * Offer a text file to the user as a browser download
+ */
+export function downloadTextFile(
+  filename: string,
+  text: string,
+  mimeType: string = "application/json",
+): void {
+  const blob = new Blob([text], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,82 @@
+import { PHYSICS } from "./balance";
+import { Position } from "./game-logic";
+
+export interface FixedStepConfig {
+  /** Simulation step in milliseconds */
+  step: number;
+  /** Steps allowed per rendered frame, the remaining backlog is dropped */
+  maxStepsPerFrame: number;
+}
+
+export interface FixedStepClock {
+  /** Number of simulation steps run so far */
+  tick: number;
+  /** Frame time not yet consumed by a step (ms) */
+  accumulator: number;
+}
+
+export interface FixedStepAdvance {
+  clock: FixedStepClock;
+  /** Simulation steps to run this frame */
+  steps: number;
+  /** Progress towards the next step (0-1), used to interpolate rendering */
+  alpha: number;
+}
+
+export function getFixedStepConfig(): FixedStepConfig {
+  return {
+    step: PHYSICS.FIXED_STEP,
+    maxStepsPerFrame: PHYSICS.MAX_STEPS_PER_FRAME,
+  };
+}
+
+export function createFixedStepClock(): FixedStepClock {
+  return {
+    tick: 0,
+    accumulator: 0,
+  };
+}
+
+/**
+ * Add a rendered frame's delta to the clock and work out how many
+ * simulation steps are due
+ * After a long stall only maxStepsPerFrame steps run, so the game slows
+ * down instead of trying to catch up forever
+ */
+export function advanceFixedStep(
+  clock: FixedStepClock,
+  delta: number,
+  config: FixedStepConfig,
+): FixedStepAdvance {
+  const available = clock.accumulator + Math.max(delta, 0);
+  const steps = Math.min(
+    Math.floor(available / config.step),
+    config.maxStepsPerFrame,
+  );
+  const remaining = available - steps * config.step;
+  const accumulator =
+    remaining >= config.step ? remaining % config.step : remaining;
+
+  return {
+    clock: {
+      tick: clock.tick + steps,
+      accumulator,
+    },
+    steps,
+    alpha: accumulator / config.step,
+  };
+}
+
+/**
+ * Position between the last two simulation steps
+ */
+export function interpolatePosition(
+  from: Position,
+  to: Position,
+  alpha: number,
+): Position {
+  return {
+    x: from.x + (to.x - from.x) * alpha,
+    y: from.y + (to.y - from.y) * alpha,
+  };
+}
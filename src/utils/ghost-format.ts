@@ -0,0 +1,222 @@
+import { version as packageVersion } from "../../package.json";
+import { GhostTimeline } from "./ghost-replay";
+import { ImportedTrack, ValidationResult } from "./track-types";
+import { hashBalanceSnapshot, snapshotBalance } from "./balance-store";
+
+/**
+ * Ghost file format
+ *
+ * Ghost files are JSON documents:
+ *
+ *   {
+ *     "format": "puckpuck2-ghost",
+ *     "version": 1,
+ *     "gameVersion": "1.3.0",
+ *     "trackHash": "1a2b3c4d",      // metadata.trackHash of the ImportedTrack
+ *     "balanceHash": "5e6f7a8b",    // hash of the balance values in use
+ *     "time": 12340,                // race time in milliseconds
+ *     "slings": [[frame, vx, vy]],  // sling events, velocity applied
+ *     "keyframes": [[frame, time, x, y]],
+ *     "frameCount": 740
+ *   }
+ *
+ * "version" is bumped on any incompatible change. Files with an unknown
+ * version are rejected rather than guessed at.
+ */
+
+export const GHOST_FILE_FORMAT = "puckpuck2-ghost";
+export const GHOST_FILE_VERSION = 1;
+export const GAME_VERSION: string = packageVersion;
+
+/** Extension used for exported ghost files */
+export const GHOST_FILE_EXTENSION = ".ghost.json";
+
+export interface GhostFile {
+  version: number;
+  gameVersion: string;
+  trackHash: string;
+  balanceHash: string;
+  timeline: GhostTimeline;
+}
+
+interface GhostFileJSON {
+  format: typeof GHOST_FILE_FORMAT;
+  version: number;
+  gameVersion: string;
+  trackHash: string;
+  balanceHash: string;
+  time: number;
+  slings: [number, number, number][];
+  keyframes: [number, number, number, number][];
+  frameCount: number;
+}
+
+/**
+ * Hash of the balance values currently in use
+ */
+export function getCurrentBalanceHash(): string {
+  return hashBalanceSnapshot(snapshotBalance());
+}
+
+export function createGhostFile(
+  timeline: GhostTimeline,
+  trackHash: string,
+  balanceHash: string = getCurrentBalanceHash(),
+): GhostFile {
+  return {
+    version: GHOST_FILE_VERSION,
+    gameVersion: GAME_VERSION,
+    trackHash,
+    balanceHash,
+    timeline,
+  };
+}
+
+export function serializeGhostFile(file: GhostFile): string {
+  const json: GhostFileJSON = {
+    format: GHOST_FILE_FORMAT,
+    version: file.version,
+    gameVersion: file.gameVersion,
+    trackHash: file.trackHash,
+    balanceHash: file.balanceHash,
+    time: file.timeline.time,
+    slings: file.timeline.slings.map((sling) => [
+      sling.frame,
+      sling.x,
+      sling.y,
+    ]),
+    keyframes: file.timeline.keyframes.map((keyframe) => [
+      keyframe.frame,
+      keyframe.time,
+      keyframe.x,
+      keyframe.y,
+    ]),
+    frameCount: file.timeline.frameCount,
+  };
+
+  return JSON.stringify(json);
+}
+
+function isNumberTuple(value: unknown, length: number): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.length === length &&
+    value.every((item) => typeof item === "number" && Number.isFinite(item))
+  );
+}
+
+/**
+ * Parse a ghost file, throwing a descriptive error when it is malformed
+ */
+export function parseGhostFile(text: string): GhostFile {
+  let data: Partial<GhostFileJSON>;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Ghost file is not valid JSON: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+
+  if (typeof data !== "object" || data === null) {
+    throw new Error("Ghost file must be a JSON object");
+  }
+
+  if (data.format !== GHOST_FILE_FORMAT) {
+    throw new Error("Not a PuckPuck2 ghost file");
+  }
+
+  if (data.version !== GHOST_FILE_VERSION) {
+    throw new Error(`Unsupported ghost file version: ${data.version}`);
+  }
+
+  const errors: string[] = [];
+
+  if (typeof data.trackHash !== "string") {
+    errors.push("missing trackHash");
+  }
+  if (typeof data.balanceHash !== "string") {
+    errors.push("missing balanceHash");
+  }
+  if (typeof data.gameVersion !== "string") {
+    errors.push("missing gameVersion");
+  }
+  if (typeof data.time !== "number" || !Number.isFinite(data.time)) {
+    errors.push("invalid time");
+  }
+  if (typeof data.frameCount !== "number") {
+    errors.push("invalid frameCount");
+  }
+  if (
+    !Array.isArray(data.slings) ||
+    !data.slings.every((sling) => isNumberTuple(sling, 3))
+  ) {
+    errors.push("invalid slings");
+  }
+  if (
+    !Array.isArray(data.keyframes) ||
+    data.keyframes.length === 0 ||
+    !data.keyframes.every((keyframe) => isNumberTuple(keyframe, 4))
+  ) {
+    errors.push("invalid keyframes");
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid ghost file: ${errors.join(", ")}`);
+  }
+
+  const json = data as GhostFileJSON;
+
+  return {
+    version: json.version,
+    gameVersion: json.gameVersion,
+    trackHash: json.trackHash,
+    balanceHash: json.balanceHash,
+    timeline: {
+      slings: json.slings.map(([frame, x, y]) => ({ frame, x, y })),
+      keyframes: json.keyframes.map(([frame, time, x, y]) => ({
+        frame,
+        time,
+        x,
+        y,
+      })),
+      frameCount: json.frameCount,
+      time: json.time,
+    },
+  };
+}
+
+/**
+ * Check a ghost against the loaded track
+ * A different track is an error, different balance or game version a warning
+ */
+export function validateGhostForTrack(
+  file: GhostFile,
+  track: ImportedTrack,
+  balanceHash: string = getCurrentBalanceHash(),
+): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (file.trackHash !== track.metadata.trackHash) {
+    errors.push("Ghost was recorded on a different track");
+  }
+
+  if (file.balanceHash !== balanceHash) {
+    warnings.push("Ghost was recorded with different balance settings");
+  }
+
+  if (file.gameVersion !== GAME_VERSION) {
+    warnings.push(`Ghost was recorded with game version ${file.gameVersion}`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
+
+export function getGhostFileName(file: GhostFile): string {
+  return `ghost_${file.trackHash}_${file.timeline.time}${GHOST_FILE_EXTENSION}`;
+}
@@ -0,0 +1,188 @@
+import { Position } from "./game-logic";
+
+/** A keyframe is recorded every N physics steps */
+export const GHOST_KEYFRAME_INTERVAL = 5;
+
+/** localStorage key holding the best ghost per track hash */
+export const GHOST_STORAGE_KEY = "puckpuck2.ghosts";
+
+export interface GhostSlingEvent {
+  /** Physics step since the race start */
+  frame: number;
+  /** Velocity applied by the sling */
+  x: number;
+  y: number;
+}
+
+export interface GhostKeyframe {
+  /** Physics step since the race start */
+  frame: number;
+  /** Race time in milliseconds */
+  time: number;
+  x: number;
+  y: number;
+}
+
+export interface GhostTimeline {
+  slings: GhostSlingEvent[];
+  keyframes: GhostKeyframe[];
+  /** Number of frames recorded */
+  frameCount: number;
+  /** Total race time in milliseconds */
+  time: number;
+}
+
+/**
+ * Records a run as sling events plus periodic position keyframes
+ * Frames are fixed physics steps, so re-applying the slings on the same
+ * frames reproduces the run
+ */
+export class GhostRecorder {
+  private frame = 0;
+  private slings: GhostSlingEvent[] = [];
+  private keyframes: GhostKeyframe[] = [];
+
+  constructor(private keyframeInterval: number = GHOST_KEYFRAME_INTERVAL) {}
+
+  get frameIndex(): number {
+    return this.frame;
+  }
+
+  /**
+   * Record the puck position for the current frame, then advance
+   * Only every keyframeInterval-th frame is kept
+   */
+  recordFrame(time: number, position: Position) {
+    if (this.frame % this.keyframeInterval === 0) {
+      this.pushKeyframe(time, position);
+    }
+    this.frame++;
+  }
+
+  recordSling(velocity: Position) {
+    this.slings.push({ frame: this.frame, x: velocity.x, y: velocity.y });
+  }
+
+  /**
+   * Close the recording with a final keyframe at the finish
+   */
+  finish(time: number, position: Position): GhostTimeline {
+    this.pushKeyframe(time, position);
+
+    return {
+      slings: [...this.slings],
+      keyframes: [...this.keyframes],
+      frameCount: this.frame,
+      time,
+    };
+  }
+
+  private pushKeyframe(time: number, position: Position) {
+    const last = this.keyframes[this.keyframes.length - 1];
+    if (last && last.time === time) {
+      this.keyframes[this.keyframes.length - 1] = {
+        frame: this.frame,
+        time,
+        x: position.x,
+        y: position.y,
+      };
+      return;
+    }
+
+    this.keyframes.push({
+      frame: this.frame,
+      time,
+      x: position.x,
+      y: position.y,
+    });
+  }
+}
+
+/**
+ * Interpolated ghost position at a given race time
+ * Clamped to the first and last keyframes, null for an empty timeline
+ */
+export function getGhostPosition(
+  timeline: GhostTimeline,
+  time: number,
+): Position | null {
+  const keyframes = timeline.keyframes;
+  if (keyframes.length === 0) {
+    return null;
+  }
+
+  const first = keyframes[0];
+  const last = keyframes[keyframes.length - 1];
+  if (time <= first.time) {
+    return { x: first.x, y: first.y };
+  }
+  if (time >= last.time) {
+    return { x: last.x, y: last.y };
+  }
+
+  // Binary search for the last keyframe at or before the given time
+  let low = 0;
+  let high = keyframes.length - 1;
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (keyframes[middle].time <= time) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  const from = keyframes[low];
+  const to = keyframes[high];
+  const ratio = (time - from.time) / (to.time - from.time);
+
+  return {
+    x: from.x + (to.x - from.x) * ratio,
+    y: from.y + (to.y - from.y) * ratio,
+  };
+}
+
+function isGhostTimeline(value: unknown): value is GhostTimeline {
+  const timeline = value as GhostTimeline;
+  return (
+    typeof timeline === "object" &&
+    timeline !== null &&
+    Array.isArray(timeline.slings) &&
+    Array.isArray(timeline.keyframes) &&
+    typeof timeline.frameCount === "number" &&
+    typeof timeline.time === "number"
+  );
+}
+
+function readGhosts(storage: Storage): Record<string, unknown> {
+  const raw = storage.getItem(GHOST_STORAGE_KEY);
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const data = JSON.parse(raw);
+    return typeof data === "object" && data !== null ? data : {};
+  } catch {
+    console.warn("Ignoring corrupted ghosts in storage");
+    return {};
+  }
+}
+
+export function loadBestGhost(
+  trackHash: string,
+  storage: Storage = window.localStorage,
+): GhostTimeline | null {
+  const ghost = readGhosts(storage)[trackHash];
+  return isGhostTimeline(ghost) ? ghost : null;
+}
+
+export function saveBestGhost(
+  trackHash: string,
+  timeline: GhostTimeline,
+  storage: Storage = window.localStorage,
+): void {
+  const ghosts = readGhosts(storage);
+  ghosts[trackHash] = timeline;
+  storage.setItem(GHOST_STORAGE_KEY, JSON.stringify(ghosts));
+}
@@ -0,0 +1,14 @@
+/**
+ * 32-bit FNV-1a hash of a string, as 8 hex characters
+ * Used to identify tracks and balance settings, not for security
+ */
+export function hashString(text: string): string {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
@@ -1,37 +1,127 @@
 // Using Phaser's exposed Matter.js Body type
 type Body = MatterJS.BodyType;
+// Matter's body options, with the plugin data our bodies carry
+type BodyConfig = MatterJS.IBodyDefinition & Partial<Pick<Body, "plugin">>;
 
-// @ts-ignore - Access Phaser globally since it's loaded by the game engine
-const Bodies = (globalThis as any).Phaser.Physics.Matter.Matter.Bodies;
+// The Matter.js modules Phaser bundles, exposed on its global namespace
+// (missing from the phaser typings, which only type their instances)
+interface MatterModules {
+  Bodies: MatterJS.BodiesFactory;
+  Body: MatterJS.BodyFactory;
+}
+
+const { Matter } = (
+  globalThis as typeof globalThis & {
+    Phaser: { Physics: { Matter: { Matter: MatterModules } } };
+  }
+).Phaser.Physics.Matter;
+const Bodies = Matter.Bodies;
+const MatterBody = Matter.Body;
 import {
   Wall,
   Obstacle,
+  Checkpoint,
+  SurfaceZone,
+  Teleporter,
   GameRect,
+  GameEllipse,
+  GamePoint,
+  GamePolygon,
+  GameCompound,
+  GameShape,
   TrackBounds,
+  SurfaceProperties,
+  Material,
   isGameCircle,
+  isGameEllipse,
+  isGamePolygon,
+  isGameCompound,
 } from "./track-types";
+import { getEllipseVertices, getPolygonTriangles } from "./track-transformer";
+
+/**
+ * Restitution and friction of each material
+ * The puck itself is neutral (see Game.applyPuckPhysics), so these are the
+ * values a collision uses, restitution scaled by PHYSICS.BOUNCE_SCALE.
+ */
+export const MATERIAL_PROPERTIES: Record<
+  Material,
+  { restitution: number; friction: number; frictionStatic: number }
+> = {
+  standard: { restitution: 1, friction: 0, frictionStatic: 0 },
+  bumper: { restitution: 1.5, friction: 0, frictionStatic: 0 },
+  dead: { restitution: 0.2, friction: 0.1, frictionStatic: 0.5 },
+  sticky: { restitution: 0, friction: 1, frictionStatic: 1 },
+};
+
+/**
+ * Body config of a material, which is kept in plugin.material
+ */
+export function getMaterialBodyConfig(material: Material): BodyConfig {
+  return {
+    ...MATERIAL_PROPERTIES[material],
+    plugin: { material },
+  };
+}
+
+/**
+ * Material of a body created from the track, null for other bodies
+ */
+export function getBodyMaterial(body: Body): Material | null {
+  return body.plugin?.material ?? null;
+}
+
+/**
+ * Whether the puck bounces off a body without losing speed, true for
+ * track bodies without friction
+ */
+export function isLosslessBody(body: Body): boolean {
+  return getBodyMaterial(body) !== null && body.friction === 0;
+}
 
-export function getWallBodyConfig(): Phaser.Types.Physics.Matter.MatterBodyConfig {
+export function getWallBodyConfig(material: Material = "standard"): BodyConfig {
   return {
     isStatic: true,
-    restitution: 0.8,
-    friction: 0.1,
-    frictionStatic: 0.5,
+    ...getMaterialBodyConfig(material),
     label: "wall",
   };
 }
 
-export function getObstacleBodyConfig(): Phaser.Types.Physics.Matter.MatterBodyConfig {
+export function getObstacleBodyConfig(
+  material: Material = "standard",
+): BodyConfig {
   return {
     isStatic: true,
-    restitution: 0.9,
-    friction: 0.1,
-    frictionStatic: 0.5,
+    ...getMaterialBodyConfig(material),
     label: "obstacle",
   };
 }
 
-export function getBoundaryBodyConfig(): Phaser.Types.Physics.Matter.MatterBodyConfig {
+export function getCheckpointBodyConfig(): BodyConfig {
+  return {
+    isStatic: true,
+    isSensor: true,
+    label: "checkpoint",
+  };
+}
+
+export function getSurfaceZoneBodyConfig(): BodyConfig {
+  return {
+    isStatic: true,
+    isSensor: true,
+    label: "zone",
+  };
+}
+
+export function getTeleporterBodyConfig(): BodyConfig {
+  return {
+    isStatic: true,
+    isSensor: true,
+    label: "teleporter",
+  };
+}
+
+export function getBoundaryBodyConfig(): BodyConfig {
   return {
     isStatic: true,
     restitution: 0,
@@ -44,7 +134,7 @@ export function getBoundaryBodyConfig(): Phaser.Types.Physics.Matter.MatterBodyC
 
 export function createRectangleBody(
   rect: GameRect,
-  options?: Phaser.Types.Physics.Matter.MatterBodyConfig,
+  options?: BodyConfig,
 ): Body {
   const centerX = rect.x + rect.width / 2;
   const centerY = rect.y + rect.height / 2;
@@ -56,16 +146,171 @@ export function createCircleBody(
   x: number,
   y: number,
   radius: number,
-  options?: Phaser.Types.Physics.Matter.MatterBodyConfig,
+  options?: BodyConfig,
 ): Body {
   return Bodies.circle(x, y, radius, options);
 }
 
-export function createWallBodies(walls: Wall[]): Body[] {
-  const config = getWallBodyConfig();
+/**
+ * Area weighted centroid, where Matter centres a body built from vertices
+ */
+export function calculatePolygonCentroid(vertices: GamePoint[]): GamePoint {
+  let area = 0;
+  let x = 0;
+  let y = 0;
+
+  vertices.forEach((current, index) => {
+    const next = vertices[(index + 1) % vertices.length];
+    const cross = current.x * next.y - next.x * current.y;
+    area += cross;
+    x += (current.x + next.x) * cross;
+    y += (current.y + next.y) * cross;
+  });
+
+  if (area === 0) {
+    // Degenerate outline, fall back to the vertex average
+    return {
+      x: vertices.reduce((sum, vertex) => sum + vertex.x, 0) / vertices.length,
+      y: vertices.reduce((sum, vertex) => sum + vertex.y, 0) / vertices.length,
+    };
+  }
+
+  return {
+    x: x / (3 * area),
+    y: y / (3 * area),
+  };
+}
+
+/**
+ * Body for a polygon at its original position
+ * Concave outlines are decomposed into convex parts by Matter, which can't
+ * leave holes: polygons with holes are made of their triangles instead.
+ */
+export function createPolygonBody(
+  polygon: GamePolygon,
+  options?: BodyConfig,
+): Body {
+  if (polygon.holes?.length) {
+    return createCompoundBody(
+      {
+        parts: getPolygonTriangles(polygon).map((vertices) => ({ vertices })),
+      },
+      options,
+    );
+  }
+
+  const centroid = calculatePolygonCentroid(polygon.vertices);
+
+  return Bodies.fromVertices(
+    centroid.x,
+    centroid.y,
+    [polygon.vertices],
+    options,
+  );
+}
+
+/**
+ * Ellipse body, approximated by a polygon unless it is a circle
+ */
+export function createEllipseBody(
+  ellipse: GameEllipse,
+  options?: BodyConfig,
+): Body {
+  if (ellipse.radiusX === ellipse.radiusY) {
+    return createCircleBody(ellipse.x, ellipse.y, ellipse.radiusX, options);
+  }
 
+  return createPolygonBody({ vertices: getEllipseVertices(ellipse) }, options);
+}
+
+/**
+ * Single body made of every polygon of a compound shape
+ */
+export function createCompoundBody(
+  compound: GameCompound,
+  options?: BodyConfig,
+): Body {
+  if (compound.parts.length === 1) {
+    return createPolygonBody(compound.parts[0], options);
+  }
+
+  // Decomposed polygons are compound bodies themselves, only their convex
+  // parts can be reused (the first part is the parent)
+  const parts = compound.parts.flatMap((polygon) => {
+    const body = createPolygonBody(polygon, options);
+    return body.parts.length > 1 ? body.parts.slice(1) : [body];
+  });
+
+  return MatterBody.create({ ...options, parts });
+}
+
+export function createShapeBody(shape: GameShape, options?: BodyConfig): Body {
+  if (isGameCircle(shape)) {
+    return createCircleBody(shape.x, shape.y, shape.radius, options);
+  }
+  if (isGameEllipse(shape)) {
+    return createEllipseBody(shape, options);
+  }
+  if (isGamePolygon(shape)) {
+    return createPolygonBody(shape, options);
+  }
+  if (isGameCompound(shape)) {
+    return createCompoundBody(shape, options);
+  }
+
+  return createRectangleBody(shape, options);
+}
+
+/**
+ * Config with the element's own restitution and friction, when set
+ */
+export function applySurfaceProperties(
+  config: BodyConfig,
+  surface: SurfaceProperties,
+): BodyConfig {
+  return {
+    ...config,
+    ...(surface.restitution !== undefined && {
+      restitution: surface.restitution,
+    }),
+    ...(surface.friction !== undefined && { friction: surface.friction }),
+  };
+}
+
+/**
+ * Body with the config's restitution and friction
+ * Matter gives static bodies no bounce and full friction when creating them,
+ * which would override the material. The unscaled restitution is kept in
+ * plugin.baseRestitution for applyBounceScale.
+ */
+function createSurfaceBody(shape: GameShape, config: BodyConfig): Body {
+  const body = createShapeBody(shape, config);
+  body.restitution = config.restitution ?? body.restitution;
+  body.friction = config.friction ?? body.friction;
+  body.plugin = { ...body.plugin, baseRestitution: body.restitution };
+  return body;
+}
+
+/**
+ * Scale the restitution of walls and obstacles from their material's
+ * Matter recomputes a contact's restitution from its bodies on every step,
+ * so the scale has to live on the bodies to hold during resting contact.
+ */
+export function applyBounceScale(bodies: Body[], scale: number): void {
+  bodies.forEach((body) => {
+    const baseRestitution = body.plugin?.baseRestitution;
+    if (typeof baseRestitution === "number") {
+      body.restitution = baseRestitution * scale;
+    }
+  });
+}
+
+export function createWallBodies(walls: Wall[]): Body[] {
   return walls.map((wall) => {
-    const body = createRectangleBody(wall.shape, config);
+    const body = createSurfaceBody(
+      wall.shape,
+      applySurfaceProperties(getWallBodyConfig(wall.material), wall),
+    );
 
     if (wall.id) {
       body.label = `wall-${wall.id}`;
@@ -76,21 +321,14 @@ export function createWallBodies(walls: Wall[]): Body[] {
 }
 
 export function createObstacleBodies(obstacles: Obstacle[]): Body[] {
-  const config = getObstacleBodyConfig();
-
   return obstacles.map((obstacle) => {
-    let body: Body;
-
-    if (isGameCircle(obstacle.shape)) {
-      body = createCircleBody(
-        obstacle.shape.x,
-        obstacle.shape.y,
-        obstacle.shape.radius,
-        config,
-      );
-    } else {
-      body = createRectangleBody(obstacle.shape, config);
-    }
+    const body = createSurfaceBody(
+      obstacle.shape,
+      applySurfaceProperties(
+        getObstacleBodyConfig(obstacle.material),
+        obstacle,
+      ),
+    );
 
     if (obstacle.id) {
       body.label = `obstacle-${obstacle.id}`;
@@ -100,6 +338,46 @@ export function createObstacleBodies(obstacles: Obstacle[]): Body[] {
   });
 }
 
+/**
+ * Sensor bodies labelled with their position in the race, checkpoint-0
+ * being the first one to hit
+ */
+export function createCheckpointBodies(checkpoints: Checkpoint[]): Body[] {
+  const config = getCheckpointBodyConfig();
+
+  return checkpoints.map((checkpoint, index) => {
+    const body = createShapeBody(checkpoint.shape, config);
+    body.label = `checkpoint-${index}`;
+    return body;
+  });
+}
+
+/**
+ * Sensor bodies labelled zone-<index> after their surface zone
+ */
+export function createSurfaceZoneBodies(zones: SurfaceZone[]): Body[] {
+  const config = getSurfaceZoneBodyConfig();
+
+  return zones.map((zone, index) => {
+    const body = createShapeBody(zone.shape, config);
+    body.label = `zone-${index}`;
+    return body;
+  });
+}
+
+/**
+ * Sensor bodies of the teleporter entrances, labelled teleporter-<index>
+ */
+export function createTeleporterBodies(teleporters: Teleporter[]): Body[] {
+  const config = getTeleporterBodyConfig();
+
+  return teleporters.map((teleporter, index) => {
+    const body = createShapeBody(teleporter.shape, config);
+    body.label = `teleporter-${index}`;
+    return body;
+  });
+}
+
 export function createBoundaryBodies(boundaries: GameRect[]): Body[] {
   const config = getBoundaryBodyConfig();
 
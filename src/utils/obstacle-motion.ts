@@ -0,0 +1,115 @@
+import { GamePoint, MotionTiming, MotionTrack } from "./track-types";
+
+/**
+ * Where a moving obstacle is at a point of the race
+ * Poses only depend on the race time, so a run and its replay or ghost
+ * always meet the obstacles in the same places.
+ */
+export interface ObstaclePose {
+  x: number;
+  y: number;
+  /** Rotation from rest in radians, clockwise on screen */
+  angle: number;
+}
+
+/**
+ * Keyframe segment an animation is in and how far along it, null while
+ * the animation leaves the obstacle at rest (not started, or over without
+ * fill="freeze")
+ */
+export function getKeyframeProgress(
+  timing: MotionTiming,
+  time: number,
+): { index: number; fraction: number } | null {
+  const elapsed = time - timing.begin;
+  if (elapsed < 0) {
+    return null;
+  }
+
+  let progress: number;
+  if (elapsed >= timing.duration * timing.repeatCount) {
+    if (!timing.freeze) {
+      return null;
+    }
+    // Frozen where the last cycle stopped, which may be partway through
+    progress = timing.repeatCount % 1 || 1;
+  } else {
+    progress = (elapsed % timing.duration) / timing.duration;
+  }
+
+  const { keyTimes } = timing;
+  if (keyTimes.length < 2) {
+    return { index: 0, fraction: 0 };
+  }
+
+  let index = 0;
+  while (index < keyTimes.length - 2 && progress >= keyTimes[index + 1]) {
+    index++;
+  }
+
+  const span = keyTimes[index + 1] - keyTimes[index];
+  let fraction =
+    span > 0
+      ? Math.min(Math.max((progress - keyTimes[index]) / span, 0), 1)
+      : 1;
+  if (timing.eased) {
+    fraction = (1 - Math.cos(Math.PI * fraction)) / 2;
+  }
+
+  return { index, fraction };
+}
+
+function lerp(from: number, to: number, fraction: number): number {
+  return from + (to - from) * fraction;
+}
+
+/**
+ * Move a pose by one animation track at a race time
+ */
+export function applyMotionTrack(
+  pose: ObstaclePose,
+  track: MotionTrack,
+  time: number,
+): ObstaclePose {
+  const progress = getKeyframeProgress(track, time);
+  if (!progress) {
+    return pose;
+  }
+  const { index, fraction } = progress;
+
+  if (track.type === "translate") {
+    const from = track.offsets[index];
+    const to = track.offsets[index + 1] ?? from;
+    return {
+      x: pose.x + lerp(from.x, to.x, fraction),
+      y: pose.y + lerp(from.y, to.y, fraction),
+      angle: pose.angle,
+    };
+  }
+
+  const from = track.angles[index];
+  const angle = lerp(from, track.angles[index + 1] ?? from, fraction);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = pose.x - track.pivot.x;
+  const dy = pose.y - track.pivot.y;
+  return {
+    x: track.pivot.x + cos * dx - sin * dy,
+    y: track.pivot.y + sin * dx + cos * dy,
+    angle: pose.angle + angle,
+  };
+}
+
+/**
+ * Pose of an obstacle at a race time, its innermost animation applied first
+ */
+export function getObstaclePose(
+  motion: MotionTrack[],
+  home: GamePoint,
+  time: number,
+): ObstaclePose {
+  return motion.reduceRight(
+    (pose, track) => applyMotionTrack(pose, track, time),
+    { x: home.x, y: home.y, angle: 0 },
+  );
+}
@@ -0,0 +1,125 @@
+/** localStorage key holding the best time (ms) per track hash */
+export const PERSONAL_BEST_STORAGE_KEY = "puckpuck2.personalBests";
+
+/** localStorage key holding the best lap time (ms) per track hash */
+export const BEST_LAP_STORAGE_KEY = "puckpuck2.bestLaps";
+
+/** localStorage key holding the checkpoint splits of the best run per track hash */
+export const BEST_SPLITS_STORAGE_KEY = "puckpuck2.bestSplits";
+
+export interface PersonalBestUpdate {
+  /** Best time before this run, null if the track was never finished */
+  previousBest: number | null;
+  isNewBest: boolean;
+}
+
+function readRecords<T>(storage: Storage, key: string): Record<string, T> {
+  const raw = storage.getItem(key);
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const data = JSON.parse(raw);
+    return typeof data === "object" && data !== null ? data : {};
+  } catch {
+    console.warn("Ignoring corrupted personal bests in storage");
+    return {};
+  }
+}
+
+function getRecordedTime(
+  storage: Storage,
+  key: string,
+  trackHash: string,
+): number | null {
+  const best = readRecords<unknown>(storage, key)[trackHash];
+  return typeof best === "number" && Number.isFinite(best) ? best : null;
+}
+
+function recordTime(
+  storage: Storage,
+  key: string,
+  trackHash: string,
+  time: number,
+): PersonalBestUpdate {
+  const previousBest = getRecordedTime(storage, key, trackHash);
+  const isNewBest = previousBest === null || time < previousBest;
+
+  if (isNewBest) {
+    const bests = readRecords<number>(storage, key);
+    bests[trackHash] = time;
+    storage.setItem(key, JSON.stringify(bests));
+  }
+
+  return { previousBest, isNewBest };
+}
+
+export function getPersonalBest(
+  trackHash: string,
+  storage: Storage = window.localStorage,
+): number | null {
+  return getRecordedTime(storage, PERSONAL_BEST_STORAGE_KEY, trackHash);
+}
+
+/**
+ * Store the time if it beats the current personal best for the track
+ */
+export function recordPersonalBest(
+  trackHash: string,
+  time: number,
+  storage: Storage = window.localStorage,
+): PersonalBestUpdate {
+  return recordTime(storage, PERSONAL_BEST_STORAGE_KEY, trackHash, time);
+}
+
+export function getPersonalBestLap(
+  trackHash: string,
+  storage: Storage = window.localStorage,
+): number | null {
+  return getRecordedTime(storage, BEST_LAP_STORAGE_KEY, trackHash);
+}
+
+/**
+ * Store the lap time if it beats the best lap recorded for the track
+ */
+export function recordPersonalBestLap(
+  trackHash: string,
+  lapTime: number,
+  storage: Storage = window.localStorage,
+): PersonalBestUpdate {
+  return recordTime(storage, BEST_LAP_STORAGE_KEY, trackHash, lapTime);
+}
+
+/**
+ * Checkpoint splits of the best run on the track, null when unknown
+ */
+export function getBestSplits(
+  trackHash: string,
+  storage: Storage = window.localStorage,
+): number[] | null {
+  const splits = readRecords<unknown>(storage, BEST_SPLITS_STORAGE_KEY)[
+    trackHash
+  ];
+  if (
+    !Array.isArray(splits) ||
+    !splits.every((split) => typeof split === "number")
+  ) {
+    return null;
+  }
+
+  return splits;
+}
+
+/**
+ * Store the splits of a new personal best run
+ */
+export function saveBestSplits(
+  trackHash: string,
+  splits: number[],
+  storage: Storage = window.localStorage,
+): void {
+  const records = readRecords<number[]>(storage, BEST_SPLITS_STORAGE_KEY);
+  records[trackHash] = splits;
+  storage.setItem(BEST_SPLITS_STORAGE_KEY, JSON.stringify(records));
+}
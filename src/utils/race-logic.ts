@@ -0,0 +1,320 @@
+import { ImportedTrack, RaceLine } from "./track-types";
+import { Position } from "./game-logic";
+
+export type RacePhase = "ready" | "running" | "finished";
+
+export interface RaceState {
+  phase: RacePhase;
+  /** Scene time (ms) when the first sling was released */
+  startTime: number | null;
+  /** Scene time (ms) when the finish line was crossed */
+  finishTime: number | null;
+}
+
+export function createRaceState(): RaceState {
+  return {
+    phase: "ready",
+    startTime: null,
+    finishTime: null,
+  };
+}
+
+/**
+ * Start the clock, only allowed from the ready phase
+ */
+export function startRace(state: RaceState, now: number): RaceState {
+  if (state.phase !== "ready") {
+    return state;
+  }
+
+  return {
+    phase: "running",
+    startTime: now,
+    finishTime: null,
+  };
+}
+
+/**
+ * Stop the clock, only allowed while running
+ */
+export function finishRace(state: RaceState, now: number): RaceState {
+  if (state.phase !== "running") {
+    return state;
+  }
+
+  return {
+    ...state,
+    phase: "finished",
+    finishTime: now,
+  };
+}
+
+/**
+ * Elapsed race time in milliseconds
+ * 0 before the start, frozen once finished
+ */
+export function getElapsedTime(state: RaceState, now: number): number {
+  if (state.startTime === null) {
+    return 0;
+  }
+
+  const endTime = state.finishTime ?? now;
+  return Math.max(endTime - state.startTime, 0);
+}
+
+/**
+ * Format a race time as m:ss.cc (minutes only shown when needed)
+ */
+export function formatRaceTime(milliseconds: number): string {
+  const totalHundredths = Math.floor(Math.max(milliseconds, 0) / 10);
+  const hundredths = totalHundredths % 100;
+  const totalSeconds = Math.floor(totalHundredths / 100);
+  const seconds = totalSeconds % 60;
+  const minutes = Math.floor(totalSeconds / 60);
+
+  const fraction = hundredths.toString().padStart(2, "0");
+
+  if (minutes === 0) {
+    return `${seconds}.${fraction}`;
+  }
+
+  return `${minutes}:${seconds.toString().padStart(2, "0")}.${fraction}`;
+}
+
+export type LineCrossing = "forward" | "backward";
+
+/**
+ * How a circle moving from one position to the next crossed the line, null
+ * when it did not
+ * The circle crosses forward as soon as its leading edge does, anywhere
+ * along the segment or within a radius of its ends, and backward when that
+ * same edge goes back over the line.
+ */
+export function getLineCrossing(
+  from: Position,
+  to: Position,
+  radius: number,
+  line: RaceLine,
+): LineCrossing | null {
+  const side = (position: Position) =>
+    (position.x - line.start.x) * line.direction.x +
+    (position.y - line.start.y) * line.direction.y +
+    radius;
+
+  const fromSide = side(from);
+  const toSide = side(to);
+  const crossing: LineCrossing | null =
+    fromSide <= 0 && toSide > 0
+      ? "forward"
+      : fromSide > 0 && toSide <= 0
+        ? "backward"
+        : null;
+  if (!crossing) {
+    return null;
+  }
+
+  // Where along the segment the leading edge crossed
+  const t = fromSide / (fromSide - toSide);
+  const point = {
+    x: from.x + (to.x - from.x) * t,
+    y: from.y + (to.y - from.y) * t,
+  };
+  const length = Math.hypot(
+    line.end.x - line.start.x,
+    line.end.y - line.start.y,
+  );
+  const along =
+    ((point.x - line.start.x) * (line.end.x - line.start.x) +
+      (point.y - line.start.y) * (line.end.y - line.start.y)) /
+    length;
+
+  return along >= -radius && along <= length + radius ? crossing : null;
+}
+
+/**
+ * Line ending each lap: the finish line, or the start line of a circuit
+ * without a separate finish
+ */
+export function getLapLine(
+  track: Pick<ImportedTrack, "markers" | "laps">,
+): RaceLine | null {
+  const { startSegment, finishSegment } = track.markers;
+  return finishSegment ?? (track.laps > 1 ? startSegment : null);
+}
+
+/**
+ * Laps completed during a run
+ */
+export interface LapProgress {
+  /** Duration (ms) of each completed lap */
+  lapTimes: number[];
+  /** Race time (ms) when the current lap started */
+  lapStart: number;
+  /** Backward crossings of the lap line not yet undone by forward ones */
+  backwardCrossings: number;
+}
+
+export function createLapProgress(): LapProgress {
+  return { lapTimes: [], lapStart: 0, backwardCrossings: 0 };
+}
+
+/**
+ * Update lap progress with a crossing of the lap line
+ * A backward crossing must be undone by a forward one before the line
+ * counts again, and a lap only completes when `canComplete` holds (every
+ * checkpoint of the lap passed).
+ */
+export function crossLapLine(
+  progress: LapProgress,
+  crossing: LineCrossing,
+  time: number,
+  canComplete: boolean,
+): LapProgress {
+  if (crossing === "backward") {
+    return { ...progress, backwardCrossings: progress.backwardCrossings + 1 };
+  }
+
+  if (progress.backwardCrossings > 0) {
+    return { ...progress, backwardCrossings: progress.backwardCrossings - 1 };
+  }
+
+  if (!canComplete) {
+    return progress;
+  }
+
+  return {
+    lapTimes: [...progress.lapTimes, time - progress.lapStart],
+    lapStart: time,
+    backwardCrossings: 0,
+  };
+}
+
+/**
+ * Fastest lap time, null before the first lap is completed
+ */
+export function getBestLap(lapTimes: number[]): number | null {
+  return lapTimes.length > 0 ? Math.min(...lapTimes) : null;
+}
+
+/**
+ * Checkpoints hit so far during a run
+ */
+export interface CheckpointProgress {
+  /** Index of the next checkpoint to hit */
+  next: number;
+  /** Race time (ms) at each checkpoint hit, in order */
+  splits: number[];
+}
+
+export function createCheckpointProgress(): CheckpointProgress {
+  return { next: 0, splits: [] };
+}
+
+/**
+ * Record a checkpoint hit, only the next checkpoint in order counts
+ */
+export function passCheckpoint(
+  progress: CheckpointProgress,
+  index: number,
+  time: number,
+): CheckpointProgress {
+  if (index !== progress.next) {
+    return progress;
+  }
+
+  return {
+    next: progress.next + 1,
+    splits: [...progress.splits, time],
+  };
+}
+
+export function hasPassedAllCheckpoints(
+  progress: CheckpointProgress,
+  checkpointCount: number,
+): boolean {
+  return progress.next >= checkpointCount;
+}
+
+/**
+ * Difference of a split to the same split of the best run, negative when
+ * faster, null without a best split to compare to
+ */
+export function getSplitDelta(
+  splits: number[],
+  bestSplits: number[] | null,
+  index: number,
+): number | null {
+  const best = bestSplits?.[index];
+  if (best === undefined || splits[index] === undefined) {
+    return null;
+  }
+
+  return splits[index] - best;
+}
+
+/**
+ * Format a time difference in seconds with a sign, e.g. "-0.42" or "+1.05"
+ */
+export function formatTimeDelta(milliseconds: number): string {
+  const sign = milliseconds < 0 ? "-" : "+";
+  return `${sign}${formatRaceTime(Math.abs(milliseconds))}`;
+}
+
+/**
+ * Counters collected during a run
+ */
+export interface RunStats {
+  slingCount: number;
+  /** Collisions with walls and obstacles */
+  wallHits: number;
+  respawns: number;
+}
+
+export function createRunStats(): RunStats {
+  return {
+    slingCount: 0,
+    wallHits: 0,
+    respawns: 0,
+  };
+}
+
+/**
+ * Everything the results screen needs about a finished run
+ */
+export interface RunResult extends RunStats {
+  trackHash: string;
+  /** Race time in milliseconds */
+  time: number;
+  /** Best time before this run, null on the first finish */
+  previousBest: number | null;
+  isNewBest: boolean;
+  /** Duration (ms) of each lap, a single lap for point to point tracks */
+  lapTimes: number[];
+  /** Best lap before this run, null on the first finish */
+  previousBestLap: number | null;
+  isNewBestLap: boolean;
+}
+
+/**
+ * Difference to the previous personal best, negative when faster
+ */
+export function getBestDelta(result: RunResult): number | null {
+  if (result.previousBest === null) {
+    return null;
+  }
+
+  return result.time - result.previousBest;
+}
+
+/**
+ * Difference of the run's best lap to the previous best lap, negative when
+ * faster
+ */
+export function getBestLapDelta(result: RunResult): number | null {
+  const bestLap = getBestLap(result.lapTimes);
+  if (bestLap === null || result.previousBestLap === null) {
+    return null;
+  }
+
+  return bestLap - result.previousBestLap;
+}
@@ -0,0 +1,249 @@
+import { PowerCurve, SLING_BOOST, SLINGSHOT } from "./balance";
+
+/**
+ * Speed history since the last sling
+ */
+export interface SlingState {
+  /** Highest speed reached since the last sling */
+  peakSpeed: number;
+  /** Most recent speed sample */
+  currentSpeed: number;
+  /** Whether the puck has started slowing down after its peak */
+  isDecelerating: boolean;
+}
+
+export interface TimingBoostConfig {
+  maxMultiplier: number;
+  curveExponent: number;
+  decelerationThreshold: number;
+  minPeakSpeed: number;
+}
+
+export interface AngleBoostConfig {
+  peakMultiplier: number;
+  peakDegrees: number;
+  curveExponent: number;
+  minSpeed: number;
+}
+
+export interface Vector {
+  x: number;
+  y: number;
+}
+
+export interface SlingImpulseConfig {
+  maxLength: number;
+  velocityMultiplier: number;
+  powerCurve: PowerCurve;
+}
+
+export interface SlingImpulse {
+  /** Drag vector clamped to maxLength */
+  vector: Vector;
+  /** Length of the clamped drag vector */
+  length: number;
+  /** Launch power from 0 to 1 after applying the power curve */
+  power: number;
+  /** Launch velocity before any boost multiplier */
+  velocity: Vector;
+}
+
+/**
+ * Get the sling impulse configuration from balance settings
+ */
+export function getSlingImpulseConfig(): SlingImpulseConfig {
+  return {
+    maxLength: SLINGSHOT.MAX_LENGTH,
+    velocityMultiplier: SLINGSHOT.VELOCITY_MULTIPLIER,
+    powerCurve: SLINGSHOT.POWER_CURVE,
+  };
+}
+
+/**
+ * Get the timing boost configuration from balance settings
+ */
+export function getTimingBoostConfig(): TimingBoostConfig {
+  return {
+    maxMultiplier: SLING_BOOST.TIMING_MAX_MULTIPLIER,
+    curveExponent: SLING_BOOST.TIMING_CURVE_EXPONENT,
+    decelerationThreshold: SLING_BOOST.DECELERATION_THRESHOLD,
+    minPeakSpeed: SLING_BOOST.MIN_PEAK_SPEED,
+  };
+}
+
+/**
+ * Get the angle boost configuration from balance settings
+ */
+export function getAngleBoostConfig(): AngleBoostConfig {
+  return {
+    peakMultiplier: SLING_BOOST.ANGLE_PEAK_MULTIPLIER,
+    peakDegrees: SLING_BOOST.ANGLE_PEAK_DEGREES,
+    curveExponent: SLING_BOOST.ANGLE_CURVE_EXPONENT,
+    minSpeed: SLING_BOOST.ANGLE_MIN_SPEED,
+  };
+}
+
+/**
+ * Clamp a vector to a maximum length, keeping its direction
+ */
+export function clampVectorLength(vector: Vector, maxLength: number): Vector {
+  const length = Math.sqrt(vector.x * vector.x + vector.y * vector.y);
+  if (length <= maxLength || length === 0) {
+    return { x: vector.x, y: vector.y };
+  }
+
+  const scale = Math.max(maxLength, 0) / length;
+  return { x: vector.x * scale, y: vector.y * scale };
+}
+
+/**
+ * Map a length ratio (0 to 1) to a power ratio (0 to 1)
+ */
+export function applyPowerCurve(ratio: number, curve: PowerCurve): number {
+  const t = Math.min(Math.max(ratio, 0), 1);
+
+  switch (curve) {
+    case "ease-in":
+      return t * t;
+    case "ease-out":
+      return 1 - (1 - t) * (1 - t);
+    case "linear":
+    default:
+      return t;
+  }
+}
+
+/**
+ * Turn a drag vector into a launch velocity
+ * The drag is clamped to maxLength, and the power curve decides how much
+ * of the full power (maxLength * velocityMultiplier) it is worth
+ */
+export function calculateSlingImpulse(
+  drag: Vector,
+  config: SlingImpulseConfig,
+): SlingImpulse {
+  const vector = clampVectorLength(drag, config.maxLength);
+  const length = Math.sqrt(vector.x * vector.x + vector.y * vector.y);
+
+  if (length === 0 || config.maxLength <= 0) {
+    return { vector, length: 0, power: 0, velocity: { x: 0, y: 0 } };
+  }
+
+  const power = applyPowerCurve(length / config.maxLength, config.powerCurve);
+  const speed = power * config.maxLength * config.velocityMultiplier;
+
+  return {
+    vector,
+    length,
+    power,
+    velocity: {
+      x: (vector.x / length) * speed,
+      y: (vector.y / length) * speed,
+    },
+  };
+}
+
+/**
+ * State for a puck that has not been slung yet
+ */
+export function createSlingState(): SlingState {
+  return {
+    peakSpeed: 0,
+    currentSpeed: 0,
+    isDecelerating: false,
+  };
+}
+
+/**
+ * Start tracking a new sling from the speed it was launched with
+ */
+export function recordSling(launchSpeed: number): SlingState {
+  return {
+    peakSpeed: launchSpeed,
+    currentSpeed: launchSpeed,
+    isDecelerating: false,
+  };
+}
+
+/**
+ * Feed a new speed sample, keeping track of the peak and deceleration
+ */
+export function updateSlingState(
+  state: SlingState,
+  speed: number,
+  config: TimingBoostConfig,
+): SlingState {
+  const peakSpeed = Math.max(state.peakSpeed, speed);
+
+  return {
+    peakSpeed,
+    currentSpeed: speed,
+    isDecelerating: peakSpeed - speed > config.decelerationThreshold,
+  };
+}
+
+/**
+ * Calculate the timing multiplier for a new sling
+ * 1 while the puck is still accelerating (or barely moved), rising towards
+ * maxMultiplier the closer the current speed is to the last sling's peak
+ */
+export function calculateTimingMultiplier(
+  state: SlingState,
+  config: TimingBoostConfig,
+): number {
+  if (!state.isDecelerating || state.peakSpeed < config.minPeakSpeed) {
+    return 1;
+  }
+
+  const speedRatio = Math.min(
+    Math.max(state.currentSpeed / state.peakSpeed, 0),
+    1,
+  );
+  const bonus = (config.maxMultiplier - 1) * speedRatio ** config.curveExponent;
+
+  return 1 + bonus;
+}
+
+/**
+ * Calculate the angle between two vectors in degrees (0 to 180)
+ * Returns 0 when either vector has no length
+ */
+export function calculateAngleBetween(a: Vector, b: Vector): number {
+  const lengthA = Math.sqrt(a.x * a.x + a.y * a.y);
+  const lengthB = Math.sqrt(b.x * b.x + b.y * b.y);
+
+  if (lengthA === 0 || lengthB === 0) {
+    return 0;
+  }
+
+  const cosine = (a.x * b.x + a.y * b.y) / (lengthA * lengthB);
+  return (Math.acos(Math.min(Math.max(cosine, -1), 1)) * 180) / Math.PI;
+}
+
+/**
+ * Calculate the angle multiplier for a sling fired while moving
+ * 1 when slinging along the current velocity, peakMultiplier at peakDegrees,
+ * back to 1 at twice the peak angle and beyond (sharp turns and braking)
+ */
+export function calculateAngleMultiplier(
+  velocity: Vector,
+  slingDirection: Vector,
+  config: AngleBoostConfig,
+): number {
+  const speed = Math.sqrt(velocity.x * velocity.x + velocity.y * velocity.y);
+  if (speed < config.minSpeed || config.peakDegrees <= 0) {
+    return 1;
+  }
+
+  const angle = calculateAngleBetween(velocity, slingDirection);
+  if (angle >= config.peakDegrees * 2) {
+    return 1;
+  }
+
+  // Half sine wave: 0 at 0 degrees, 1 at the peak, 0 at twice the peak
+  const curve = Math.sin(((angle / config.peakDegrees) * Math.PI) / 2);
+  const bonus =
+    (config.peakMultiplier - 1) * Math.max(curve, 0) ** config.curveExponent;
+
+  return 1 + bonus;
+}
@@ -0,0 +1,71 @@
+/**
+ * Uniform grid spatial index
+ *
+ * Items are registered in every cell their bounds overlap, a point query
+ * only looks at the items of the cell containing the point.
+ */
+
+export interface GridBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SpatialGrid {
+  cellSize: number;
+  /** Item indices per cell, keyed by "column,row" */
+  cells: Map<string, number[]>;
+}
+
+function getCellKey(column: number, row: number): string {
+  return `${column},${row}`;
+}
+
+/**
+ * Index items by their bounds, the index of an item is its position in the
+ * array
+ */
+export function createSpatialGrid(
+  itemBounds: GridBounds[],
+  cellSize: number,
+): SpatialGrid {
+  if (!(cellSize > 0)) {
+    throw new Error("Spatial grid cell size must be positive");
+  }
+
+  const cells = new Map<string, number[]>();
+
+  itemBounds.forEach((bounds, index) => {
+    const minColumn = Math.floor(bounds.x / cellSize);
+    const maxColumn = Math.floor((bounds.x + bounds.width) / cellSize);
+    const minRow = Math.floor(bounds.y / cellSize);
+    const maxRow = Math.floor((bounds.y + bounds.height) / cellSize);
+
+    for (let column = minColumn; column <= maxColumn; column++) {
+      for (let row = minRow; row <= maxRow; row++) {
+        const key = getCellKey(column, row);
+        const items = cells.get(key);
+        if (items) {
+          items.push(index);
+        } else {
+          cells.set(key, [index]);
+        }
+      }
+    }
+  });
+
+  return { cellSize, cells };
+}
+
+/**
+ * Indices of the items whose bounds may contain the point
+ */
+export function querySpatialGrid(
+  grid: SpatialGrid,
+  point: { x: number; y: number },
+): number[] {
+  const column = Math.floor(point.x / grid.cellSize);
+  const row = Math.floor(point.y / grid.cellSize);
+  return grid.cells.get(getCellKey(column, row)) ?? [];
+}
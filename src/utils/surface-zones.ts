@@ -0,0 +1,76 @@
+import { PHYSICS, SURFACE_ZONES } from "./balance";
+import { Vector } from "./sling-physics";
+import { SurfaceZone } from "./track-types";
+
+export interface SurfaceZoneConfig {
+  /** Air friction of the puck outside of any zone */
+  airFriction: number;
+  boostSpeed: number;
+  slowAirFriction: number;
+  iceAirFriction: number;
+}
+
+/**
+ * Get the surface zone configuration from balance settings
+ */
+export function getSurfaceZoneConfig(): SurfaceZoneConfig {
+  return {
+    airFriction: PHYSICS.AIR_FRICTION,
+    boostSpeed: SURFACE_ZONES.BOOST_SPEED,
+    slowAirFriction: SURFACE_ZONES.SLOW_AIR_FRICTION,
+    iceAirFriction: SURFACE_ZONES.ICE_AIR_FRICTION,
+  };
+}
+
+/**
+ * Velocity after touching a boost pad
+ * Pads without a direction push the way the puck already goes, and do
+ * nothing to a puck at rest.
+ */
+export function getBoostedVelocity(
+  velocity: Vector,
+  zone: SurfaceZone,
+  config: SurfaceZoneConfig,
+): Vector {
+  const speed = zone.strength ?? config.boostSpeed;
+  let direction = zone.direction;
+
+  if (!direction) {
+    const currentSpeed = Math.hypot(velocity.x, velocity.y);
+    if (currentSpeed === 0) {
+      return velocity;
+    }
+    direction = { x: velocity.x / currentSpeed, y: velocity.y / currentSpeed };
+  }
+
+  return {
+    x: velocity.x + direction.x * speed,
+    y: velocity.y + direction.y * speed,
+  };
+}
+
+/**
+ * Air friction of the puck on the zones it overlaps
+ * Slow zones win over ice, the strongest slow zone or slipperiest ice
+ * applies when several overlap.
+ */
+export function getZoneAirFriction(
+  zones: SurfaceZone[],
+  config: SurfaceZoneConfig,
+): number {
+  const slow = zones
+    .filter((zone) => zone.type === "slow")
+    .map((zone) => zone.strength ?? config.slowAirFriction);
+  if (slow.length > 0) {
+    return Math.max(...slow);
+  }
+
+  const ice = zones
+    .filter((zone) => zone.type === "ice")
+    .map((zone) => zone.strength ?? config.iceAirFriction);
+  if (ice.length > 0) {
+    return Math.min(...ice);
+  }
+
+  return config.airFriction;
+}
@@ -0,0 +1,572 @@
+/**
+ * SVG animations moving obstacles
+ *
+ * Supports a rigid subset of SMIL: <animateMotion> (path, values or
+ * from/to/by) and <animateTransform type="translate|rotate">, as children of
+ * the element or of a group around it. Animations add to the element's own
+ * transform. Spinners, pendulums and sliding doors can be written with data
+ * attributes instead (data-spin, data-swing, data-slide).
+ *
+ * Tracks are returned in the coordinates of the element they animate, the
+ * transformer maps them to game coordinates.
+ */
+
+import { getElementBounds } from "./svg-parser";
+import { flattenPathData } from "./svg-path";
+import { GamePoint, MotionTiming, MotionTrack } from "./track-types";
+
+export interface SVGAnimation {
+  /** Element whose coordinates the track is in */
+  target: Element;
+  /** Applied outside the target's own transform, as animateMotion is */
+  outside: boolean;
+  track: MotionTrack;
+}
+
+/** Cycle of data-swing and data-slide when data-period is unset (ms) */
+export const DEFAULT_MOTION_PERIOD = 2000;
+
+const ANIMATION_TAGS = ["animatemotion", "animatetransform"];
+
+const CLOCK_PATTERN = /^([+-])?(?:(\d+):)?(\d+):(\d+(?:\.\d+)?)$/;
+const TIMECOUNT_PATTERN = /^([+-]?(?:\d+\.?\d*|\.\d+))(h|min|s|ms)?$/;
+const TIMECOUNT_UNITS: Record<string, number> = {
+  h: 3600000,
+  min: 60000,
+  s: 1000,
+  ms: 1,
+};
+
+/**
+ * SMIL clock value in milliseconds: "2s", "500ms", "1.5", "0:02.5"...
+ * Null when it is not a clock value (e.g. event based begin values)
+ */
+export function parseClockValue(value: string): number | null {
+  const text = value.trim();
+
+  const clock = CLOCK_PATTERN.exec(text);
+  if (clock) {
+    const [, sign, hours, minutes, seconds] = clock;
+    const milliseconds =
+      (parseInt(hours ?? "0", 10) * 3600 +
+        parseInt(minutes, 10) * 60 +
+        parseFloat(seconds)) *
+      1000;
+    return sign === "-" ? -milliseconds : milliseconds;
+  }
+
+  const timecount = TIMECOUNT_PATTERN.exec(text);
+  if (timecount) {
+    return parseFloat(timecount[1]) * TIMECOUNT_UNITS[timecount[2] ?? "s"];
+  }
+
+  return null;
+}
+
+function parseNumbers(value: string): number[] {
+  return value
+    .trim()
+    .split(/[\s,]+/)
+    .filter((item) => item !== "")
+    .map(parseFloat);
+}
+
+/** Semicolon separated list, e.g. values="0 0; 100 0" */
+function parseList<T>(
+  value: string | null,
+  parseItem: (item: string) => T | null,
+): T[] | null {
+  if (value === null) {
+    return null;
+  }
+
+  const items = value
+    .split(";")
+    .map((item) => item.trim())
+    .filter((item) => item !== "")
+    .map(parseItem);
+  return items.length > 0 && items.every((item) => item !== null)
+    ? (items as T[])
+    : null;
+}
+
+function parsePoint(value: string): GamePoint | null {
+  const [x, y = 0] = parseNumbers(value);
+  return Number.isFinite(x) && Number.isFinite(y) ? { x, y } : null;
+}
+
+interface RotateValue {
+  degrees: number;
+  center: GamePoint;
+}
+
+function parseRotateValue(value: string): RotateValue | null {
+  const [degrees, x = 0, y = 0] = parseNumbers(value);
+  return [degrees, x, y].every(Number.isFinite)
+    ? { degrees, center: { x, y } }
+    : null;
+}
+
+/**
+ * Keyframe values from values, or from/to/by relative to rest
+ */
+function getKeyframeValues<T>(
+  element: Element,
+  parseItem: (item: string) => T | null,
+  rest: T,
+  add: (a: T, b: T) => T,
+): T[] | null {
+  const values = element.getAttribute("values");
+  if (values !== null) {
+    return parseList(values, parseItem);
+  }
+
+  const read = (name: string) => {
+    const value = element.getAttribute(name);
+    return value === null ? undefined : parseItem(value);
+  };
+  const from = read("from");
+  const to = read("to");
+  const by = read("by");
+  if (from === null || to === null || by === null) {
+    return null;
+  }
+
+  const start = from ?? rest;
+  if (to !== undefined) {
+    return [start, to];
+  }
+  if (by !== undefined) {
+    return [start, add(start, by)];
+  }
+  return null;
+}
+
+/**
+ * Fractions of the cycle at which each keyframe is reached
+ * Paced timing spreads them by distance, otherwise they come from keyTimes
+ * or are evenly spaced.
+ */
+function getKeyTimes(
+  element: Element,
+  distances: number[],
+  paced: boolean,
+): number[] {
+  const count = distances.length + 1;
+  if (count === 1) {
+    return [0];
+  }
+
+  const total = distances.reduce((sum, distance) => sum + distance, 0);
+  if (paced && total > 0) {
+    let travelled = 0;
+    return [0, ...distances.map((distance) => (travelled += distance) / total)];
+  }
+
+  const keyTimes = parseList(element.getAttribute("keyTimes"), (item) => {
+    const time = parseFloat(item);
+    return Number.isFinite(time) ? time : null;
+  });
+  if (keyTimes) {
+    const valid =
+      keyTimes.length === count &&
+      keyTimes[0] === 0 &&
+      keyTimes[count - 1] === 1 &&
+      keyTimes.every(
+        (time, index) => index === 0 || time >= keyTimes[index - 1],
+      );
+    if (valid) {
+      return keyTimes;
+    }
+    console.warn(
+      "Ignoring invalid keyTimes:",
+      element.getAttribute("keyTimes"),
+    );
+  }
+
+  return Array.from({ length: count }, (_, index) => index / (count - 1));
+}
+
+/**
+ * begin, dur, repeatCount/repeatDur and fill of an animation element,
+ * null when it has no usable duration or only starts on an event
+ */
+function getAnimationTiming(
+  element: Element,
+): Omit<MotionTiming, "keyTimes" | "eased"> | null {
+  const duration = parseClockValue(element.getAttribute("dur") ?? "");
+  if (duration === null || duration <= 0) {
+    console.warn("Ignoring animation without a duration:", element.outerHTML);
+    return null;
+  }
+
+  let begin = 0;
+  const rawBegin = element.getAttribute("begin");
+  if (rawBegin !== null) {
+    // The earliest clock value starts it, other values wait for events
+    const values = rawBegin
+      .split(";")
+      .map(parseClockValue)
+      .filter((value): value is number => value !== null);
+    if (values.length === 0) {
+      console.warn("Ignoring animation without a clock begin:", rawBegin);
+      return null;
+    }
+    begin = Math.min(...values);
+  }
+
+  let repeatCount = 1;
+  const rawRepeatCount = element.getAttribute("repeatCount");
+  const rawRepeatDur = element.getAttribute("repeatDur");
+  if (rawRepeatCount?.trim() === "indefinite") {
+    repeatCount = Infinity;
+  } else if (rawRepeatCount !== null) {
+    const count = parseFloat(rawRepeatCount);
+    if (Number.isFinite(count) && count > 0) {
+      repeatCount = count;
+    } else {
+      console.warn("Invalid repeatCount:", rawRepeatCount);
+    }
+  } else if (rawRepeatDur?.trim() === "indefinite") {
+    repeatCount = Infinity;
+  } else if (rawRepeatDur !== null) {
+    const repeatDuration = parseClockValue(rawRepeatDur);
+    if (repeatDuration !== null && repeatDuration > 0) {
+      repeatCount = repeatDuration / duration;
+    }
+  }
+
+  return {
+    begin,
+    duration,
+    repeatCount,
+    freeze: element.getAttribute("fill")?.trim() === "freeze",
+  };
+}
+
+/**
+ * Interpolation of an animation element: paced, or eased for splines
+ * Discrete and spline animations are approximated, with a warning.
+ */
+function getCalcMode(
+  element: Element,
+  defaultMode: string,
+): { paced: boolean; eased: boolean } {
+  const calcMode = element.getAttribute("calcMode")?.trim() ?? defaultMode;
+  if (calcMode === "spline") {
+    console.warn("calcMode spline eases in and out, whatever keySplines");
+  } else if (calcMode === "discrete") {
+    console.warn("calcMode discrete is animated linearly");
+  }
+
+  return { paced: calcMode === "paced", eased: calcMode === "spline" };
+}
+
+function distance(a: GamePoint, b: GamePoint): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+function getMotionPoints(element: Element): GamePoint[] | null {
+  const path = element.getAttribute("path");
+  if (path === null) {
+    return getKeyframeValues(element, parsePoint, { x: 0, y: 0 }, (a, b) => ({
+      x: a.x + b.x,
+      y: a.y + b.y,
+    }));
+  }
+
+  try {
+    // Closed subpaths come back to their start
+    return flattenPathData(path).flatMap(({ points, closed }) =>
+      closed ? [...points, points[0]] : points,
+    );
+  } catch (error) {
+    console.warn("Invalid animateMotion path:", error);
+    return null;
+  }
+}
+
+function parseAnimateMotion(element: Element): SVGAnimation | null {
+  const timing = getAnimationTiming(element);
+  const offsets = getMotionPoints(element);
+  if (!timing || !offsets || offsets.length === 0) {
+    return null;
+  }
+
+  if (element.getAttribute("rotate")) {
+    console.warn("animateMotion rotate is not supported");
+  }
+
+  const { paced, eased } = getCalcMode(element, "paced");
+  const distances = offsets
+    .slice(1)
+    .map((offset, index) => distance(offsets[index], offset));
+
+  return {
+    target: element.parentElement!,
+    outside: true,
+    track: {
+      type: "translate",
+      offsets,
+      ...timing,
+      keyTimes: getKeyTimes(element, distances, paced),
+      eased,
+    },
+  };
+}
+
+function parseAnimateTransform(element: Element): SVGAnimation | null {
+  const attributeName = element.getAttribute("attributeName");
+  const type = element.getAttribute("type")?.trim() ?? "translate";
+  if (attributeName !== "transform") {
+    console.warn("animateTransform must animate transform:", attributeName);
+    return null;
+  }
+  if (type !== "translate" && type !== "rotate") {
+    console.warn(`animateTransform type ${type} is not supported`);
+    return null;
+  }
+
+  const timing = getAnimationTiming(element);
+  if (!timing) {
+    return null;
+  }
+  const { paced, eased } = getCalcMode(element, "linear");
+
+  if (type === "translate") {
+    const offsets = getKeyframeValues(
+      element,
+      parsePoint,
+      { x: 0, y: 0 },
+      (a, b) => ({ x: a.x + b.x, y: a.y + b.y }),
+    );
+    if (!offsets) {
+      console.warn("Invalid animateTransform values:", element.outerHTML);
+      return null;
+    }
+
+    const distances = offsets
+      .slice(1)
+      .map((offset, index) => distance(offsets[index], offset));
+    return {
+      target: element.parentElement!,
+      outside: false,
+      track: {
+        type: "translate",
+        offsets,
+        ...timing,
+        keyTimes: getKeyTimes(element, distances, paced),
+        eased,
+      },
+    };
+  }
+
+  const rotations = getKeyframeValues(
+    element,
+    parseRotateValue,
+    { degrees: 0, center: { x: 0, y: 0 } },
+    (a, b) => ({
+      degrees: a.degrees + b.degrees,
+      center: { x: a.center.x + b.center.x, y: a.center.y + b.center.y },
+    }),
+  );
+  if (!rotations) {
+    console.warn("Invalid animateTransform values:", element.outerHTML);
+    return null;
+  }
+
+  // A moving pivot is not a rigid rotation, the first one is kept
+  const pivot = rotations[0].center;
+  if (rotations.some(({ center }) => distance(center, pivot) > 1e-9)) {
+    console.warn("animateTransform rotate keeps its first center");
+  }
+
+  const angles = rotations.map(({ degrees }) => (degrees * Math.PI) / 180);
+  const distances = angles
+    .slice(1)
+    .map((angle, index) => Math.abs(angle - angles[index]));
+  return {
+    target: element.parentElement!,
+    outside: false,
+    track: {
+      type: "rotate",
+      angles,
+      pivot,
+      ...timing,
+      keyTimes: getKeyTimes(element, distances, paced),
+      eased,
+    },
+  };
+}
+
+/**
+ * Animation described by an <animateMotion> or <animateTransform>, null
+ * when it cannot move an obstacle
+ * Animations pointing at another element with href are left out.
+ */
+export function parseAnimationElement(element: Element): SVGAnimation | null {
+  const tag = element.tagName.toLowerCase();
+  if (
+    !ANIMATION_TAGS.includes(tag) ||
+    !element.parentElement ||
+    element.hasAttribute("href") ||
+    element.hasAttribute("xlink:href")
+  ) {
+    return null;
+  }
+
+  return tag === "animatemotion"
+    ? parseAnimateMotion(element)
+    : parseAnimateTransform(element);
+}
+
+/**
+ * Read a data attribute on the element or its closest group setting it
+ */
+function getData(element: Element, name: string): string | null {
+  return (
+    element.closest(`[data-${name}]`)?.getAttribute(`data-${name}`) ?? null
+  );
+}
+
+function getDataNumber(element: Element, name: string): number | null {
+  const rawValue = getData(element, name);
+  if (rawValue === null) {
+    return null;
+  }
+
+  const value = parseFloat(rawValue);
+  if (!Number.isFinite(value)) {
+    console.warn(`Invalid data-${name} attribute:`, rawValue);
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Animations from data-spin (degrees per second, clockwise when
+ * positive), data-swing (amplitude in degrees of a pendulum) and data-slide
+ * ("dx dy" travelled and back), around data-pivot ("x y", the center of the
+ * element by default) and over data-period seconds
+ * They are inherited from groups like other data attributes, but are always
+ * in the coordinates of the element itself.
+ */
+export function getDataAnimations(element: SVGElement): SVGAnimation[] {
+  const animations: SVGAnimation[] = [];
+  const spin = getDataNumber(element, "spin");
+  const swing = getDataNumber(element, "swing");
+  const rawSlide = getData(element, "slide");
+  if (spin === null && swing === null && rawSlide === null) {
+    return animations;
+  }
+
+  let period = DEFAULT_MOTION_PERIOD;
+  const periodSeconds = getDataNumber(element, "period");
+  if (periodSeconds !== null && periodSeconds > 0) {
+    period = periodSeconds * 1000;
+  } else if (periodSeconds !== null) {
+    console.warn("data-period must be positive:", periodSeconds);
+  }
+
+  const rawPivot = getData(element, "pivot");
+  let pivot = rawPivot === null ? null : parsePoint(rawPivot);
+  if (rawPivot !== null && !pivot) {
+    console.warn("Invalid data-pivot attribute:", rawPivot);
+  }
+  if (!pivot) {
+    const bounds = getElementBounds(element);
+    pivot = {
+      x: bounds.x + bounds.width / 2,
+      y: bounds.y + bounds.height / 2,
+    };
+  }
+
+  const loop = { repeatCount: Infinity, freeze: false };
+
+  if (spin !== null && spin !== 0) {
+    animations.push({
+      target: element,
+      outside: false,
+      track: {
+        type: "rotate",
+        angles: [0, Math.sign(spin) * 2 * Math.PI],
+        pivot,
+        begin: 0,
+        duration: (360 / Math.abs(spin)) * 1000,
+        ...loop,
+        keyTimes: [0, 1],
+        eased: false,
+      },
+    });
+  }
+
+  if (swing !== null && swing !== 0) {
+    const amplitude = (swing * Math.PI) / 180;
+    // Starts a quarter period in, through the middle at full speed
+    animations.push({
+      target: element,
+      outside: false,
+      track: {
+        type: "rotate",
+        angles: [-amplitude, amplitude, -amplitude],
+        pivot,
+        begin: -period / 4,
+        duration: period,
+        ...loop,
+        keyTimes: [0, 0.5, 1],
+        eased: true,
+      },
+    });
+  }
+
+  if (rawSlide !== null) {
+    const slide = parsePoint(rawSlide);
+    if (!slide) {
+      console.warn("Invalid data-slide attribute:", rawSlide);
+    } else {
+      animations.push({
+        target: element,
+        outside: false,
+        track: {
+          type: "translate",
+          offsets: [{ x: 0, y: 0 }, slide, { x: 0, y: 0 }],
+          begin: 0,
+          duration: period,
+          ...loop,
+          keyTimes: [0, 0.5, 1],
+          eased: true,
+        },
+      });
+    }
+  }
+
+  return animations;
+}
+
+/**
+ * Every animation moving an element, outermost first: those of its
+ * enclosing groups, then its own, then its data attributes
+ * Animations of <svg> elements are not supported.
+ */
+export function getElementAnimations(element: SVGElement): SVGAnimation[] {
+  const levels: Element[] = [];
+  for (let node: Element | null = element; node; node = node.parentElement) {
+    if (node.tagName.toLowerCase() !== "svg") {
+      levels.unshift(node);
+    }
+  }
+
+  const animations = levels.flatMap((level) => {
+    const parsed = Array.from(level.children)
+      .map(parseAnimationElement)
+      .filter((animation): animation is SVGAnimation => animation !== null);
+
+    // Motion applies outside the transform, so before the others
+    return [
+      ...parsed.filter((animation) => animation.outside),
+      ...parsed.filter((animation) => !animation.outside),
+    ];
+  });
+
+  return [...animations, ...getDataAnimations(element)];
+}
@@ -1,4 +1,25 @@
-import { RawTrackElements, TRACK_COLORS } from "./track-types";
+import {
+  MATERIALS,
+  Material,
+  RawTrackElements,
+  RESPAWN_MODES,
+  RespawnMode,
+  SurfaceProperties,
+  TRACK_COLORS,
+  TRACK_ROLES,
+  TRACK_ROLE_ATTRIBUTE,
+  TrackRole,
+} from "./track-types";
+import {
+  DEFAULT_PATH_FLATTEN_OPTIONS,
+  FillRule,
+  PathFlattenOptions,
+  PathSubpath,
+  flattenPathData,
+  getSubpathBounds,
+} from "./svg-path";
+import { getViewportSize } from "./svg-transform";
+import { normalizeColor } from "./svg-color";
 
 export function parseSVGText(svgText: string): Document {
   const parser = new DOMParser();
@@ -12,24 +33,302 @@ export function parseSVGText(svgText: string): Document {
   return doc;
 }
 
+/** Elements that can become part of a track */
+const SHAPE_TAGS = [
+  "rect",
+  "circle",
+  "ellipse",
+  "line",
+  "polygon",
+  "polyline",
+  "path",
+];
+
+/** Containers whose content is never rendered directly */
+const NON_RENDERED_CONTAINERS = "defs, clipPath, mask, symbol, marker, pattern";
+
+/**
+ * Rendered shape elements in document order
+ */
+export function getShapeElements(doc: Document): SVGElement[] {
+  const shapes = Array.from(
+    doc.querySelectorAll(SHAPE_TAGS.join(", ")),
+  ) as SVGElement[];
+
+  return shapes.filter(
+    (element) => !element.parentElement?.closest(NON_RENDERED_CONTAINERS),
+  );
+}
+
+function hasColor(element: SVGElement, color: string | null): boolean {
+  return (
+    color !== null &&
+    (getResolvedPaint(element, "fill") === color ||
+      getResolvedPaint(element, "stroke") === color)
+  );
+}
+
+/**
+ * Shape elements whose effective fill or stroke is the color
+ * See getResolvedPaint for how the color is resolved
+ */
 export function extractElementsByColor(
   doc: Document,
   color: string,
 ): SVGElement[] {
-  const elements: SVGElement[] = [];
-  const allElements = doc.querySelectorAll("*");
+  const target = normalizeColor(color);
+  return getShapeElements(doc).filter((element) => hasColor(element, target));
+}
 
-  allElements.forEach((element) => {
-    const svgElement = element as SVGElement;
-    const fill = svgElement.getAttribute("fill")?.toUpperCase();
-    const stroke = svgElement.getAttribute("stroke")?.toUpperCase();
+/**
+ * Role of an element from data-puck-role on itself or its closest tagged
+ * group, null when untagged (or tagged with an unknown role)
+ */
+export function getTrackRole(element: Element): TrackRole | null {
+  const tagged = element.closest(`[${TRACK_ROLE_ATTRIBUTE}]`);
+  if (!tagged) {
+    return null;
+  }
+
+  const role = tagged.getAttribute(TRACK_ROLE_ATTRIBUTE)!.trim().toLowerCase();
+  if (!(TRACK_ROLES as readonly string[]).includes(role)) {
+    console.warn(`Unknown ${TRACK_ROLE_ATTRIBUTE}:`, role);
+    return null;
+  }
+
+  return role as TrackRole;
+}
 
-    if (fill === color.toUpperCase() || stroke === color.toUpperCase()) {
-      elements.push(svgElement);
+/**
+ * Shape elements tagged with the role
+ * Untagged elements are matched by the fallback colors instead, tagged
+ * elements never fall back so designers can recolor them freely.
+ */
+export function extractElementsByRole(
+  doc: Document,
+  role: TrackRole,
+  ...fallbackColors: string[]
+): SVGElement[] {
+  const targets = fallbackColors.map(normalizeColor);
+
+  return getShapeElements(doc).filter((element) => {
+    const elementRole = getTrackRole(element);
+    return elementRole
+      ? elementRole === role
+      : targets.some((target) => hasColor(element, target));
+  });
+}
+
+interface StyleDeclaration {
+  value: string;
+  important: boolean;
+}
+
+interface StyleRule {
+  selector: string;
+  specificity: number;
+  declarations: Map<string, StyleDeclaration>;
+}
+
+/**
+ * Parse "fill: red; stroke: #000 !important" into declarations
+ */
+function parseDeclarations(text: string): Map<string, StyleDeclaration> {
+  const declarations = new Map<string, StyleDeclaration>();
+
+  text.split(";").forEach((declaration) => {
+    const separator = declaration.indexOf(":");
+    if (separator === -1) return;
+
+    const property = declaration.slice(0, separator).trim().toLowerCase();
+    let value = declaration.slice(separator + 1).trim();
+    const important = /!\s*important$/i.test(value);
+    if (important) {
+      value = value.replace(/!\s*important$/i, "").trim();
+    }
+
+    if (property && value) {
+      declarations.set(property, { value, important });
     }
   });
 
-  return elements;
+  return declarations;
+}
+
+/**
+ * Selector specificity packed into one number (ids, classes, types)
+ */
+function getSpecificity(selector: string): number {
+  // Attribute values may contain anything, count them before stripping
+  const attributes = (selector.match(/\[[^\]]*\]/g) || []).length;
+  const simple = selector.replace(/\[[^\]]*\]/g, " ");
+
+  const ids = (simple.match(/#[\w-]+/g) || []).length;
+  const classes = (simple.match(/\.[\w-]+|:(?!:)[\w-]+/g) || []).length;
+  const types = (simple.match(/(^|[\s>+~(])[a-z][\w-]*/gi) || []).length;
+
+  return ids * 10000 + (classes + attributes) * 100 + types;
+}
+
+/**
+ * Style rules of a <style> block, in source order
+ * At-rules such as @media are skipped entirely.
+ */
+function parseStylesheet(css: string): StyleRule[] {
+  const rules: StyleRule[] = [];
+  const text = css.replace(/\/\*[\s\S]*?\*\//g, "");
+  let index = 0;
+
+  while (index < text.length) {
+    const open = text.indexOf("{", index);
+    if (open === -1) break;
+
+    // Find the matching brace, at-rules may nest blocks
+    let depth = 1;
+    let close = open + 1;
+    while (close < text.length && depth > 0) {
+      if (text[close] === "{") depth++;
+      if (text[close] === "}") depth--;
+      close++;
+    }
+
+    const prelude = text.slice(index, open).trim();
+    // A statement at-rule (e.g. @import) ends with ";" before the block
+    const selectorText = prelude.slice(prelude.lastIndexOf(";") + 1).trim();
+
+    if (selectorText && !selectorText.startsWith("@")) {
+      const declarations = parseDeclarations(text.slice(open + 1, close - 1));
+      selectorText.split(",").forEach((selector) => {
+        const trimmed = selector.trim();
+        if (trimmed) {
+          rules.push({
+            selector: trimmed,
+            specificity: getSpecificity(trimmed),
+            declarations,
+          });
+        }
+      });
+    }
+
+    index = close;
+  }
+
+  return rules;
+}
+
+const stylesheetCache = new WeakMap<Document, StyleRule[]>();
+
+function getStyleRules(doc: Document): StyleRule[] {
+  let rules = stylesheetCache.get(doc);
+  if (!rules) {
+    rules = Array.from(doc.querySelectorAll("style")).flatMap((style) =>
+      parseStylesheet(style.textContent || ""),
+    );
+    stylesheetCache.set(doc, rules);
+  }
+  return rules;
+}
+
+function matchesSelector(element: Element, selector: string): boolean {
+  try {
+    return element.matches(selector);
+  } catch {
+    // Selectors the DOM does not understand never match
+    return false;
+  }
+}
+
+/**
+ * Value the element itself sets for a property, null when it sets none
+ * Follows the CSS cascade: important declarations, then the inline style,
+ * then stylesheet rules by specificity and order, then the presentation
+ * attribute.
+ */
+function getOwnPropertyValue(
+  element: Element,
+  property: string,
+): string | null {
+  const inline = parseDeclarations(element.getAttribute("style") || "").get(
+    property,
+  );
+  if (inline?.important) {
+    return inline.value;
+  }
+
+  let sheet: StyleDeclaration | null = null;
+  let sheetSpecificity = -1;
+  for (const rule of getStyleRules(element.ownerDocument)) {
+    const declaration = rule.declarations.get(property);
+    if (!declaration) continue;
+
+    const outranks =
+      sheet === null ||
+      (declaration.important && !sheet.important) ||
+      (declaration.important === sheet.important &&
+        rule.specificity >= sheetSpecificity);
+    if (outranks && matchesSelector(element, rule.selector)) {
+      sheet = declaration;
+      sheetSpecificity = rule.specificity;
+    }
+  }
+
+  if (sheet?.important) {
+    return sheet.value;
+  }
+
+  return inline?.value ?? sheet?.value ?? element.getAttribute(property);
+}
+
+/**
+ * Effective value of an inherited presentation property (fill, stroke,
+ * stroke-width, color), looking up through the ancestors. Null when
+ * neither the element nor any ancestor sets it.
+ */
+export function getPresentationValue(
+  element: Element,
+  property: string,
+): string | null {
+  let node: Element | null = element;
+
+  while (node) {
+    const value = getOwnPropertyValue(node, property)?.trim();
+    if (value && value.toLowerCase() !== "inherit") {
+      return value;
+    }
+    node = node.parentElement;
+  }
+
+  return null;
+}
+
+/**
+ * Effective fill or stroke color as "#RRGGBB", null when not painted
+ * Resolves the cascade and inheritance, "currentColor", the fallback of
+ * url() paints and any CSS color format. The fill of unstyled shapes is
+ * black as in SVG, lines are never filled.
+ */
+export function getResolvedPaint(
+  element: Element,
+  property: "fill" | "stroke",
+): string | null {
+  if (property === "fill" && element.tagName.toLowerCase() === "line") {
+    return null;
+  }
+
+  let value =
+    getPresentationValue(element, property) ??
+    (property === "fill" ? "black" : "none");
+
+  // Gradients and patterns are not a single color, use their fallback
+  if (value.toLowerCase().startsWith("url(")) {
+    value = value.slice(value.indexOf(")") + 1).trim();
+  }
+
+  if (value.toLowerCase() === "currentcolor") {
+    value = getPresentationValue(element, "color") ?? "black";
+  }
+
+  return normalizeColor(value);
 }
 
 export function extractElementsByTag(
@@ -57,6 +356,11 @@ export function extractElementsById(
   return elements;
 }
 
+/**
+ * Viewport size of the track, falling back to the viewBox size when
+ * width/height are missing or relative
+ * Content inside a viewBox is mapped to this size by getElementMatrix
+ */
 export function getSVGDimensions(doc: Document): {
   width: number;
   height: number;
@@ -66,10 +370,9 @@ export function getSVGDimensions(doc: Document): {
     throw new Error("No SVG root element found");
   }
 
-  const width = parseFloat(svgElement.getAttribute("width") || "0");
-  const height = parseFloat(svgElement.getAttribute("height") || "0");
+  const { width, height } = getViewportSize(svgElement);
 
-  if (width === 0 || height === 0) {
+  if (!(width > 0) || !(height > 0)) {
     throw new Error("SVG dimensions are invalid or missing");
   }
 
@@ -96,22 +399,104 @@ export function getSVGWorldSize(doc: Document): number | null {
   return worldSize;
 }
 
+/**
+ * Number of laps from the data-laps attribute of the root element, 1 when
+ * missing or invalid
+ */
+export function getSVGLapCount(doc: Document): number {
+  const value = doc.querySelector("svg")?.getAttribute("data-laps");
+  if (!value) {
+    return 1;
+  }
+
+  const laps = Number(value.trim());
+  if (!Number.isInteger(laps) || laps < 1) {
+    console.warn("Invalid data-laps attribute:", value);
+    return 1;
+  }
+
+  return laps;
+}
+
+/**
+ * Respawn mode from the data-respawn attribute of the root element
+ */
+export function getSVGRespawnMode(doc: Document): RespawnMode {
+  const value = doc.querySelector("svg")?.getAttribute("data-respawn");
+  if (!value) {
+    return "last-position";
+  }
+
+  const mode = value.trim().toLowerCase();
+  if (!(RESPAWN_MODES as readonly string[]).includes(mode)) {
+    console.warn("Invalid data-respawn attribute:", value);
+    return "last-position";
+  }
+
+  return mode as RespawnMode;
+}
+
+/**
+ * Whether the element comes after any of the others in document order, so
+ * is painted on top of them
+ */
+export function isPaintedAfter(element: Element, others: Element[]): boolean {
+  return others.some(
+    (other) =>
+      (other.compareDocumentPosition(element) &
+        other.DOCUMENT_POSITION_FOLLOWING) !==
+      0,
+  );
+}
+
 export function extractTrackElements(doc: Document): RawTrackElements {
+  const trackAreas = extractElementsByRole(
+    doc,
+    "track",
+    TRACK_COLORS.TRACK_AREA,
+  );
+
   return {
-    trackAreas: extractElementsByColor(doc, TRACK_COLORS.TRACK_AREA),
-    walls: extractElementsByColor(doc, TRACK_COLORS.WALL),
-    obstacles: extractElementsByColor(doc, TRACK_COLORS.OBSTACLE),
-    startLines: extractElementsByColor(doc, TRACK_COLORS.START_LINE),
-    finishLines: extractElementsByColor(doc, TRACK_COLORS.FINISH_LINE),
+    trackAreas,
+    walls: extractElementsByRole(doc, "wall", TRACK_COLORS.WALL),
+    obstacles: extractElementsByRole(doc, "obstacle", TRACK_COLORS.OBSTACLE),
+    startLines: extractElementsByRole(doc, "start", TRACK_COLORS.START_LINE),
+    finishLines: extractElementsByRole(doc, "finish", TRACK_COLORS.FINISH_LINE),
+    checkpoints: extractElementsByRole(
+      doc,
+      "checkpoint",
+      TRACK_COLORS.CHECKPOINT,
+    ),
+    boostPads: extractElementsByRole(doc, "boost", TRACK_COLORS.BOOST_PAD),
+    slowZones: extractElementsByRole(doc, "slow", TRACK_COLORS.SLOW_ZONE),
+    iceZones: extractElementsByRole(doc, "ice", TRACK_COLORS.ICE_ZONE),
+    teleporters: extractElementsByRole(
+      doc,
+      "teleporter",
+      TRACK_COLORS.TELEPORTER,
+    ),
+    teleporterExits: extractElementsByRole(
+      doc,
+      "teleporter-exit",
+      TRACK_COLORS.TELEPORTER_EXIT,
+    ),
+    // Only zones painted over the track cut holes in it, a background
+    // painted underneath does not
+    outOfBounds: extractElementsByRole(
+      doc,
+      "out-of-bounds",
+      TRACK_COLORS.OUT_OF_BOUNDS,
+      TRACK_COLORS.OUT_OF_BOUNDS_ALT,
+    ).filter((element) => isPaintedAfter(element, trackAreas)),
   };
 }
 
 export function extractWallElements(doc: Document): SVGElement[] {
-  return extractElementsByColor(doc, TRACK_COLORS.WALL);
+  return extractElementsByRole(doc, "wall", TRACK_COLORS.WALL);
 }
 
 export function extractObstacleElements(doc: Document): SVGElement[] {
-  return extractElementsByColor(doc, TRACK_COLORS.OBSTACLE);
+  return extractElementsByRole(doc, "obstacle", TRACK_COLORS.OBSTACLE);
 }
 
 export function extractStartFinishLines(doc: Document): {
@@ -119,11 +504,126 @@ export function extractStartFinishLines(doc: Document): {
   finish: SVGElement[];
 } {
   return {
-    start: extractElementsByColor(doc, TRACK_COLORS.START_LINE),
-    finish: extractElementsByColor(doc, TRACK_COLORS.FINISH_LINE),
+    start: extractElementsByRole(doc, "start", TRACK_COLORS.START_LINE),
+    finish: extractElementsByRole(doc, "finish", TRACK_COLORS.FINISH_LINE),
   };
 }
 
+/**
+ * Read a non-negative number from a data attribute on the element or its
+ * closest group setting it, null when unset or invalid
+ */
+export function getNumericData(element: Element, name: string): number | null {
+  const attribute = `data-${name}`;
+  const source = element.closest(`[${attribute}]`);
+  if (!source) {
+    return null;
+  }
+
+  const rawValue = source.getAttribute(attribute)!;
+  const value = parseFloat(rawValue);
+  if (!Number.isFinite(value) || value < 0) {
+    console.warn(`Invalid ${attribute} attribute:`, rawValue);
+    return null;
+  }
+
+  return value;
+}
+
+/**
+ * Name linking a teleporter entrance to its exit, from data-teleporter on
+ * the element or its closest group, null when unset or empty
+ */
+export function getTeleporterLink(element: Element): string | null {
+  const value = element
+    .closest("[data-teleporter]")
+    ?.getAttribute("data-teleporter")
+    ?.trim();
+  return value || null;
+}
+
+/** Keywords accepted by data-direction, as angles in degrees */
+const DIRECTION_KEYWORDS: Record<string, number> = {
+  right: 0,
+  down: 90,
+  left: 180,
+  up: 270,
+};
+
+/**
+ * Direction of travel from data-direction on the element or its closest
+ * group, as a unit vector in the element's coordinates
+ * Accepts an angle in degrees (0 points right, 90 down, as SVG rotations)
+ * or one of right, down, left and up. Null when unset or invalid.
+ */
+export function getDirectionData(
+  element: Element,
+): { x: number; y: number } | null {
+  const source = element.closest("[data-direction]");
+  if (!source) {
+    return null;
+  }
+
+  const rawValue = source.getAttribute("data-direction")!.trim().toLowerCase();
+  const degrees =
+    rawValue in DIRECTION_KEYWORDS
+      ? DIRECTION_KEYWORDS[rawValue]
+      : parseFloat(rawValue);
+  if (!Number.isFinite(degrees)) {
+    console.warn("Invalid data-direction attribute:", rawValue);
+    return null;
+  }
+
+  const radians = (degrees * Math.PI) / 180;
+  return { x: Math.cos(radians), y: Math.sin(radians) };
+}
+
+/**
+ * Material from data-material on the element or its closest group setting
+ * it, null when unset or unknown
+ */
+export function getMaterialData(element: Element): Material | null {
+  const source = element.closest("[data-material]");
+  if (!source) {
+    return null;
+  }
+
+  const rawValue = source.getAttribute("data-material")!;
+  const material = rawValue.trim().toLowerCase();
+  if (!(MATERIALS as readonly string[]).includes(material)) {
+    console.warn("Unknown data-material attribute:", rawValue);
+    return null;
+  }
+
+  return material as Material;
+}
+
+/**
+ * Body config overrides from data-material, data-restitution and
+ * data-friction
+ * Only the properties that are set are present.
+ */
+export function getSurfaceProperties(element: Element): SurfaceProperties {
+  const properties: SurfaceProperties = {};
+
+  const material = getMaterialData(element);
+  if (material !== null) {
+    properties.material = material;
+  }
+
+  const restitution = getNumericData(element, "restitution");
+  if (restitution !== null) {
+    properties.restitution = restitution;
+  }
+
+  const friction = getNumericData(element, "friction");
+  if (friction !== null) {
+    properties.friction = friction;
+  }
+
+  return properties;
+}
+
 export function getElementBounds(element: SVGElement): {
   x: number;
   y: number;
@@ -157,9 +657,7 @@ export function getElementBounds(element: SVGElement): {
       const y1 = parseFloat(element.getAttribute("y1") || "0");
       const x2 = parseFloat(element.getAttribute("x2") || "0");
       const y2 = parseFloat(element.getAttribute("y2") || "0");
-      const strokeWidth = parseFloat(
-        element.getAttribute("stroke-width") || "1",
-      );
+      const strokeWidth = getStrokeWidth(element);
 
       return {
         x: Math.min(x1, x2) - strokeWidth / 2,
@@ -168,12 +666,134 @@ export function getElementBounds(element: SVGElement): {
         height: Math.abs(y2 - y1) + strokeWidth,
       };
 
+    case "ellipse": {
+      const ellipse = getEllipseData(element);
+      return {
+        x: ellipse.cx - ellipse.rx,
+        y: ellipse.cy - ellipse.ry,
+        width: ellipse.rx * 2,
+        height: ellipse.ry * 2,
+      };
+    }
+
+    case "polygon":
+    case "polyline":
+      return getSubpathBounds([
+        { points: getPointsData(element), closed: tagName === "polygon" },
+      ]);
+
+    case "path":
+      return getSubpathBounds(getPathSubpaths(element));
+
     default:
       console.warn(`Unsupported SVG element type: ${tagName}`);
       return { x: 0, y: 0, width: 0, height: 0 };
   }
 }
 
+export function getStrokeWidth(element: SVGElement): number {
+  const strokeWidth = parseFloat(
+    getPresentationValue(element, "stroke-width") || "1",
+  );
+  return isNaN(strokeWidth) ? 1 : strokeWidth;
+}
+
+/**
+ * Effective fill-rule, nonzero unless set to evenodd
+ */
+export function getFillRule(element: SVGElement): FillRule {
+  return getPresentationValue(element, "fill-rule")?.toLowerCase() === "evenodd"
+    ? "evenodd"
+    : "nonzero";
+}
+
+/**
+ * Whether the element's fill (rather than only its stroke) is the color
+ */
+export function isFilledWithColor(element: SVGElement, color: string): boolean {
+  const fill = getResolvedPaint(element, "fill");
+  return fill !== null && fill === normalizeColor(color);
+}
+
+/**
+ * Whether the element's interior is part of its shape: filled with the
+ * color, or filled at all for elements tagged with a role
+ * Otherwise only the stroke counts.
+ */
+export function isSolid(element: SVGElement, color: string): boolean {
+  return getTrackRole(element)
+    ? getResolvedPaint(element, "fill") !== null
+    : isFilledWithColor(element, color);
+}
+
+/**
+ * Vertices of a <polygon> or <polyline>, a trailing odd number is ignored
+ */
+export function getPointsData(element: SVGElement): { x: number; y: number }[] {
+  const numbers = (element.getAttribute("points") || "")
+    .trim()
+    .split(/[\s,]+/)
+    .filter((value) => value !== "")
+    .map(parseFloat);
+
+  const points: { x: number; y: number }[] = [];
+  for (let i = 0; i + 1 < numbers.length; i += 2) {
+    points.push({ x: numbers[i], y: numbers[i + 1] });
+  }
+
+  return points;
+}
+
+export function getLineData(element: SVGElement): {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+} {
+  if (element.tagName.toLowerCase() !== "line") {
+    throw new Error("Element is not a line");
+  }
+
+  return {
+    x1: parseFloat(element.getAttribute("x1") || "0"),
+    y1: parseFloat(element.getAttribute("y1") || "0"),
+    x2: parseFloat(element.getAttribute("x2") || "0"),
+    y2: parseFloat(element.getAttribute("y2") || "0"),
+  };
+}
+
+export function getEllipseData(element: SVGElement): {
+  cx: number;
+  cy: number;
+  rx: number;
+  ry: number;
+} {
+  if (element.tagName.toLowerCase() !== "ellipse") {
+    throw new Error("Element is not an ellipse");
+  }
+
+  return {
+    cx: parseFloat(element.getAttribute("cx") || "0"),
+    cy: parseFloat(element.getAttribute("cy") || "0"),
+    rx: parseFloat(element.getAttribute("rx") || "0"),
+    ry: parseFloat(element.getAttribute("ry") || "0"),
+  };
+}
+
+/**
+ * Flattened outline of a <path> element, in SVG coordinates
+ */
+export function getPathSubpaths(
+  element: SVGElement,
+  options: PathFlattenOptions = DEFAULT_PATH_FLATTEN_OPTIONS,
+): PathSubpath[] {
+  if (element.tagName.toLowerCase() !== "path") {
+    throw new Error("Element is not a path");
+  }
+
+  return flattenPathData(element.getAttribute("d") || "", options);
+}
+
 export function getCircleData(element: SVGElement): {
   cx: number;
   cy: number;
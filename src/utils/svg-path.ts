@@ -0,0 +1,548 @@
+/**
+ * SVG path data parsing and flattening
+ *
+ * Supports every path command (M L H V C S Q T A Z, absolute and relative).
+ * Curves and arcs are flattened to line segments so paths can become
+ * polygon bodies.
+ */
+
+export interface PathPoint {
+  x: number;
+  y: number;
+}
+
+export interface PathCommand {
+  /** Command letter as written, lowercase for relative commands */
+  type: string;
+  args: number[];
+}
+
+export interface PathSubpath {
+  points: PathPoint[];
+  /** Ended with Z, the last point connects back to the first */
+  closed: boolean;
+}
+
+/** Which enclosed areas a fill paints, as the SVG fill-rule property */
+export type FillRule = "nonzero" | "evenodd";
+
+/** Area painted by a fill, an outline with the holes cut out of it */
+export interface PathRegion {
+  outline: PathPoint[];
+  holes: PathPoint[][];
+}
+
+export interface PathFlattenOptions {
+  /** Target length of the segments a curve is split into, in path units */
+  maxSegmentLength: number;
+  /** Upper bound of segments per curve or arc */
+  maxCurveSegments: number;
+}
+
+/**
+ * Sized for game units, paths drawn at another scale divide
+ * maxSegmentLength by it
+ */
+export const DEFAULT_PATH_FLATTEN_OPTIONS: PathFlattenOptions = {
+  maxSegmentLength: 8,
+  maxCurveSegments: 64,
+};
+
+const PATH_ARG_COUNTS: Record<string, number> = {
+  m: 2,
+  l: 2,
+  h: 1,
+  v: 1,
+  c: 6,
+  s: 4,
+  q: 4,
+  t: 2,
+  a: 7,
+  z: 0,
+};
+
+const NUMBER_PATTERN = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const SEPARATOR_PATTERN = /[\s,]/;
+const NUMBER_START_PATTERN = /[\d.+-]/;
+
+/**
+ * Parse path data into commands
+ * Repeated argument groups become separate commands, following the
+ * implicit lineto rule after a moveto. Parsing stops at the first error,
+ * keeping the commands before it.
+ */
+export function parsePathData(d: string): PathCommand[] {
+  const commands: PathCommand[] = [];
+  let index = 0;
+
+  const skipSeparators = () => {
+    while (index < d.length && SEPARATOR_PATTERN.test(d[index])) {
+      index++;
+    }
+  };
+
+  const readNumber = (): number => {
+    skipSeparators();
+    NUMBER_PATTERN.lastIndex = index;
+    const match = NUMBER_PATTERN.exec(d);
+    if (!match) {
+      throw new Error(`Expected a number in path data at ${index}`);
+    }
+    index += match[0].length;
+    return parseFloat(match[0]);
+  };
+
+  // Arc flags are a single digit and may be written without separators
+  const readFlag = (): number => {
+    skipSeparators();
+    const flag = d[index];
+    if (flag !== "0" && flag !== "1") {
+      throw new Error(`Expected an arc flag in path data at ${index}`);
+    }
+    index++;
+    return flag === "1" ? 1 : 0;
+  };
+
+  // Renderers draw a path up to its first error, so keep what was read
+  try {
+    skipSeparators();
+    while (index < d.length) {
+      const letter = d[index];
+      const argCount = PATH_ARG_COUNTS[letter.toLowerCase()];
+      if (argCount === undefined) {
+        throw new Error(`Invalid path command "${letter}" at ${index}`);
+      }
+      if (commands.length === 0 && letter.toLowerCase() !== "m") {
+        throw new Error("Path data must start with a moveto command");
+      }
+      index++;
+
+      let type = letter;
+      do {
+        const args: number[] = [];
+        for (let arg = 0; arg < argCount; arg++) {
+          const isFlag = type.toLowerCase() === "a" && (arg === 3 || arg === 4);
+          args.push(isFlag ? readFlag() : readNumber());
+        }
+        commands.push({ type, args });
+
+        if (type === "M") type = "L";
+        if (type === "m") type = "l";
+        skipSeparators();
+      } while (
+        argCount > 0 &&
+        index < d.length &&
+        NUMBER_START_PATTERN.test(d[index])
+      );
+    }
+  } catch (error) {
+    console.warn(
+      "Ignoring the rest of invalid path data:",
+      error instanceof Error ? error.message : error,
+    );
+  }
+
+  return commands;
+}
+
+function distance(from: PathPoint, to: PathPoint): number {
+  return Math.hypot(to.x - from.x, to.y - from.y);
+}
+
+function getSegmentCount(length: number, options: PathFlattenOptions): number {
+  const segments = Math.ceil(length / options.maxSegmentLength);
+  return Math.min(Math.max(segments, 1), options.maxCurveSegments);
+}
+
+/**
+ * Points along a quadratic or cubic bezier, excluding the start point
+ */
+function flattenBezier(
+  controlPoints: PathPoint[],
+  options: PathFlattenOptions,
+): PathPoint[] {
+  // The control polygon is never shorter than the curve
+  let length = 0;
+  for (let i = 1; i < controlPoints.length; i++) {
+    length += distance(controlPoints[i - 1], controlPoints[i]);
+  }
+  const segments = getSegmentCount(length, options);
+
+  const points: PathPoint[] = [];
+  for (let segment = 1; segment <= segments; segment++) {
+    const t = segment / segments;
+    // De Casteljau
+    let level = controlPoints;
+    while (level.length > 1) {
+      const next: PathPoint[] = [];
+      for (let i = 1; i < level.length; i++) {
+        next.push({
+          x: level[i - 1].x + (level[i].x - level[i - 1].x) * t,
+          y: level[i - 1].y + (level[i].y - level[i - 1].y) * t,
+        });
+      }
+      level = next;
+    }
+    points.push(level[0]);
+  }
+
+  return points;
+}
+
+function vectorAngle(ux: number, uy: number, vx: number, vy: number): number {
+  return Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+}
+
+/**
+ * Points along an elliptical arc, excluding the start point
+ * Uses the endpoint to center conversion from the SVG specification
+ */
+function flattenArc(
+  from: PathPoint,
+  args: number[],
+  to: PathPoint,
+  options: PathFlattenOptions,
+): PathPoint[] {
+  const [radiusX, radiusY, rotation, largeArc, sweep] = args;
+  if (from.x === to.x && from.y === to.y) {
+    return [];
+  }
+
+  let rx = Math.abs(radiusX);
+  let ry = Math.abs(radiusY);
+  if (rx === 0 || ry === 0) {
+    return [to];
+  }
+
+  const phi = (rotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  // Scale up radii that are too small to reach the end point
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  let coefficient = Math.sqrt(Math.max(numerator / denominator, 0));
+  if (largeArc === sweep) {
+    coefficient = -coefficient;
+  }
+
+  const centerX1 = (coefficient * rx * y1) / ry;
+  const centerY1 = (-coefficient * ry * x1) / rx;
+  const centerX = cos * centerX1 - sin * centerY1 + (from.x + to.x) / 2;
+  const centerY = sin * centerX1 + cos * centerY1 + (from.y + to.y) / 2;
+
+  const startAngle = vectorAngle(
+    1,
+    0,
+    (x1 - centerX1) / rx,
+    (y1 - centerY1) / ry,
+  );
+  let sweepAngle = vectorAngle(
+    (x1 - centerX1) / rx,
+    (y1 - centerY1) / ry,
+    (-x1 - centerX1) / rx,
+    (-y1 - centerY1) / ry,
+  );
+  if (!sweep && sweepAngle > 0) {
+    sweepAngle -= Math.PI * 2;
+  } else if (sweep && sweepAngle < 0) {
+    sweepAngle += Math.PI * 2;
+  }
+
+  const segments = getSegmentCount(
+    Math.abs(sweepAngle) * Math.max(rx, ry),
+    options,
+  );
+
+  const points: PathPoint[] = [];
+  for (let segment = 1; segment < segments; segment++) {
+    const angle = startAngle + (sweepAngle * segment) / segments;
+    const x = rx * Math.cos(angle);
+    const y = ry * Math.sin(angle);
+    points.push({
+      x: centerX + cos * x - sin * y,
+      y: centerY + sin * x + cos * y,
+    });
+  }
+  // End exactly on the requested point
+  points.push(to);
+
+  return points;
+}
+
+/**
+ * Flatten parsed commands into subpaths of absolute points
+ */
+export function flattenPathCommands(
+  commands: PathCommand[],
+  options: PathFlattenOptions = DEFAULT_PATH_FLATTEN_OPTIONS,
+): PathSubpath[] {
+  const subpaths: PathSubpath[] = [];
+  let subpath: PathSubpath | null = null;
+  let current: PathPoint = { x: 0, y: 0 };
+  let start: PathPoint = { x: 0, y: 0 };
+  // Last control point, reflected by the S and T shorthands
+  let lastCubicControl: PathPoint | null = null;
+  let lastQuadraticControl: PathPoint | null = null;
+
+  const addPoints = (points: PathPoint[]) => {
+    if (!subpath) {
+      // Drawing after Z starts a new subpath at the closing point
+      subpath = { points: [{ ...current }], closed: false };
+      subpaths.push(subpath);
+    }
+    subpath.points.push(...points);
+  };
+
+  commands.forEach(({ type, args }) => {
+    const command = type.toLowerCase();
+    const relative = type === command;
+    const origin = relative ? current : { x: 0, y: 0 };
+    const point = (index: number): PathPoint => ({
+      x: origin.x + args[index],
+      y: origin.y + args[index + 1],
+    });
+
+    let cubicControl: PathPoint | null = null;
+    let quadraticControl: PathPoint | null = null;
+    let end: PathPoint;
+
+    switch (command) {
+      case "m":
+        end = point(0);
+        subpath = { points: [end], closed: false };
+        subpaths.push(subpath);
+        start = end;
+        break;
+
+      case "l":
+        end = point(0);
+        addPoints([end]);
+        break;
+
+      case "h":
+        end = { x: origin.x + args[0], y: current.y };
+        addPoints([end]);
+        break;
+
+      case "v":
+        end = { x: current.x, y: origin.y + args[0] };
+        addPoints([end]);
+        break;
+
+      case "c":
+      case "s": {
+        const control1: PathPoint =
+          command === "c"
+            ? point(0)
+            : lastCubicControl
+              ? {
+                  x: 2 * current.x - lastCubicControl.x,
+                  y: 2 * current.y - lastCubicControl.y,
+                }
+              : current;
+        cubicControl = command === "c" ? point(2) : point(0);
+        end = command === "c" ? point(4) : point(2);
+        addPoints(
+          flattenBezier([current, control1, cubicControl, end], options),
+        );
+        break;
+      }
+
+      case "q":
+      case "t":
+        quadraticControl =
+          command === "q"
+            ? point(0)
+            : lastQuadraticControl
+              ? {
+                  x: 2 * current.x - lastQuadraticControl.x,
+                  y: 2 * current.y - lastQuadraticControl.y,
+                }
+              : current;
+        end = command === "q" ? point(2) : point(0);
+        addPoints(flattenBezier([current, quadraticControl, end], options));
+        break;
+
+      case "a":
+        end = point(5);
+        addPoints(flattenArc(current, args, end, options));
+        break;
+
+      default:
+        // Z: close and continue from the subpath start
+        if (subpath) {
+          subpath.closed = true;
+        }
+        subpath = null;
+        end = start;
+        break;
+    }
+
+    current = end;
+    lastCubicControl = cubicControl;
+    lastQuadraticControl = quadraticControl;
+  });
+
+  // A closing point that repeats the first one adds nothing
+  subpaths.forEach((path) => {
+    const first = path.points[0];
+    const last = path.points[path.points.length - 1];
+    if (path.closed && path.points.length > 1 && distance(first, last) < 1e-9) {
+      path.points.pop();
+    }
+  });
+
+  return subpaths;
+}
+
+/**
+ * Parse and flatten path data in one go
+ */
+export function flattenPathData(
+  d: string,
+  options: PathFlattenOptions = DEFAULT_PATH_FLATTEN_OPTIONS,
+): PathSubpath[] {
+  return flattenPathCommands(parsePathData(d), options);
+}
+
+/**
+ * Axis aligned bounds of flattened subpaths
+ */
+export function getSubpathBounds(subpaths: PathSubpath[]): {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+} {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  subpaths.forEach((subpath) => {
+    subpath.points.forEach((point) => {
+      minX = Math.min(minX, point.x);
+      minY = Math.min(minY, point.y);
+      maxX = Math.max(maxX, point.x);
+      maxY = Math.max(maxY, point.y);
+    });
+  });
+
+  if (minX === Infinity) {
+    return { x: 0, y: 0, width: 0, height: 0 };
+  }
+
+  return {
+    x: minX,
+    y: minY,
+    width: maxX - minX,
+    height: maxY - minY,
+  };
+}
+
+/**
+ * Twice the signed area of an outline, its sign gives its direction
+ */
+function getSignedArea(points: PathPoint[]): number {
+  let area = 0;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    area += (points[j].x - points[i].x) * (points[j].y + points[i].y);
+  }
+  return area;
+}
+
+function isPointInOutline(point: PathPoint, outline: PathPoint[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+    const a = outline[i];
+    const b = outline[j];
+    if (
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Areas painted by filling subpaths with a fill rule
+ * Every subpath is closed, as filling does. Subpaths are assumed not to
+ * cross each other: one nested in another either cuts a hole in it or adds
+ * nothing, depending on the winding (nonzero) or nesting depth (evenodd).
+ * A subpath filled again inside a hole is a region of its own.
+ */
+export function getPathRegions(
+  subpaths: PathSubpath[],
+  fillRule: FillRule,
+): PathRegion[] {
+  const outlines = subpaths
+    .map((subpath) => subpath.points)
+    .filter((points) => points.length >= 3 && getSignedArea(points) !== 0);
+
+  // With the nonzero rule a subpath adds its direction to the winding
+  // number of the points it encloses, with evenodd it always adds one
+  const windings = outlines.map((points) =>
+    fillRule === "nonzero" ? Math.sign(getSignedArea(points)) : 1,
+  );
+  const isFilled = (winding: number) =>
+    fillRule === "nonzero" ? winding !== 0 : winding % 2 !== 0;
+
+  const containers = outlines.map((points, index) =>
+    outlines
+      .map((_, other) => other)
+      .filter(
+        (other) =>
+          other !== index && isPointInOutline(points[0], outlines[other]),
+      ),
+  );
+
+  // Whether each subpath starts the fill (outline) or stops it (hole)
+  const kinds = outlines.map((_, index) => {
+    const outside = containers[index].reduce(
+      (winding, other) => winding + windings[other],
+      0,
+    );
+    const filledOutside = isFilled(outside);
+    const filledInside = isFilled(outside + windings[index]);
+
+    if (filledInside === filledOutside) return null;
+    return filledInside ? "outline" : "hole";
+  });
+
+  const regions = new Map<number, PathRegion>();
+  outlines.forEach((points, index) => {
+    if (kinds[index] === "outline") {
+      regions.set(index, { outline: points, holes: [] });
+    }
+  });
+
+  outlines.forEach((points, index) => {
+    if (kinds[index] !== "hole") return;
+
+    // The hole belongs to the innermost outline around it
+    const owner = containers[index]
+      .filter((other) => kinds[other] === "outline")
+      .sort((a, b) => containers[b].length - containers[a].length)[0];
+    if (owner !== undefined) {
+      regions.get(owner)?.holes.push(points);
+    }
+  });
+
+  return [...regions.values()];
+}
@@ -0,0 +1,302 @@
+/**
+ * SVG transform handling
+ *
+ * Matrices use the SVG layout [a c e; b d f; 0 0 1], mapping a point to
+ * (a * x + c * y + e, b * x + d * y + f).
+ */
+
+export interface Matrix {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+export interface ViewBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const IDENTITY_MATRIX: Matrix = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+/**
+ * Matrix applying `second` first, then `first` (first × second)
+ */
+export function multiplyMatrices(first: Matrix, second: Matrix): Matrix {
+  return {
+    a: first.a * second.a + first.c * second.b,
+    b: first.b * second.a + first.d * second.b,
+    c: first.a * second.c + first.c * second.d,
+    d: first.b * second.c + first.d * second.d,
+    e: first.a * second.e + first.c * second.f + first.e,
+    f: first.b * second.e + first.d * second.f + first.f,
+  };
+}
+
+export function applyMatrix(
+  matrix: Matrix,
+  point: { x: number; y: number },
+): { x: number; y: number } {
+  return {
+    x: matrix.a * point.x + matrix.c * point.y + matrix.e,
+    y: matrix.b * point.x + matrix.d * point.y + matrix.f,
+  };
+}
+
+export function translateMatrix(x: number, y: number): Matrix {
+  return { a: 1, b: 0, c: 0, d: 1, e: x, f: y };
+}
+
+export function scaleMatrix(x: number, y: number = x): Matrix {
+  return { a: x, b: 0, c: 0, d: y, e: 0, f: 0 };
+}
+
+export function rotateMatrix(degrees: number, cx = 0, cy = 0): Matrix {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const rotation = { a: cos, b: sin, c: -sin, d: cos, e: 0, f: 0 };
+
+  if (cx === 0 && cy === 0) {
+    return rotation;
+  }
+
+  return multiplyMatrices(
+    translateMatrix(cx, cy),
+    multiplyMatrices(rotation, translateMatrix(-cx, -cy)),
+  );
+}
+
+const TRANSFORM_PATTERN =
+  /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+
+/**
+ * Parse a transform attribute, e.g. "translate(10 20) rotate(45)"
+ * Transforms apply right to left, as in the SVG specification
+ */
+export function parseTransform(transform: string | null): Matrix {
+  if (!transform) {
+    return IDENTITY_MATRIX;
+  }
+
+  let matrix = IDENTITY_MATRIX;
+  for (const match of transform.matchAll(TRANSFORM_PATTERN)) {
+    const [, type, rawArgs] = match;
+    const args = rawArgs
+      .trim()
+      .split(/[\s,]+/)
+      .filter((value) => value !== "")
+      .map(parseFloat);
+
+    let next: Matrix;
+    switch (type) {
+      case "matrix":
+        if (args.length !== 6) {
+          throw new Error(`Invalid transform: ${match[0]}`);
+        }
+        next = {
+          a: args[0],
+          b: args[1],
+          c: args[2],
+          d: args[3],
+          e: args[4],
+          f: args[5],
+        };
+        break;
+      case "translate":
+        next = translateMatrix(args[0] ?? 0, args[1] ?? 0);
+        break;
+      case "scale":
+        next = scaleMatrix(args[0] ?? 1, args[1] ?? args[0] ?? 1);
+        break;
+      case "rotate":
+        next = rotateMatrix(args[0] ?? 0, args[1] ?? 0, args[2] ?? 0);
+        break;
+      case "skewX":
+        next = {
+          ...IDENTITY_MATRIX,
+          c: Math.tan(((args[0] ?? 0) * Math.PI) / 180),
+        };
+        break;
+      default:
+        next = {
+          ...IDENTITY_MATRIX,
+          b: Math.tan(((args[0] ?? 0) * Math.PI) / 180),
+        };
+        break;
+    }
+
+    matrix = multiplyMatrices(matrix, next);
+  }
+
+  return matrix;
+}
+
+export function parseViewBox(viewBox: string | null): ViewBox | null {
+  if (!viewBox) {
+    return null;
+  }
+
+  const values = viewBox
+    .trim()
+    .split(/[\s,]+/)
+    .map(parseFloat);
+  if (values.length !== 4 || values.some((value) => isNaN(value))) {
+    return null;
+  }
+
+  const [x, y, width, height] = values;
+  if (width <= 0 || height <= 0) {
+    return null;
+  }
+
+  return { x, y, width, height };
+}
+
+/**
+ * Mapping from viewBox to viewport coordinates, following
+ * preserveAspectRatio (default "xMidYMid meet")
+ */
+export function getViewBoxMatrix(
+  viewBox: ViewBox,
+  viewport: { width: number; height: number },
+  preserveAspectRatio: string | null = null,
+): Matrix {
+  const [align = "xMidYMid", meetOrSlice = "meet"] = (preserveAspectRatio || "")
+    .trim()
+    .split(/\s+/)
+    .filter((value) => value !== "");
+
+  let scaleX = viewport.width / viewBox.width;
+  let scaleY = viewport.height / viewBox.height;
+
+  if (align === "none") {
+    return multiplyMatrices(
+      scaleMatrix(scaleX, scaleY),
+      translateMatrix(-viewBox.x, -viewBox.y),
+    );
+  }
+
+  const scale =
+    meetOrSlice === "slice"
+      ? Math.max(scaleX, scaleY)
+      : Math.min(scaleX, scaleY);
+  scaleX = scale;
+  scaleY = scale;
+
+  // Align the scaled viewBox inside the viewport
+  const extraX = viewport.width - viewBox.width * scale;
+  const extraY = viewport.height - viewBox.height * scale;
+  const alignX = align.includes("xMid") ? 0.5 : align.includes("xMax") ? 1 : 0;
+  const alignY = align.includes("YMid") ? 0.5 : align.includes("YMax") ? 1 : 0;
+
+  return multiplyMatrices(
+    translateMatrix(extraX * alignX, extraY * alignY),
+    multiplyMatrices(
+      scaleMatrix(scaleX, scaleY),
+      translateMatrix(-viewBox.x, -viewBox.y),
+    ),
+  );
+}
+
+/**
+ * Viewport size of an <svg> element, from width/height or its viewBox
+ */
+export function getViewportSize(svgElement: Element): {
+  width: number;
+  height: number;
+} {
+  const viewBox = parseViewBox(svgElement.getAttribute("viewBox"));
+  const readLength = (name: string, fallback: number | undefined) => {
+    const value = svgElement.getAttribute(name);
+    // Percentages are relative to the page, only the viewBox is meaningful
+    if (!value || value.trim().endsWith("%")) {
+      return fallback ?? 0;
+    }
+    return parseFloat(value);
+  };
+
+  return {
+    width: readLength("width", viewBox?.width),
+    height: readLength("height", viewBox?.height),
+  };
+}
+
+/**
+ * Transform from an <svg> element's content to its parent's coordinates
+ */
+function getSVGElementMatrix(svgElement: Element): Matrix {
+  let matrix = parseTransform(svgElement.getAttribute("transform"));
+
+  // Nested <svg> elements are placed at their x/y
+  if (svgElement.parentElement) {
+    const x = parseFloat(svgElement.getAttribute("x") || "0");
+    const y = parseFloat(svgElement.getAttribute("y") || "0");
+    matrix = multiplyMatrices(matrix, translateMatrix(x, y));
+  }
+
+  const viewBox = parseViewBox(svgElement.getAttribute("viewBox"));
+  if (viewBox) {
+    matrix = multiplyMatrices(
+      matrix,
+      getViewBoxMatrix(
+        viewBox,
+        getViewportSize(svgElement),
+        svgElement.getAttribute("preserveAspectRatio"),
+      ),
+    );
+  }
+
+  return matrix;
+}
+
+/**
+ * Cumulative transform from an element's own coordinates to the root
+ * viewport: its transform, every ancestor's and the viewBox mapping
+ */
+export function getElementMatrix(element: Element): Matrix {
+  let matrix = IDENTITY_MATRIX;
+  let node: Element | null = element;
+
+  while (node) {
+    const local =
+      node.tagName.toLowerCase() === "svg"
+        ? getSVGElementMatrix(node)
+        : parseTransform(node.getAttribute("transform"));
+    matrix = multiplyMatrices(local, matrix);
+    node = node.parentElement;
+  }
+
+  return matrix;
+}
+
+/**
+ * Whether the matrix keeps rectangles axis aligned (no rotation or skew)
+ */
+export function isAxisAligned(matrix: Matrix): boolean {
+  return matrix.b === 0 && matrix.c === 0;
+}
+
+/**
+ * Whether the matrix keeps circles round (uniform scale, rotation, flips)
+ */
+export function isSimilarity(matrix: Matrix, tolerance = 1e-9): boolean {
+  const rotates =
+    Math.abs(matrix.a - matrix.d) < tolerance &&
+    Math.abs(matrix.b + matrix.c) < tolerance;
+  const flips =
+    Math.abs(matrix.a + matrix.d) < tolerance &&
+    Math.abs(matrix.b - matrix.c) < tolerance;
+  return rotates || flips;
+}
+
+/**
+ * Average linear scale of the matrix, used for stroke widths and radii
+ */
+export function getMatrixScale(matrix: Matrix): number {
+  return Math.sqrt(Math.abs(matrix.a * matrix.d - matrix.b * matrix.c));
+}
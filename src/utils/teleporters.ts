@@ -0,0 +1,48 @@
+import { TELEPORTERS } from "./balance";
+import { Vector } from "./sling-physics";
+import { TeleporterExit } from "./track-types";
+
+export interface TeleporterConfig {
+  /** Time after a teleport during which entrances do nothing (ms) */
+  cooldown: number;
+}
+
+/**
+ * Get the teleporter configuration from balance settings
+ */
+export function getTeleporterConfig(): TeleporterConfig {
+  return {
+    cooldown: TELEPORTERS.COOLDOWN,
+  };
+}
+
+/**
+ * Whether entrances work again at a simulation time
+ * The cooldown keeps a puck landing on another entrance, such as the way
+ * back of a two-way pair, from bouncing between them.
+ */
+export function isTeleporterReady(
+  lastTeleportTime: number | null,
+  time: number,
+  config: TeleporterConfig,
+): boolean {
+  return (
+    lastTeleportTime === null || time - lastTeleportTime >= config.cooldown
+  );
+}
+
+/**
+ * Velocity of the puck coming out of an exit, as fast as it went in
+ * Exits with a direction send it along it, others keep its heading.
+ */
+export function getExitVelocity(
+  velocity: Vector,
+  exit: TeleporterExit,
+): Vector {
+  if (!exit.direction) {
+    return { x: velocity.x, y: velocity.y };
+  }
+
+  const speed = Math.hypot(velocity.x, velocity.y);
+  return { x: exit.direction.x * speed, y: exit.direction.y * speed };
+}
@@ -0,0 +1,150 @@
+import {
+  GamePoint,
+  GamePolygon,
+  GameShape,
+  TrackArea,
+  TrackBounds,
+  isGameCircle,
+  isGameCompound,
+  isGameEllipse,
+  isGamePolygon,
+} from "./track-types";
+import { createSpatialGrid, querySpatialGrid } from "./spatial-grid";
+
+/** Grid cell size used to index track area shapes, in game units */
+export const TRACK_AREA_CELL_SIZE = 128;
+
+function getPolygonBounds(polygon: GamePolygon): TrackBounds {
+  const xs = polygon.vertices.map((vertex) => vertex.x);
+  const ys = polygon.vertices.map((vertex) => vertex.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+export function getShapeBounds(shape: GameShape): TrackBounds {
+  if (isGameCircle(shape)) {
+    return {
+      x: shape.x - shape.radius,
+      y: shape.y - shape.radius,
+      width: shape.radius * 2,
+      height: shape.radius * 2,
+    };
+  }
+  if (isGameEllipse(shape)) {
+    return {
+      x: shape.x - shape.radiusX,
+      y: shape.y - shape.radiusY,
+      width: shape.radiusX * 2,
+      height: shape.radiusY * 2,
+    };
+  }
+  if (isGamePolygon(shape)) {
+    return getPolygonBounds(shape);
+  }
+  if (isGameCompound(shape)) {
+    return getPolygonBounds({
+      vertices: shape.parts.flatMap((part) => part.vertices),
+    });
+  }
+
+  return shape;
+}
+
+/**
+ * Even-odd ray casting, works for concave outlines
+ */
+function isPointInPolygon(point: GamePoint, vertices: GamePoint[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    if (
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+function isPointInGamePolygon(point: GamePoint, polygon: GamePolygon): boolean {
+  return (
+    isPointInPolygon(point, polygon.vertices) &&
+    !polygon.holes?.some((hole) => isPointInPolygon(point, hole))
+  );
+}
+
+/**
+ * Whether the point is inside the shape and out of its holes, edges count
+ * as inside for rectangles, circles and ellipses
+ */
+export function isPointInShape(point: GamePoint, shape: GameShape): boolean {
+  if (isGameCircle(shape)) {
+    return (
+      (point.x - shape.x) ** 2 + (point.y - shape.y) ** 2 <= shape.radius ** 2
+    );
+  }
+  if (isGameEllipse(shape)) {
+    if (shape.radiusX <= 0 || shape.radiusY <= 0) return false;
+    return (
+      ((point.x - shape.x) / shape.radiusX) ** 2 +
+        ((point.y - shape.y) / shape.radiusY) ** 2 <=
+      1
+    );
+  }
+  if (isGamePolygon(shape)) {
+    return isPointInGamePolygon(point, shape);
+  }
+  if (isGameCompound(shape)) {
+    return shape.parts.some((part) => isPointInGamePolygon(point, part));
+  }
+
+  return (
+    point.x >= shape.x &&
+    point.x <= shape.x + shape.width &&
+    point.y >= shape.y &&
+    point.y <= shape.y + shape.height
+  );
+}
+
+export function createTrackArea(
+  shapes: GameShape[],
+  holes: GameShape[] = [],
+  cellSize: number = TRACK_AREA_CELL_SIZE,
+): TrackArea {
+  return {
+    shapes,
+    grid: createSpatialGrid(shapes.map(getShapeBounds), cellSize),
+    holes,
+    holeGrid: createSpatialGrid(holes.map(getShapeBounds), cellSize),
+  };
+}
+
+/**
+ * Whether the point is inside any of the out-of-bounds holes
+ */
+export function isPointInHole(trackArea: TrackArea, point: GamePoint): boolean {
+  return querySpatialGrid(trackArea.holeGrid, point).some((index) =>
+    isPointInShape(point, trackArea.holes[index]),
+  );
+}
+
+/**
+ * Whether the point is inside any of the track area shapes and outside
+ * every hole
+ */
+export function isPointInTrackArea(
+  trackArea: TrackArea,
+  point: GamePoint,
+): boolean {
+  return (
+    querySpatialGrid(trackArea.grid, point).some((index) =>
+      isPointInShape(point, trackArea.shapes[index]),
+    ) && !isPointInHole(trackArea, point)
+  );
+}
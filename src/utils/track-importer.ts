@@ -3,30 +3,55 @@ import {
   GameConfig,
   ValidationResult,
   TrackMetadata,
+  MovingObstacle,
+  GameShape,
+  GamePolygon,
+  RaceLine,
+  SurfaceZoneType,
+  TeleporterExit,
+  Material,
+  isGameCircle,
+  isGameEllipse,
+  isGamePolygon,
+  isGameCompound,
 } from "./track-types";
 import {
   parseSVGText,
   extractTrackElements,
   getSVGDimensions,
   getSVGWorldSize,
+  getSVGLapCount,
+  getSVGRespawnMode,
 } from "./svg-parser";
 import {
   calculateScalingFactor,
   processTrackArea,
+  processTrackAreaShapes,
+  processOutOfBoundsZones,
   processWalls,
   processObstacles,
+  processCheckpoints,
+  processSurfaceZones,
+  processTeleporters,
   processStartFinishLines,
   calculateStartPosition,
   calculateFinishPosition,
   calculateWorldBounds,
+  getPolygonTriangles,
 } from "./track-transformer";
 import {
   createWallBodies,
   createObstacleBodies,
+  createCheckpointBodies,
+  createSurfaceZoneBodies,
+  createTeleporterBodies,
+  getBodyMaterial,
   createInvisibleBoundary,
   addBodiesWithPhysics,
   removeBodiesFromPhysics,
 } from "./matter-factory";
+import { hashString } from "./hash";
+import { createTrackArea, getShapeBounds } from "./track-area";
 
 export function importTrack(
   svgText: string,
@@ -49,8 +74,15 @@ export function importTrack(
     }
 
     const trackBounds = processTrackArea(rawElements.trackAreas, scaling);
+    const trackArea = createTrackArea(
+      processTrackAreaShapes(rawElements.trackAreas, scaling),
+      processOutOfBoundsZones(rawElements.outOfBounds, scaling),
+    );
     const walls = processWalls(rawElements.walls, scaling);
     const obstacles = processObstacles(rawElements.obstacles, scaling);
+    const checkpoints = processCheckpoints(rawElements.checkpoints, scaling);
+    const surfaceZones = processSurfaceZones(rawElements, scaling);
+    const teleporters = processTeleporters(rawElements, scaling);
     const markers = processStartFinishLines(
       rawElements.startLines,
       rawElements.finishLines,
@@ -59,12 +91,23 @@ export function importTrack(
 
     const wallBodies = createWallBodies(walls);
     const obstacleBodies = createObstacleBodies(obstacles);
+    const movingObstacles: MovingObstacle[] = obstacles
+      .map((obstacle, index) => ({
+        body: obstacleBodies[index],
+        motion: obstacle.motion,
+        home: { ...obstacleBodies[index].position },
+      }))
+      .filter(({ motion }) => motion.length > 0);
+    const checkpointBodies = createCheckpointBodies(checkpoints);
+    const zoneBodies = createSurfaceZoneBodies(surfaceZones);
+    const teleporterBodies = createTeleporterBodies(teleporters);
     const boundaryBodies = createInvisibleBoundary(trackBounds);
 
     const startPosition = calculateStartPosition(markers.startLine);
     const finishPosition = calculateFinishPosition(markers.finishLine);
 
     const metadata: TrackMetadata = {
+      trackHash: hashString(svgText),
       originalSVGSize: svgDimensions,
       scaleFactor: scaling.scaleX,
       elementCounts: {
@@ -76,11 +119,21 @@ export function importTrack(
 
     return {
       bounds: trackBounds,
+      trackArea,
       walls: wallBodies,
       obstacles: obstacleBodies,
+      movingObstacles,
+      checkpoints: checkpointBodies,
+      surfaceZones,
+      zoneBodies,
+      teleporters,
+      teleporterBodies,
       boundaries: boundaryBodies,
       startPosition,
       finishPosition,
+      markers,
+      respawnMode: getSVGRespawnMode(doc),
+      laps: getSVGLapCount(doc),
       metadata,
     };
   } catch (error) {
@@ -102,7 +155,8 @@ export function validateTrackData(track: ImportedTrack): ValidationResult {
     warnings.push("No start line found in track");
   }
 
-  if (!track.finishPosition) {
+  // Circuits may use their start line as the finish
+  if (!track.finishPosition && !(track.laps > 1 && track.startPosition)) {
     warnings.push("No finish line found in track");
   }
 
@@ -125,33 +179,49 @@ export function validateTrackData(track: ImportedTrack): ValidationResult {
   };
 }
 
+/**
+ * Add the track's visuals and bodies to a scene
+ * Returns the graphics of track.movingObstacles, in the same order, drawn
+ * around their body's position for the scene to move them along.
+ */
 export function addTrackToScene(
   track: ImportedTrack,
   scene: Phaser.Scene,
-): void {
+): Phaser.GameObjects.Graphics[] {
   if (!scene.matter || !scene.matter.world) {
     throw new Error("Scene does not have Matter.js physics enabled");
   }
 
   // Add visual elements first (background)
-  createTrackVisuals(track, scene);
+  const movingGraphics = createTrackVisuals(track, scene);
 
   // Then add physics bodies
   addBodiesWithPhysics(scene, track.walls);
   addBodiesWithPhysics(scene, track.obstacles);
+  addBodiesWithPhysics(scene, track.checkpoints);
+  addBodiesWithPhysics(scene, track.zoneBodies);
+  addBodiesWithPhysics(scene, track.teleporterBodies);
   addBodiesWithPhysics(scene, track.boundaries);
 
   console.log("Track added to scene:", {
     walls: track.walls.length,
     obstacles: track.obstacles.length,
+    checkpoints: track.checkpoints.length,
+    surfaceZones: track.surfaceZones.length,
+    teleporters: track.teleporters.length,
     boundaries: track.boundaries.length,
     bounds: track.bounds,
     startPosition: track.startPosition,
     finishPosition: track.finishPosition,
   });
+
+  return movingGraphics;
 }
 
-function createTrackVisuals(track: ImportedTrack, scene: Phaser.Scene): void {
+function createTrackVisuals(
+  track: ImportedTrack,
+  scene: Phaser.Scene,
+): Phaser.GameObjects.Graphics[] {
   // Calculate world bounds for background with extra padding
   const worldBounds = calculateWorldBounds(track.bounds, 500);
 
@@ -166,86 +236,239 @@ function createTrackVisuals(track: ImportedTrack, scene: Phaser.Scene): void {
   );
   outOfBoundsGraphics.setDepth(-2);
 
-  // Create track area background (white)
+  // Create track area background (white), following the real outlines
   const trackGraphics = scene.add.graphics();
   trackGraphics.fillStyle(0xffffff); // White
-  trackGraphics.fillRect(
-    track.bounds.x,
-    track.bounds.y,
-    track.bounds.width,
-    track.bounds.height,
-  );
+  track.trackArea.shapes.forEach((shape) => fillShape(trackGraphics, shape));
+  // Out-of-bounds holes are painted over the track
+  trackGraphics.fillStyle(0x87ceeb); // Sky blue
+  track.trackArea.holes.forEach((shape) => fillShape(trackGraphics, shape));
   trackGraphics.setDepth(-1);
 
-  // Create wall visuals (black rectangles)
+  // Create wall visuals (black unless made of a special material)
   track.walls.forEach((wall) => {
     const wallGraphics = scene.add.graphics();
-    wallGraphics.fillStyle(0x000000); // Black
-    // Extract position and size from Matter.js body
-    const bounds = wall.bounds;
-    wallGraphics.fillRect(
-      bounds.min.x,
-      bounds.min.y,
-      bounds.max.x - bounds.min.x,
-      bounds.max.y - bounds.min.y,
-    );
+    wallGraphics.fillStyle(getMaterialColor(wall, 0x000000)); // Black
+    fillBody(wallGraphics, wall);
     wallGraphics.setDepth(1);
   });
 
-  // Create obstacle visuals (purple)
+  // Create obstacle visuals (purple unless made of a special material),
+  // moving ones in their body's own frame
+  const movingBodies = track.movingObstacles.map(({ body }) => body);
+  const movingGraphics: Phaser.GameObjects.Graphics[] = [];
   track.obstacles.forEach((obstacle) => {
     const obstacleGraphics = scene.add.graphics();
-    obstacleGraphics.fillStyle(0x800080); // Purple
-
-    // Use type assertion since we know obstacle is a Matter.js Body
-    const body = obstacle as any;
-
-    if (body.circleRadius) {
-      // Circle obstacle
-      obstacleGraphics.fillCircle(
-        body.position.x,
-        body.position.y,
-        body.circleRadius,
-      );
-    } else {
-      // Rectangle obstacle
-      const bounds = body.bounds;
-      obstacleGraphics.fillRect(
-        bounds.min.x,
-        bounds.min.y,
-        bounds.max.x - bounds.min.x,
-        bounds.max.y - bounds.min.y,
-      );
-    }
+    obstacleGraphics.fillStyle(getMaterialColor(obstacle, 0x800080)); // Purple
     obstacleGraphics.setDepth(1);
+
+    const movingIndex = movingBodies.indexOf(obstacle);
+    if (movingIndex === -1) {
+      fillBody(obstacleGraphics, obstacle);
+      return;
+    }
+
+    fillBody(obstacleGraphics, obstacle, true);
+    obstacleGraphics.setPosition(obstacle.position.x, obstacle.position.y);
+    obstacleGraphics.setRotation(obstacle.angle);
+    movingGraphics[movingIndex] = obstacleGraphics;
   });
 
-  // Create start/finish line visuals
-  if (track.startPosition) {
-    const startGraphics = scene.add.graphics();
-    startGraphics.lineStyle(10, 0x0000ff); // Blue
-    // Draw horizontal line for vertical tracks
-    startGraphics.lineBetween(
-      track.bounds.x,
-      track.startPosition.y,
-      track.bounds.x + track.bounds.width,
-      track.startPosition.y,
-    );
-    startGraphics.setDepth(2);
+  // Create checkpoint visuals (translucent orange)
+  track.checkpoints.forEach((checkpoint) => {
+    const checkpointGraphics = scene.add.graphics();
+    checkpointGraphics.fillStyle(0xffa500, 0.4); // Orange
+    fillBody(checkpointGraphics, checkpoint);
+    checkpointGraphics.setDepth(0);
+  });
+
+  // Create surface zone visuals, with an arrow on directed boost pads
+  track.surfaceZones.forEach((zone) => {
+    const zoneGraphics = scene.add.graphics();
+    const color = SURFACE_ZONE_FILL_COLORS[zone.type];
+    zoneGraphics.fillStyle(color, 0.6);
+    fillShape(zoneGraphics, zone.shape);
+    if (zone.direction) {
+      zoneGraphics.fillStyle(color);
+      drawArrow(zoneGraphics, getShapeCenter(zone.shape), zone.direction);
+    }
+    zoneGraphics.setDepth(0);
+  });
+
+  // Create teleporter visuals, each exit once with an arrow when it sets
+  // the puck's heading
+  const exits = new Set<TeleporterExit>();
+  track.teleporters.forEach((teleporter) => {
+    const entranceGraphics = scene.add.graphics();
+    entranceGraphics.fillStyle(0xff00ff, 0.6); // Magenta
+    fillShape(entranceGraphics, teleporter.shape);
+    entranceGraphics.setDepth(0);
+    exits.add(teleporter.exit);
+  });
+  exits.forEach((exit) => {
+    const exitGraphics = scene.add.graphics();
+    exitGraphics.fillStyle(0x8a2be2, 0.6); // Blue violet
+    fillShape(exitGraphics, exit.shape);
+    if (exit.direction) {
+      exitGraphics.fillStyle(0x8a2be2);
+      drawArrow(exitGraphics, exit.position, exit.direction);
+    }
+    exitGraphics.setDepth(0);
+  });
+
+  // Create start/finish line visuals where they actually are
+  if (track.markers.startSegment) {
+    drawRaceLine(scene, track.markers.startSegment, 0x0000ff); // Blue
+  }
+
+  if (track.markers.finishSegment) {
+    drawRaceLine(scene, track.markers.finishSegment, 0xffd700); // Gold
   }
 
-  if (track.finishPosition) {
-    const finishGraphics = scene.add.graphics();
-    finishGraphics.lineStyle(10, 0xffd700); // Gold
-    // Draw horizontal line for vertical tracks
-    finishGraphics.lineBetween(
-      track.bounds.x,
-      track.finishPosition.y,
-      track.bounds.x + track.bounds.width,
-      track.finishPosition.y,
+  return movingGraphics;
+}
+
+const MATERIAL_FILL_COLORS: Record<Exclude<Material, "standard">, number> = {
+  bumper: 0xff1493, // Pink
+  dead: 0x696969, // Grey
+  sticky: 0x9acd32, // Yellow green
+};
+
+/**
+ * Fill color of a wall or obstacle, its own color for standard bodies
+ */
+function getMaterialColor(body: MatterJS.BodyType, standardColor: number) {
+  const material = getBodyMaterial(body);
+  return material && material !== "standard"
+    ? MATERIAL_FILL_COLORS[material]
+    : standardColor;
+}
+
+const SURFACE_ZONE_FILL_COLORS: Record<SurfaceZoneType, number> = {
+  boost: 0x00ff00, // Green
+  slow: 0x8b4513, // Brown
+  ice: 0x00ffff, // Cyan
+};
+
+/** Size of the arrow showing which way a race line is crossed */
+const RACE_LINE_ARROW_SIZE = 24;
+
+function drawRaceLine(
+  scene: Phaser.Scene,
+  line: RaceLine,
+  color: number,
+): void {
+  const graphics = scene.add.graphics();
+  graphics.lineStyle(Math.max(line.width, 2), color);
+  graphics.lineBetween(line.start.x, line.start.y, line.end.x, line.end.y);
+
+  // Arrow at the middle pointing the way the line must be crossed
+  const center = {
+    x: (line.start.x + line.end.x) / 2,
+    y: (line.start.y + line.end.y) / 2,
+  };
+  graphics.fillStyle(color);
+  drawArrow(graphics, center, line.direction);
+  graphics.setDepth(2);
+}
+
+/**
+ * Arrow head centered on a point, in the current fill style
+ */
+function drawArrow(
+  graphics: Phaser.GameObjects.Graphics,
+  center: { x: number; y: number },
+  direction: { x: number; y: number },
+): void {
+  const { x: dx, y: dy } = direction;
+  const size = RACE_LINE_ARROW_SIZE;
+  graphics.fillTriangle(
+    center.x + dx * size * 1.5,
+    center.y + dy * size * 1.5,
+    center.x - dy * size,
+    center.y + dx * size,
+    center.x + dy * size,
+    center.y - dx * size,
+  );
+}
+
+function getShapeCenter(shape: GameShape): { x: number; y: number } {
+  const bounds = getShapeBounds(shape);
+  return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+}
+
+/**
+ * Fill a polygon, triangle by triangle when it has holes to leave empty
+ */
+function fillPolygon(
+  graphics: Phaser.GameObjects.Graphics,
+  polygon: GamePolygon,
+): void {
+  if (!polygon.holes?.length) {
+    graphics.fillPoints(polygon.vertices, true);
+    return;
+  }
+
+  getPolygonTriangles(polygon).forEach(([a, b, c]) =>
+    graphics.fillTriangle(a.x, a.y, b.x, b.y, c.x, c.y),
+  );
+}
+
+function fillShape(
+  graphics: Phaser.GameObjects.Graphics,
+  shape: GameShape,
+): void {
+  if (isGameCircle(shape)) {
+    graphics.fillCircle(shape.x, shape.y, shape.radius);
+  } else if (isGameEllipse(shape)) {
+    graphics.fillEllipse(
+      shape.x,
+      shape.y,
+      shape.radiusX * 2,
+      shape.radiusY * 2,
     );
-    finishGraphics.setDepth(2);
+  } else if (isGamePolygon(shape)) {
+    fillPolygon(graphics, shape);
+  } else if (isGameCompound(shape)) {
+    shape.parts.forEach((part) => fillPolygon(graphics, part));
+  } else {
+    graphics.fillRect(shape.x, shape.y, shape.width, shape.height);
+  }
+}
+
+/**
+ * Draw a Matter body with its real outline
+ * Compound bodies are drawn part by part, the parent is only their hull.
+ * Local drawings are relative to the body's position and angle.
+ */
+function fillBody(
+  graphics: Phaser.GameObjects.Graphics,
+  body: MatterJS.BodyType,
+  local = false,
+): void {
+  const cos = Math.cos(-body.angle);
+  const sin = Math.sin(-body.angle);
+  const toDrawing = ({ x, y }: { x: number; y: number }) => {
+    if (!local) {
+      return { x, y };
+    }
+    const dx = x - body.position.x;
+    const dy = y - body.position.y;
+    return { x: cos * dx - sin * dy, y: sin * dx + cos * dy };
+  };
+
+  if (body.circleRadius) {
+    const center = toDrawing(body.position);
+    graphics.fillCircle(center.x, center.y, body.circleRadius);
+    return;
   }
+
+  const parts = body.parts.length > 1 ? body.parts.slice(1) : [body];
+  parts.forEach((part) => {
+    if (part.vertices) {
+      graphics.fillPoints(part.vertices.map(toDrawing), true);
+    }
+  });
 }
 
 export function removeTrackFromScene(
@@ -258,6 +481,9 @@ export function removeTrackFromScene(
 
   removeBodiesFromPhysics(scene, track.walls);
   removeBodiesFromPhysics(scene, track.obstacles);
+  removeBodiesFromPhysics(scene, track.checkpoints);
+  removeBodiesFromPhysics(scene, track.zoneBodies);
+  removeBodiesFromPhysics(scene, track.teleporterBodies);
   removeBodiesFromPhysics(scene, track.boundaries);
 
   console.log("Track removed from scene");
@@ -1,14 +1,52 @@
 import {
   GameRect,
   GameCircle,
+  GameEllipse,
+  GamePoint,
+  GamePolygon,
+  GameCompound,
+  GameShape,
   Wall,
   Obstacle,
+  MotionTrack,
+  Checkpoint,
+  SurfaceZone,
+  SurfaceZoneType,
+  Teleporter,
+  TeleporterExit,
+  RawTrackElements,
   TrackBounds,
   TrackMarkers,
+  RaceLine,
   GameConfig,
   ScalingFactor,
+  TRACK_COLORS,
 } from "./track-types";
-import { getElementBounds, getCircleData } from "./svg-parser";
+import {
+  getElementBounds,
+  getCircleData,
+  getEllipseData,
+  getLineData,
+  getPointsData,
+  getFillRule,
+  getPathSubpaths,
+  getStrokeWidth,
+  isSolid,
+  isFilledWithColor,
+  getSurfaceProperties,
+  getDirectionData,
+  getNumericData,
+  getTeleporterLink,
+} from "./svg-parser";
+import { getElementAnimations } from "./svg-animation";
+import {
+  applyMatrix,
+  getElementMatrix,
+  getMatrixScale,
+  isAxisAligned,
+  isSimilarity,
+} from "./svg-transform";
+import { DEFAULT_PATH_FLATTEN_OPTIONS, getPathRegions } from "./svg-path";
 
 export function calculateScalingFactor(
   svgSize: { width: number; height: number },
@@ -58,33 +96,396 @@ export function transformPoint(
   };
 }
 
+/**
+ * Map points from an element's own coordinates to game coordinates,
+ * through its cumulative SVG transform (groups, viewBox) and the scaling
+ */
+export function createPointMapper(
+  element: SVGElement,
+  scaling: ScalingFactor,
+): (point: GamePoint) => GamePoint {
+  const matrix = getElementMatrix(element);
+
+  return (point) => {
+    const viewportPoint = applyMatrix(matrix, point);
+    return transformPoint(viewportPoint.x, viewportPoint.y, scaling);
+  };
+}
+
+/**
+ * Game units per unit of the element's own coordinates
+ */
+export function getGameScale(
+  element: SVGElement,
+  scaling: ScalingFactor,
+): number {
+  return (
+    getMatrixScale(getElementMatrix(element)) *
+    Math.min(scaling.scaleX, scaling.scaleY)
+  );
+}
+
+/**
+ * Stroke width in game units
+ */
+export function getGameStrokeWidth(
+  element: SVGElement,
+  scaling: ScalingFactor,
+): number {
+  return getStrokeWidth(element) * getGameScale(element, scaling);
+}
+
+function getRectCorners(rect: GameRect): GamePoint[] {
+  return [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+    { x: rect.x, y: rect.y + rect.height },
+  ];
+}
+
+/**
+ * Axis aligned bounds of an element in game coordinates
+ * A rotated element gets the bounds of its transformed box
+ */
 export function svgRectToGameRect(
   element: SVGElement,
   scaling: ScalingFactor,
 ): GameRect {
-  const bounds = getElementBounds(element);
-  const topLeft = transformPoint(bounds.x, bounds.y, scaling);
+  const corners = getRectCorners(getElementBounds(element)).map(
+    createPointMapper(element, scaling),
+  );
+  const xs = corners.map((corner) => corner.x);
+  const ys = corners.map((corner) => corner.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
 
   return {
-    x: topLeft.x,
-    y: topLeft.y,
-    width: bounds.width * scaling.scaleX,
-    height: bounds.height * scaling.scaleY,
+    x,
+    y,
+    width: Math.max(...xs) - x,
+    height: Math.max(...ys) - y,
   };
 }
 
+/**
+ * Circle in game coordinates, only exact when the element's transform
+ * keeps it round (see isSimilarity)
+ */
 export function svgCircleToGameCircle(
   element: SVGElement,
   scaling: ScalingFactor,
 ): GameCircle {
   const circleData = getCircleData(element);
-  const center = transformPoint(circleData.cx, circleData.cy, scaling);
+  const center = createPointMapper(
+    element,
+    scaling,
+  )({
+    x: circleData.cx,
+    y: circleData.cy,
+  });
 
   return {
     x: center.x,
     y: center.y,
-    radius: circleData.radius * Math.min(scaling.scaleX, scaling.scaleY),
+    radius:
+      circleData.radius *
+      getMatrixScale(getElementMatrix(element)) *
+      Math.min(scaling.scaleX, scaling.scaleY),
+  };
+}
+
+/**
+ * Ellipse in game coordinates, only exact when the element's transform
+ * keeps it axis aligned (see isAxisAligned)
+ */
+export function svgEllipseToGameEllipse(
+  element: SVGElement,
+  scaling: ScalingFactor,
+): GameEllipse {
+  const ellipseData = getEllipseData(element);
+  const matrix = getElementMatrix(element);
+  const center = createPointMapper(
+    element,
+    scaling,
+  )({
+    x: ellipseData.cx,
+    y: ellipseData.cy,
+  });
+
+  return {
+    x: center.x,
+    y: center.y,
+    radiusX: ellipseData.rx * Math.abs(matrix.a) * scaling.scaleX,
+    radiusY: ellipseData.ry * Math.abs(matrix.d) * scaling.scaleY,
+  };
+}
+
+/** Segments used to approximate ellipses with polygons */
+export const ELLIPSE_SEGMENTS = 32;
+
+/**
+ * Polygon approximating an ellipse
+ */
+export function getEllipseVertices(
+  ellipse: GameEllipse,
+  segments: number = ELLIPSE_SEGMENTS,
+): GamePoint[] {
+  const vertices: GamePoint[] = [];
+
+  for (let i = 0; i < segments; i++) {
+    const angle = (i / segments) * Math.PI * 2;
+    vertices.push({
+      x: ellipse.x + Math.cos(angle) * ellipse.radiusX,
+      y: ellipse.y + Math.sin(angle) * ellipse.radiusY,
+    });
+  }
+
+  return vertices;
+}
+
+/**
+ * Triangles covering a polygon but not its holes, using the triangulation
+ * Phaser fills polygons with
+ */
+export function getPolygonTriangles(polygon: GamePolygon): GamePoint[][] {
+  const points = [polygon.vertices, ...(polygon.holes ?? [])].flat();
+  const holeIndices: number[] = [];
+  let start = polygon.vertices.length;
+  polygon.holes?.forEach((hole) => {
+    holeIndices.push(start);
+    start += hole.length;
+  });
+
+  const indices = Phaser.Geom.Polygon.Earcut(
+    points.flatMap(({ x, y }) => [x, y]),
+    holeIndices,
+  );
+
+  const triangles: GamePoint[][] = [];
+  for (let i = 0; i + 2 < indices.length; i += 3) {
+    triangles.push([
+      points[indices[i]],
+      points[indices[i + 1]],
+      points[indices[i + 2]],
+    ]);
+  }
+
+  return triangles;
+}
+
+/**
+ * Thick quads along a polyline, one per segment
+ * Segments are extended by half the width at both ends so joints overlap
+ */
+export function createStrokePolygons(
+  points: GamePoint[],
+  width: number,
+  closed: boolean,
+): GamePolygon[] {
+  const polygons: GamePolygon[] = [];
+  const halfWidth = width / 2;
+  const segmentCount = closed ? points.length : points.length - 1;
+
+  for (let i = 0; i < segmentCount; i++) {
+    const from = points[i];
+    const to = points[(i + 1) % points.length];
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    if (length === 0) continue;
+
+    // Unit direction and normal scaled to half the stroke width
+    const dirX = ((to.x - from.x) / length) * halfWidth;
+    const dirY = ((to.y - from.y) / length) * halfWidth;
+    const normalX = -dirY;
+    const normalY = dirX;
+
+    polygons.push({
+      vertices: [
+        { x: from.x - dirX + normalX, y: from.y - dirY + normalY },
+        { x: to.x + dirX + normalX, y: to.y + dirY + normalY },
+        { x: to.x + dirX - normalX, y: to.y + dirY - normalY },
+        { x: from.x - dirX - normalX, y: from.y - dirY - normalY },
+      ],
+    });
+  }
+
+  return polygons;
+}
+
+function polygonsToShape(
+  parts: GamePolygon[],
+): GamePolygon | GameCompound | null {
+  if (parts.length === 0) {
+    return null;
+  }
+
+  return parts.length === 1 ? parts[0] : { parts };
+}
+
+/**
+ * Solid polygon or band along an outline already in game coordinates
+ */
+function outlineToShape(
+  points: GamePoint[],
+  closed: boolean,
+  filled: boolean,
+  element: SVGElement,
+  scaling: ScalingFactor,
+): GamePolygon | GameCompound | null {
+  if (filled) {
+    // Filling always closes the outline
+    return points.length >= 3 ? { vertices: points } : null;
+  }
+
+  return polygonsToShape(
+    createStrokePolygons(points, getGameStrokeWidth(element, scaling), closed),
+  );
+}
+
+/**
+ * Convert a <path> to polygons in game coordinates
+ * A solid path (see isSolid) becomes the areas its fill paints, subpaths
+ * left empty by its fill-rule becoming holes. Otherwise its stroke becomes
+ * a thick band. Null when nothing is left to collide with.
+ */
+export function svgPathToGameShape(
+  element: SVGElement,
+  scaling: ScalingFactor,
+  color: string,
+): GamePolygon | GameCompound | null {
+  const toGame = createPointMapper(element, scaling);
+
+  // Split curves by their length once in game units, not in SVG units
+  const scale = getGameScale(element, scaling);
+  const options = {
+    ...DEFAULT_PATH_FLATTEN_OPTIONS,
+    maxSegmentLength:
+      scale > 0
+        ? DEFAULT_PATH_FLATTEN_OPTIONS.maxSegmentLength / scale
+        : DEFAULT_PATH_FLATTEN_OPTIONS.maxSegmentLength,
   };
+  const subpaths = getPathSubpaths(element, options);
+
+  if (isSolid(element, color)) {
+    return polygonsToShape(
+      getPathRegions(subpaths, getFillRule(element)).map(
+        ({ outline, holes }) =>
+          holes.length > 0
+            ? {
+                vertices: outline.map(toGame),
+                holes: holes.map((hole) => hole.map(toGame)),
+              }
+            : { vertices: outline.map(toGame) },
+      ),
+    );
+  }
+
+  const width = getGameStrokeWidth(element, scaling);
+  return polygonsToShape(
+    subpaths.flatMap((subpath) =>
+      createStrokePolygons(subpath.points.map(toGame), width, subpath.closed),
+    ),
+  );
+}
+
+/**
+ * Convert any supported element to a shape in game coordinates
+ * Solid elements (see isSolid) keep their outline, others become a band
+ * along their outline as thick as their stroke. Lines are always a band.
+ * Rotated or skewed elements become polygons. Null when nothing is left to
+ * collide with.
+ */
+export function svgElementToGameShape(
+  element: SVGElement,
+  scaling: ScalingFactor,
+  color: string,
+): GameShape | null {
+  const tagName = element.tagName.toLowerCase();
+  const filled = isSolid(element, color);
+  const matrix = getElementMatrix(element);
+  const toGame = createPointMapper(element, scaling);
+
+  switch (tagName) {
+    case "path":
+      return svgPathToGameShape(element, scaling, color);
+
+    case "line": {
+      const line = getLineData(element);
+      return outlineToShape(
+        [
+          { x: line.x1, y: line.y1 },
+          { x: line.x2, y: line.y2 },
+        ].map(toGame),
+        false,
+        false,
+        element,
+        scaling,
+      );
+    }
+
+    case "polygon":
+    case "polyline":
+      return outlineToShape(
+        getPointsData(element).map(toGame),
+        tagName === "polygon",
+        filled,
+        element,
+        scaling,
+      );
+
+    case "circle": {
+      if (filled && isSimilarity(matrix)) {
+        return svgCircleToGameCircle(element, scaling);
+      }
+      const circle = getCircleData(element);
+      const outline = getEllipseVertices({
+        x: circle.cx,
+        y: circle.cy,
+        radiusX: circle.radius,
+        radiusY: circle.radius,
+      });
+      return outlineToShape(
+        outline.map(toGame),
+        true,
+        filled,
+        element,
+        scaling,
+      );
+    }
+
+    case "ellipse": {
+      if (filled && isAxisAligned(matrix)) {
+        return svgEllipseToGameEllipse(element, scaling);
+      }
+      const ellipse = getEllipseData(element);
+      const outline = getEllipseVertices({
+        x: ellipse.cx,
+        y: ellipse.cy,
+        radiusX: ellipse.rx,
+        radiusY: ellipse.ry,
+      });
+      return outlineToShape(
+        outline.map(toGame),
+        true,
+        filled,
+        element,
+        scaling,
+      );
+    }
+
+    default: {
+      if (filled && isAxisAligned(matrix)) {
+        return svgRectToGameRect(element, scaling);
+      }
+      return outlineToShape(
+        getRectCorners(getElementBounds(element)).map(toGame),
+        true,
+        filled,
+        element,
+        scaling,
+      );
+    }
+  }
 }
 
 export function processTrackArea(
@@ -116,46 +517,446 @@ export function processTrackArea(
   };
 }
 
+/**
+ * Real outlines of the track area elements
+ */
+export function processTrackAreaShapes(
+  elements: SVGElement[],
+  scaling: ScalingFactor,
+): GameShape[] {
+  const shapes: GameShape[] = [];
+
+  elements.forEach((element, index) => {
+    const shape = svgElementToGameShape(
+      element,
+      scaling,
+      TRACK_COLORS.TRACK_AREA,
+    );
+
+    if (!shape) {
+      const id = element.getAttribute("id") || `track-${index}`;
+      console.warn(`Skipping track area without an outline: ${id}`);
+      return;
+    }
+
+    shapes.push(shape);
+  });
+
+  return shapes;
+}
+
+/**
+ * Outlines of the out-of-bounds zones, holes in the track area
+ */
+export function processOutOfBoundsZones(
+  elements: SVGElement[],
+  scaling: ScalingFactor,
+): GameShape[] {
+  const shapes: GameShape[] = [];
+
+  elements.forEach((element, index) => {
+    // Either out-of-bounds color may be the one the zone is filled with
+    const color =
+      [TRACK_COLORS.OUT_OF_BOUNDS, TRACK_COLORS.OUT_OF_BOUNDS_ALT].find(
+        (candidate) => isFilledWithColor(element, candidate),
+      ) ?? TRACK_COLORS.OUT_OF_BOUNDS;
+    const shape = svgElementToGameShape(element, scaling, color);
+
+    if (!shape) {
+      const id = element.getAttribute("id") || `out-of-bounds-${index}`;
+      console.warn(`Skipping out-of-bounds zone without an outline: ${id}`);
+      return;
+    }
+
+    shapes.push(shape);
+  });
+
+  return shapes;
+}
+
 export function processWalls(
   elements: SVGElement[],
   scaling: ScalingFactor,
 ): Wall[] {
-  return elements.map((element, index) => {
-    const shape = svgRectToGameRect(element, scaling);
+  const walls: Wall[] = [];
+
+  elements.forEach((element, index) => {
     const id = element.getAttribute("id") || `wall-${index}`;
+    const shape = svgElementToGameShape(element, scaling, TRACK_COLORS.WALL);
 
-    return {
+    if (!shape) {
+      console.warn(`Skipping wall without an outline: ${id}`);
+      return;
+    }
+
+    walls.push({
       shape,
       type: "wall" as const,
       id,
-    };
+      ...getSurfaceProperties(element),
+    });
   });
+
+  return walls;
 }
 
 export function processObstacles(
   elements: SVGElement[],
   scaling: ScalingFactor,
 ): Obstacle[] {
-  return elements.map((element, index) => {
-    const tagName = element.tagName.toLowerCase();
+  const obstacles: Obstacle[] = [];
+
+  elements.forEach((element, index) => {
     const id = element.getAttribute("id") || `obstacle-${index}`;
+    const shape = svgElementToGameShape(
+      element,
+      scaling,
+      TRACK_COLORS.OBSTACLE,
+    );
 
-    if (tagName === "circle") {
-      const shape = svgCircleToGameCircle(element, scaling);
-      return {
-        shape,
-        type: "obstacle" as const,
-        id,
-      };
+    if (!shape) {
+      console.warn(`Skipping obstacle without an outline: ${id}`);
+      return;
+    }
+
+    obstacles.push({
+      shape,
+      type: "obstacle" as const,
+      id,
+      ...getSurfaceProperties(element),
+      motion: getObstacleMotion(element, scaling),
+    });
+  });
+
+  return obstacles;
+}
+
+/**
+ * Animations of an obstacle in game coordinates, outermost first
+ * Rotations are dropped when the transforms around them do not keep shapes
+ * (non-uniform scale or skew), the obstacle could not stay rigid.
+ */
+export function getObstacleMotion(
+  element: SVGElement,
+  scaling: ScalingFactor,
+): MotionTrack[] {
+  return getElementAnimations(element).flatMap(
+    ({ target, outside, track }): MotionTrack[] => {
+      const space = (outside ? target.parentElement! : target) as SVGElement;
+      const toGame = createPointMapper(space, scaling);
+      const origin = toGame({ x: 0, y: 0 });
+
+      if (track.type === "translate") {
+        const offsets = track.offsets.map((offset) => {
+          const point = toGame(offset);
+          return { x: point.x - origin.x, y: point.y - origin.y };
+        });
+        return [{ ...track, offsets }];
+      }
+
+      const matrix = getElementMatrix(space);
+      if (!isSimilarity(matrix)) {
+        console.warn(
+          "Ignoring the rotation of a skewed or stretched obstacle:",
+          element.getAttribute("id"),
+        );
+        return [];
+      }
+
+      // Mirrored coordinates turn the other way
+      const mirrored = matrix.a * matrix.d - matrix.b * matrix.c < 0;
+      return [
+        {
+          ...track,
+          angles: mirrored ? track.angles.map((angle) => -angle) : track.angles,
+          pivot: toGame(track.pivot),
+        },
+      ];
+    },
+  );
+}
+
+function midpoint(a: GamePoint, b: GamePoint): GamePoint {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+/**
+ * Start or finish element as an oriented segment in game coordinates
+ * A <line> is used as drawn, other elements run along the long axis of
+ * their box and are as thick as its short side. The direction comes from
+ * data-direction, otherwise it is the segment turned a quarter
+ * counterclockwise (up for a horizontal line, right for a vertical one),
+ * following the element's rotation.
+ */
+export function svgElementToRaceLine(
+  element: SVGElement,
+  scaling: ScalingFactor,
+): RaceLine | null {
+  const toGame = createPointMapper(element, scaling);
+  let start: GamePoint;
+  let end: GamePoint;
+  let width: number;
+
+  if (element.tagName.toLowerCase() === "line") {
+    const line = getLineData(element);
+    start = toGame({ x: line.x1, y: line.y1 });
+    end = toGame({ x: line.x2, y: line.y2 });
+    width = getGameStrokeWidth(element, scaling);
+  } else {
+    const bounds = getElementBounds(element);
+    const [topLeft, topRight, bottomRight, bottomLeft] =
+      getRectCorners(bounds).map(toGame);
+
+    if (bounds.width < bounds.height) {
+      start = midpoint(topLeft, topRight);
+      end = midpoint(bottomLeft, bottomRight);
+      width = Math.hypot(topRight.x - topLeft.x, topRight.y - topLeft.y);
     } else {
-      const shape = svgRectToGameRect(element, scaling);
-      return {
+      start = midpoint(topLeft, bottomLeft);
+      end = midpoint(topRight, bottomRight);
+      width = Math.hypot(bottomLeft.x - topLeft.x, bottomLeft.y - topLeft.y);
+    }
+  }
+
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  if (length === 0) {
+    return null;
+  }
+
+  // A quarter turn counterclockwise on screen, where y points down
+  let direction = {
+    x: (end.y - start.y) / length,
+    y: (start.x - end.x) / length,
+  };
+
+  const gameDirection = getGameDirection(element, scaling);
+  if (gameDirection) {
+    const dot = gameDirection.x * direction.x + gameDirection.y * direction.y;
+
+    if (Math.abs(dot) < 1e-6) {
+      console.warn(
+        "Ignoring data-direction along the line:",
+        element.getAttribute("id"),
+      );
+    } else if (dot < 0) {
+      direction = { x: -direction.x, y: -direction.y };
+    }
+  }
+
+  return { start, end, direction, width };
+}
+
+/**
+ * Position of a checkpoint in the race, from data-order or else the last
+ * number in its id ("checkpoint-2"), null when it has neither
+ */
+export function getCheckpointOrder(element: SVGElement): number | null {
+  const dataOrder = element.closest("[data-order]")?.getAttribute("data-order");
+  if (dataOrder) {
+    const order = parseFloat(dataOrder);
+    if (Number.isFinite(order)) {
+      return order;
+    }
+    console.warn("Invalid data-order attribute:", dataOrder);
+  }
+
+  const idNumber = element.getAttribute("id")?.match(/(\d+)(?!.*\d)/);
+  return idNumber ? parseInt(idNumber[1], 10) : null;
+}
+
+/**
+ * Checkpoints in the order they must be hit (see getCheckpointOrder)
+ * Checkpoints without an order come last, in document order.
+ */
+export function processCheckpoints(
+  elements: SVGElement[],
+  scaling: ScalingFactor,
+): Checkpoint[] {
+  const ordered = elements
+    .map((element, index) => ({
+      element,
+      index,
+      order: getCheckpointOrder(element) ?? Infinity,
+    }))
+    .sort((a, b) => a.order - b.order || a.index - b.index);
+
+  const checkpoints: Checkpoint[] = [];
+
+  ordered.forEach(({ element, index }) => {
+    const id = element.getAttribute("id") || `checkpoint-${index}`;
+    const shape = svgElementToGameShape(
+      element,
+      scaling,
+      TRACK_COLORS.CHECKPOINT,
+    );
+
+    if (!shape) {
+      console.warn(`Skipping checkpoint without an outline: ${id}`);
+      return;
+    }
+
+    checkpoints.push({
+      shape,
+      type: "checkpoint" as const,
+      id,
+    });
+  });
+
+  return checkpoints;
+}
+
+/**
+ * Direction of data-direction in game coordinates, following the element's
+ * transforms, null when unset
+ */
+export function getGameDirection(
+  element: SVGElement,
+  scaling: ScalingFactor,
+): { x: number; y: number } | null {
+  const localDirection = getDirectionData(element);
+  if (!localDirection) {
+    return null;
+  }
+
+  const toGame = createPointMapper(element, scaling);
+  const origin = toGame({ x: 0, y: 0 });
+  const tip = toGame(localDirection);
+  const length = Math.hypot(tip.x - origin.x, tip.y - origin.y);
+  if (length === 0) {
+    return null;
+  }
+
+  return {
+    x: (tip.x - origin.x) / length,
+    y: (tip.y - origin.y) / length,
+  };
+}
+
+const SURFACE_ZONE_COLORS: Record<SurfaceZoneType, string> = {
+  boost: TRACK_COLORS.BOOST_PAD,
+  slow: TRACK_COLORS.SLOW_ZONE,
+  ice: TRACK_COLORS.ICE_ZONE,
+};
+
+/**
+ * Boost pads, slow and ice zones with their data-strength and, for boost
+ * pads, data-direction
+ */
+export function processSurfaceZones(
+  elements: Pick<RawTrackElements, "boostPads" | "slowZones" | "iceZones">,
+  scaling: ScalingFactor,
+): SurfaceZone[] {
+  const zones: SurfaceZone[] = [];
+  const byType: [SurfaceZoneType, SVGElement[]][] = [
+    ["boost", elements.boostPads],
+    ["slow", elements.slowZones],
+    ["ice", elements.iceZones],
+  ];
+
+  byType.forEach(([type, typeElements]) => {
+    typeElements.forEach((element, index) => {
+      const id = element.getAttribute("id") || `${type}-${index}`;
+      const shape = svgElementToGameShape(
+        element,
+        scaling,
+        SURFACE_ZONE_COLORS[type],
+      );
+
+      if (!shape) {
+        console.warn(`Skipping ${type} zone without an outline: ${id}`);
+        return;
+      }
+
+      zones.push({
         shape,
-        type: "obstacle" as const,
+        type,
         id,
-      };
+        strength: getNumericData(element, "strength"),
+        direction: type === "boost" ? getGameDirection(element, scaling) : null,
+      });
+    });
+  });
+
+  return zones;
+}
+
+/**
+ * Teleporter entrances paired with the exit sharing their data-teleporter
+ * Exits come out at their center, along their data-direction when set.
+ * Entrances without an exit are skipped, and so are exits nothing leads to.
+ */
+export function processTeleporters(
+  elements: Pick<RawTrackElements, "teleporters" | "teleporterExits">,
+  scaling: ScalingFactor,
+): Teleporter[] {
+  const exits = new Map<string, TeleporterExit>();
+  elements.teleporterExits.forEach((element, index) => {
+    const id = element.getAttribute("id") || `teleporter-exit-${index}`;
+    const link = getTeleporterLink(element);
+    if (!link) {
+      console.warn(`Skipping teleporter exit without data-teleporter: ${id}`);
+      return;
+    }
+    if (exits.has(link)) {
+      console.warn(`Skipping second exit of teleporter ${link}: ${id}`);
+      return;
+    }
+
+    const shape = svgElementToGameShape(
+      element,
+      scaling,
+      TRACK_COLORS.TELEPORTER_EXIT,
+    );
+    if (!shape) {
+      console.warn(`Skipping teleporter exit without an outline: ${id}`);
+      return;
+    }
+
+    const bounds = getElementBounds(element);
+    exits.set(link, {
+      shape,
+      id,
+      position: createPointMapper(
+        element,
+        scaling,
+      )({
+        x: bounds.x + bounds.width / 2,
+        y: bounds.y + bounds.height / 2,
+      }),
+      direction: getGameDirection(element, scaling),
+    });
+  });
+
+  const teleporters: Teleporter[] = [];
+  elements.teleporters.forEach((element, index) => {
+    const id = element.getAttribute("id") || `teleporter-${index}`;
+    const link = getTeleporterLink(element);
+    const exit = link ? exits.get(link) : undefined;
+    if (!link || !exit) {
+      console.warn(`Skipping teleporter without an exit: ${id}`);
+      return;
+    }
+
+    const shape = svgElementToGameShape(
+      element,
+      scaling,
+      TRACK_COLORS.TELEPORTER,
+    );
+    if (!shape) {
+      console.warn(`Skipping teleporter without an outline: ${id}`);
+      return;
+    }
+
+    teleporters.push({ link, shape, id, exit });
+  });
+
+  exits.forEach((exit, link) => {
+    if (!teleporters.some((teleporter) => teleporter.link === link)) {
+      console.warn(`Skipping teleporter exit without an entrance: ${exit.id}`);
     }
   });
+
+  return teleporters;
 }
 
 export function processStartFinishLines(
@@ -176,6 +977,14 @@ export function processStartFinishLines(
   return {
     startLine,
     finishLine,
+    startSegment:
+      startElements.length > 0
+        ? svgElementToRaceLine(startElements[0], scaling)
+        : null,
+    finishSegment:
+      finishElements.length > 0
+        ? svgElementToRaceLine(finishElements[0], scaling)
+        : null,
   };
 }
 
@@ -1,3 +1,5 @@
+import type { SpatialGrid } from "./spatial-grid";
+
 // Using Phaser's exposed Matter.js Body type
 type Body = MatterJS.BodyType;
 
@@ -14,18 +16,161 @@ export interface GameCircle {
   radius: number;
 }
 
-export type GameShape = GameRect | GameCircle;
+export interface GameEllipse {
+  x: number;
+  y: number;
+  radiusX: number;
+  radiusY: number;
+}
+
+export interface GamePoint {
+  x: number;
+  y: number;
+}
 
-export interface Wall {
-  shape: GameRect;
+/** Closed outline, may be concave */
+export interface GamePolygon {
+  vertices: GamePoint[];
+  /** Outlines cut out of it, e.g. the inside of a ring-shaped path */
+  holes?: GamePoint[][];
+}
+
+/** Several polygons forming a single body, e.g. a path with subpaths */
+export interface GameCompound {
+  parts: GamePolygon[];
+}
+
+export type GameShape =
+  | GameRect
+  | GameCircle
+  | GameEllipse
+  | GamePolygon
+  | GameCompound;
+
+/**
+ * What walls and obstacles are made of, deciding how the puck bounces
+ * - standard: bounces without losing speed
+ * - bumper: sends the puck back faster than it came
+ * - dead: absorbs most of the impact
+ * - sticky: no bounce and high friction, the puck clings and slows down
+ */
+export const MATERIALS = ["standard", "bumper", "dead", "sticky"] as const;
+export type Material = (typeof MATERIALS)[number];
+
+/**
+ * Per-element overrides of the body config, from data attributes
+ * restitution and friction override the material's own values.
+ */
+export interface SurfaceProperties {
+  material?: Material;
+  restitution?: number;
+  friction?: number;
+}
+
+export interface Wall extends SurfaceProperties {
+  shape: GameShape;
   type: "wall";
   id?: string;
 }
 
-export interface Obstacle {
+/**
+ * Timing of an animation, following SMIL
+ */
+export interface MotionTiming {
+  /** Race time the animation starts at (ms) */
+  begin: number;
+  /** Length of one cycle (ms) */
+  duration: number;
+  /** Cycles played, Infinity to loop for ever */
+  repeatCount: number;
+  /** Hold the last keyframe once done instead of going back to rest */
+  freeze: boolean;
+  /** Fraction of the cycle (0-1) each keyframe is reached at */
+  keyTimes: number[];
+  /** Ease in and out of every keyframe instead of moving linearly */
+  eased: boolean;
+}
+
+export interface TranslateTrack extends MotionTiming {
+  type: "translate";
+  /** Offset from the rest position at each keyframe */
+  offsets: GamePoint[];
+}
+
+export interface RotateTrack extends MotionTiming {
+  type: "rotate";
+  /** Angle at each keyframe, in radians clockwise on screen */
+  angles: number[];
+  pivot: GamePoint;
+}
+
+export type MotionTrack = TranslateTrack | RotateTrack;
+
+export interface Obstacle extends SurfaceProperties {
   shape: GameShape;
   type: "obstacle";
   id?: string;
+  /** Animations moving the obstacle, outermost first; empty when it is fixed */
+  motion: MotionTrack[];
+}
+
+/**
+ * Obstacle body moved by its animations every physics step
+ */
+export interface MovingObstacle {
+  body: Body;
+  motion: MotionTrack[];
+  /** Position of the body at rest, before any animation */
+  home: GamePoint;
+}
+
+export interface Checkpoint {
+  shape: GameShape;
+  type: "checkpoint";
+  id?: string;
+}
+
+/**
+ * Areas changing how the puck moves while it is on them
+ * - boost: adds speed once on contact, along a direction or the puck's own
+ * - slow: raises air friction
+ * - ice: lowers air friction almost to nothing
+ */
+export const SURFACE_ZONE_TYPES = ["boost", "slow", "ice"] as const;
+export type SurfaceZoneType = (typeof SURFACE_ZONE_TYPES)[number];
+
+export interface SurfaceZone {
+  shape: GameShape;
+  type: SurfaceZoneType;
+  id?: string;
+  /** Speed added by a boost pad, air friction of slow and ice zones; null uses the balance default */
+  strength: number | null;
+  /** Unit vector a boost pad pushes along, null to push the way the puck goes */
+  direction: { x: number; y: number } | null;
+}
+
+/**
+ * Where a teleporter sends the puck
+ */
+export interface TeleporterExit {
+  shape: GameShape;
+  id?: string;
+  /** Center of the exit, the puck comes out there */
+  position: GamePoint;
+  /** Unit vector the puck leaves along at its own speed, null to keep its heading */
+  direction: { x: number; y: number } | null;
+}
+
+/**
+ * Entrance sensor moving the puck to the exit sharing its data-teleporter
+ * Several entrances may lead to the same exit.
+ */
+export interface Teleporter {
+  /** data-teleporter value linking the entrance to its exit */
+  link: string;
+  shape: GameShape;
+  id?: string;
+  exit: TeleporterExit;
 }
 
 export interface TrackBounds {
@@ -35,9 +180,35 @@ export interface TrackBounds {
   height: number;
 }
 
+/**
+ * Union of the shapes the puck may be in, minus the out-of-bounds holes
+ * painted inside them, indexed for point queries
+ */
+export interface TrackArea {
+  shapes: GameShape[];
+  grid: SpatialGrid;
+  holes: GameShape[];
+  holeGrid: SpatialGrid;
+}
+
+/**
+ * Start or finish line as a segment, crossed in one direction only
+ */
+export interface RaceLine {
+  start: GamePoint;
+  end: GamePoint;
+  /** Unit normal of the segment pointing the way the puck must cross it */
+  direction: GamePoint;
+  /** Thickness of the painted line, in game units */
+  width: number;
+}
+
 export interface TrackMarkers {
+  /** Bounding boxes of the start and finish elements */
   startLine: GameRect | null;
   finishLine: GameRect | null;
+  startSegment: RaceLine | null;
+  finishSegment: RaceLine | null;
 }
 
 export interface RawTrackElements {
@@ -46,6 +217,13 @@ export interface RawTrackElements {
   obstacles: SVGElement[];
   startLines: SVGElement[];
   finishLines: SVGElement[];
+  checkpoints: SVGElement[];
+  boostPads: SVGElement[];
+  slowZones: SVGElement[];
+  iceZones: SVGElement[];
+  teleporters: SVGElement[];
+  teleporterExits: SVGElement[];
+  outOfBounds: SVGElement[];
 }
 
 export interface GameConfig {
@@ -55,6 +233,8 @@ export interface GameConfig {
 }
 
 export interface TrackMetadata {
+  /** Hash of the source SVG text, identifies the track for records and ghosts */
+  trackHash: string;
   originalSVGSize: { width: number; height: number };
   scaleFactor: number;
   elementCounts: {
@@ -64,13 +244,37 @@ export interface TrackMetadata {
   };
 }
 
+/**
+ * Where the puck respawns after leaving the track
+ * - last-position: the last position inside the track area
+ * - checkpoint: the last checkpoint hit, or the start before any
+ */
+export const RESPAWN_MODES = ["last-position", "checkpoint"] as const;
+export type RespawnMode = (typeof RESPAWN_MODES)[number];
+
 export interface ImportedTrack {
+  /** Bounding box of the track area */
   bounds: TrackBounds;
+  trackArea: TrackArea;
   walls: Body[];
   obstacles: Body[];
+  /** Obstacles with animations, their bodies are in obstacles as well */
+  movingObstacles: MovingObstacle[];
+  /** Sensor bodies, in the order they must be hit */
+  checkpoints: Body[];
+  surfaceZones: SurfaceZone[];
+  /** Sensor bodies of the surface zones, labelled zone-<index in surfaceZones> */
+  zoneBodies: Body[];
+  teleporters: Teleporter[];
+  /** Sensor bodies of the teleporter entrances, labelled teleporter-<index in teleporters> */
+  teleporterBodies: Body[];
   boundaries: Body[];
   startPosition: { x: number; y: number } | null;
   finishPosition: { x: number; y: number } | null;
+  markers: TrackMarkers;
+  respawnMode: RespawnMode;
+  /** Laps to complete, more than one for circuits */
+  laps: number;
   metadata: TrackMetadata;
 }
 
@@ -93,9 +297,35 @@ export const TRACK_COLORS = {
   START_LINE: "#0000FF",
   FINISH_LINE: "#FFD700",
   OBSTACLE: "#800080",
+  CHECKPOINT: "#FFA500",
+  BOOST_PAD: "#00FF00",
+  SLOW_ZONE: "#8B4513",
+  ICE_ZONE: "#00FFFF",
+  TELEPORTER: "#FF00FF",
+  TELEPORTER_EXIT: "#8A2BE2",
   OUT_OF_BOUNDS: "#87CEEB",
+  /** Red is accepted for out-of-bounds zones as well */
+  OUT_OF_BOUNDS_ALT: "#FF0000",
 } as const;
 
+/** Attribute tagging an element (or a group) with its role on the track */
+export const TRACK_ROLE_ATTRIBUTE = "data-puck-role";
+
+export const TRACK_ROLES = [
+  "wall",
+  "obstacle",
+  "start",
+  "finish",
+  "track",
+  "checkpoint",
+  "out-of-bounds",
+  ...SURFACE_ZONE_TYPES,
+  "teleporter",
+  "teleporter-exit",
+] as const;
+
+export type TrackRole = (typeof TRACK_ROLES)[number];
+
 export function isGameCircle(shape: GameShape): shape is GameCircle {
   return "radius" in shape;
 }
@@ -103,3 +333,15 @@ export function isGameCircle(shape: GameShape): shape is GameCircle {
 export function isGameRect(shape: GameShape): shape is GameRect {
   return "width" in shape && "height" in shape;
 }
+
+export function isGameEllipse(shape: GameShape): shape is GameEllipse {
+  return "radiusX" in shape && "radiusY" in shape;
+}
+
+export function isGamePolygon(shape: GameShape): shape is GamePolygon {
+  return "vertices" in shape;
+}
+
+export function isGameCompound(shape: GameShape): shape is GameCompound {
+  return "parts" in shape;
+}
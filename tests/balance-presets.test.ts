@@ -0,0 +1,307 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { CAMERA_ZOOM, PHYSICS } from "../src/utils/balance";
+import {
+  DEFAULT_BALANCE,
+  resetBalance,
+  setBalanceValue,
+} from "../src/utils/balance-store";
+import {
+  PRESET_STORAGE_KEY,
+  applyBalancePreset,
+  createPresetFromCurrent,
+  deleteStoredPreset,
+  loadStoredPresets,
+  mergeBalanceOverrides,
+  parsePreset,
+  saveStoredPreset,
+  serializePreset,
+  validateBalanceEdit,
+  validateBalanceOverrides,
+  validateBalancePreset,
+} from "../src/utils/balance-presets";
+
+describe("balance-presets", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  afterEach(() => {
+    resetBalance();
+  });
+
+  describe("validateBalanceOverrides", () => {
+    it("should accept an empty override", () => {
+      expect(validateBalanceOverrides({}).isValid).toBe(true);
+    });
+
+    it("should accept in-range partial overrides", () => {
+      const result = validateBalanceOverrides({
+        PHYSICS: { AIR_FRICTION: 0.01 },
+        SLINGSHOT: { VELOCITY_MULTIPLIER: 0.2 },
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it("should reject unknown sections and keys", () => {
+      const result = validateBalanceOverrides({
+        GRAVITY: { Y: 1 },
+        PHYSICS: { SPIN: 2 },
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain("Unknown balance section: GRAVITY");
+      expect(result.errors).toContain("Unknown balance value: PHYSICS.SPIN");
+    });
+
+    it("should reject keys whose meaning changed", () => {
+      const result = validateBalanceOverrides({ PHYSICS: { BOUNCE: 0.8 } });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain("PHYSICS.BOUNCE was replaced by");
+      expect(result.errors[0]).toContain("PHYSICS.BOUNCE_SCALE");
+    });
+
+    it("should reject non-numeric values", () => {
+      const result = validateBalanceOverrides({
+        PHYSICS: { BOUNCE_SCALE: "high" },
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toBe(
+        "PHYSICS.BOUNCE_SCALE must be a finite number",
+      );
+    });
+
+    it("should reject out-of-range values", () => {
+      const result = validateBalanceOverrides({
+        PHYSICS: { AIR_FRICTION: 2 },
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain("PHYSICS.AIR_FRICTION");
+    });
+
+    it("should accept known options and reject others", () => {
+      expect(
+        validateBalanceOverrides({ SLINGSHOT: { POWER_CURVE: "ease-out" } })
+          .isValid,
+      ).toBe(true);
+
+      const result = validateBalanceOverrides({
+        SLINGSHOT: { POWER_CURVE: "bouncy" },
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toBe(
+        "SLINGSHOT.POWER_CURVE must be one of linear, ease-in, ease-out",
+      );
+    });
+
+    it("should reject CAMERA_ZOOM.MIN greater than MAX", () => {
+      const result = validateBalanceOverrides({
+        CAMERA_ZOOM: { MIN: 0.9, MAX: 0.5 },
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain(
+        "CAMERA_ZOOM.MIN must not be greater than CAMERA_ZOOM.MAX",
+      );
+    });
+
+    it("should check zoom ordering against default values", () => {
+      // DEFAULT zoom is 0.55, so a MIN of 0.6 leaves it out of range
+      const result = validateBalanceOverrides({ CAMERA_ZOOM: { MIN: 0.6 } });
+
+      expect(result.isValid).toBe(false);
+    });
+  });
+
+  describe("validateBalanceEdit", () => {
+    it("should accept an in-range value", () => {
+      expect(validateBalanceEdit("PHYSICS", "AIR_FRICTION", 0.1).isValid).toBe(
+        true,
+      );
+    });
+
+    it("should reject values out of the limits", () => {
+      const result = validateBalanceEdit("PHYSICS", "AIR_FRICTION", 2);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain("PHYSICS.AIR_FRICTION");
+      expect(validateBalanceEdit("PHYSICS", "AIR_FRICTION", NaN).isValid).toBe(
+        false,
+      );
+    });
+
+    it("should check zoom ordering against the current values", () => {
+      setBalanceValue("CAMERA_ZOOM", "MIN", 0.1);
+      setBalanceValue("CAMERA_ZOOM", "DEFAULT", 0.2);
+
+      expect(validateBalanceEdit("CAMERA_ZOOM", "MAX", 0.3).isValid).toBe(true);
+      expect(validateBalanceEdit("CAMERA_ZOOM", "MAX", 0.05).errors).toContain(
+        "CAMERA_ZOOM.MIN must not be greater than CAMERA_ZOOM.MAX",
+      );
+    });
+  });
+
+  describe("validateBalancePreset", () => {
+    it("should require a name", () => {
+      const result = validateBalancePreset({ name: "", values: {} });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain("Preset name must be a non-empty string");
+    });
+
+    it("should reserve the default preset name", () => {
+      const result = validateBalancePreset({ name: " default ", values: {} });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Preset name "default" is reserved');
+    });
+  });
+
+  describe("mergeBalanceOverrides", () => {
+    it("should fill missing values with defaults", () => {
+      const merged = mergeBalanceOverrides({ PHYSICS: { BOUNCE_SCALE: 0.9 } });
+
+      expect(merged.PHYSICS.BOUNCE_SCALE).toBe(0.9);
+      expect(merged.PHYSICS.AIR_FRICTION).toBe(
+        DEFAULT_BALANCE.PHYSICS.AIR_FRICTION,
+      );
+      expect(merged.TIMING).toEqual(DEFAULT_BALANCE.TIMING);
+    });
+  });
+
+  describe("createPresetFromCurrent / applyBalancePreset", () => {
+    it("should only store values that differ from defaults", () => {
+      setBalanceValue("PHYSICS", "AIR_FRICTION", 0.01);
+
+      const preset = createPresetFromCurrent("floaty");
+
+      expect(preset).toEqual({
+        name: "floaty",
+        values: { PHYSICS: { AIR_FRICTION: 0.01 } },
+      });
+    });
+
+    it("should reset other values when applying a preset", () => {
+      setBalanceValue("CAMERA_ZOOM", "MAX", 1);
+
+      applyBalancePreset({
+        name: "floaty",
+        values: { PHYSICS: { BOUNCE_SCALE: 0.9 } },
+      });
+
+      expect(PHYSICS.BOUNCE_SCALE).toBe(0.9);
+      expect(CAMERA_ZOOM.MAX).toBe(DEFAULT_BALANCE.CAMERA_ZOOM.MAX);
+    });
+
+    it("should refuse to apply an invalid preset", () => {
+      expect(() =>
+        applyBalancePreset({
+          name: "broken",
+          values: { CAMERA_ZOOM: { MIN: 1, MAX: 0.5 } },
+        }),
+      ).toThrow('Invalid preset "broken"');
+      expect(CAMERA_ZOOM.MIN).toBe(DEFAULT_BALANCE.CAMERA_ZOOM.MIN);
+    });
+  });
+
+  describe("serializePreset / parsePreset", () => {
+    it("should round-trip a preset through JSON", () => {
+      const preset = {
+        name: "quake-fast",
+        values: { SLINGSHOT: { VELOCITY_MULTIPLIER: 0.3 } },
+      };
+
+      expect(parsePreset(serializePreset(preset))).toEqual(preset);
+    });
+
+    it("should reject malformed JSON", () => {
+      expect(() => parsePreset("{not json")).toThrow(
+        "Preset is not valid JSON",
+      );
+    });
+
+    it("should refuse to import a preset named default", () => {
+      const json = JSON.stringify({ name: "default", values: {} });
+
+      expect(() => parsePreset(json)).toThrow("is reserved");
+    });
+
+    it("should reject presets failing validation", () => {
+      const json = JSON.stringify({
+        name: "bad",
+        values: { PHYSICS: { BOUNCE_SCALE: -1 } },
+      });
+
+      expect(() => parsePreset(json)).toThrow("Invalid preset");
+    });
+  });
+
+  describe("stored presets", () => {
+    it("should save, list and delete presets", () => {
+      saveStoredPreset({
+        name: "floaty",
+        values: { PHYSICS: { BOUNCE_SCALE: 1 } },
+      });
+      saveStoredPreset({ name: "quake-fast", values: {} });
+
+      expect(loadStoredPresets().map((p) => p.name)).toEqual([
+        "floaty",
+        "quake-fast",
+      ]);
+
+      deleteStoredPreset("floaty");
+
+      expect(loadStoredPresets().map((p) => p.name)).toEqual(["quake-fast"]);
+    });
+
+    it("should replace a preset saved under the same name", () => {
+      saveStoredPreset({
+        name: "floaty",
+        values: { PHYSICS: { BOUNCE_SCALE: 1 } },
+      });
+      saveStoredPreset({
+        name: "floaty",
+        values: { PHYSICS: { BOUNCE_SCALE: 0.5 } },
+      });
+
+      const presets = loadStoredPresets();
+
+      expect(presets).toHaveLength(1);
+      expect(presets[0].values.PHYSICS?.BOUNCE_SCALE).toBe(0.5);
+    });
+
+    it("should never store a preset shadowing the default one", () => {
+      expect(() =>
+        saveStoredPreset({ name: "default", values: { PHYSICS: {} } }),
+      ).toThrow("is reserved");
+
+      window.localStorage.setItem(
+        PRESET_STORAGE_KEY,
+        JSON.stringify({ default: {}, floaty: {} }),
+      );
+
+      expect(loadStoredPresets().map((p) => p.name)).toEqual(["floaty"]);
+    });
+
+    it("should skip invalid or corrupted entries", () => {
+      window.localStorage.setItem(
+        PRESET_STORAGE_KEY,
+        JSON.stringify({
+          good: { PHYSICS: { BOUNCE_SCALE: 1 } },
+          bad: { PHYSICS: { BOUNCE_SCALE: 100 } },
+        }),
+      );
+
+      expect(loadStoredPresets().map((p) => p.name)).toEqual(["good"]);
+
+      window.localStorage.setItem(PRESET_STORAGE_KEY, "{oops");
+
+      expect(loadStoredPresets()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { CAMERA_ZOOM, PHYSICS, TIMING, DERIVED } from "../src/utils/balance";
+import {
+  DEFAULT_BALANCE,
+  getBalanceSectionNames,
+  getBalanceValue,
+  setBalanceValue,
+  applyBalanceSnapshot,
+  resetBalance,
+  onBalanceChange,
+  snapshotBalance,
+} from "../src/utils/balance-store";
+import { getZoomConfig } from "../src/utils/camera-logic";
+
+describe("balance-store", () => {
+  afterEach(() => {
+    resetBalance();
+  });
+
+  it("should expose every balance section", () => {
+    expect(getBalanceSectionNames()).toEqual([
+      "CAMERA_ZOOM",
+      "SLINGSHOT",
+      "SLING_BOOST",
+      "PHYSICS",
+      "SURFACE_ZONES",
+      "TELEPORTERS",
+      "MOUSE",
+      "TIMING",
+    ]);
+  });
+
+  it("should update the section object in place", () => {
+    setBalanceValue("PHYSICS", "AIR_FRICTION", 0.01);
+
+    expect(PHYSICS.AIR_FRICTION).toBe(0.01);
+    expect(getBalanceValue("PHYSICS", "AIR_FRICTION")).toBe(0.01);
+  });
+
+  it("should be read live by getZoomConfig", () => {
+    setBalanceValue("CAMERA_ZOOM", "MIN", 0.1);
+
+    expect(getZoomConfig().minZoom).toBe(0.1);
+  });
+
+  it("should recompute derived values on change", () => {
+    setBalanceValue("CAMERA_ZOOM", "MAX", 1.3);
+    setBalanceValue("TIMING", "RESPAWN_DURATION", 1000);
+
+    expect(DERIVED.ZOOM_RANGE).toBeCloseTo(1.3 - CAMERA_ZOOM.MIN);
+    expect(DERIVED.RESPAWN_FADE_DURATION).toBe(500);
+  });
+
+  it("should notify listeners with the previous value", () => {
+    const listener = vi.fn();
+    const unsubscribe = onBalanceChange(listener);
+
+    setBalanceValue("TIMING", "SLING_ZOOM_DURATION", 250);
+
+    expect(listener).toHaveBeenCalledWith({
+      section: "TIMING",
+      key: "SLING_ZOOM_DURATION",
+      value: 250,
+      previousValue: DEFAULT_BALANCE.TIMING.SLING_ZOOM_DURATION,
+    });
+
+    unsubscribe();
+    setBalanceValue("TIMING", "SLING_ZOOM_DURATION", 300);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not notify when the value is unchanged", () => {
+    const listener = vi.fn();
+    const unsubscribe = onBalanceChange(listener);
+
+    setBalanceValue("MOUSE", "ZOOM_SPEED", DEFAULT_BALANCE.MOUSE.ZOOM_SPEED);
+
+    expect(listener).not.toHaveBeenCalled();
+    unsubscribe();
+  });
+
+  it("should reject unknown keys and non-finite values", () => {
+    expect(() => setBalanceValue("PHYSICS", "GRAVITY", 1)).toThrow(
+      "Unknown balance value: PHYSICS.GRAVITY",
+    );
+    expect(() => setBalanceValue("PHYSICS", "BOUNCE_SCALE", NaN)).toThrow();
+    expect(() => setBalanceValue("PHYSICS", "BOUNCE_SCALE", "high")).toThrow();
+    expect(() => setBalanceValue("SLINGSHOT", "POWER_CURVE", 2)).toThrow();
+  });
+
+  it("should apply partial snapshots and reset to defaults", () => {
+    applyBalanceSnapshot({
+      PHYSICS: { BOUNCE_SCALE: 0.2 },
+      TIMING: { RESPAWN_DURATION: 100 },
+    });
+
+    expect(PHYSICS.BOUNCE_SCALE).toBe(0.2);
+    expect(TIMING.RESPAWN_DURATION).toBe(100);
+
+    resetBalance();
+
+    expect(snapshotBalance()).toEqual(DEFAULT_BALANCE);
+    expect(DERIVED.RESPAWN_FADE_DURATION).toBe(
+      DEFAULT_BALANCE.TIMING.RESPAWN_DURATION / 2,
+    );
+  });
+});
@@ -0,0 +1,266 @@
+import { describe, it, expect, beforeAll, vi } from "vitest";
+import Matter from "phaser/src/physics/matter-js/CustomMain";
+import {
+  BounceContact,
+  getBounceVelocity,
+  getSurfaceNormal,
+  getSurfaceVelocity,
+  resolveBounces,
+} from "../src/utils/bounce";
+
+const speed = (velocity: { x: number; y: number }) =>
+  Math.hypot(velocity.x, velocity.y);
+
+const unit = (degrees: number) => ({
+  x: Math.cos((degrees * Math.PI) / 180),
+  y: Math.sin((degrees * Math.PI) / 180),
+});
+
+describe("bounce", () => {
+  describe("getSurfaceNormal", () => {
+    const normal = { x: 0, y: 1 };
+
+    it("should keep Matter's normal when the puck is bodyA", () => {
+      expect(getSurfaceNormal({ bodyA: "puck", normal }, "puck")).toEqual({
+        x: 0,
+        y: 1,
+      });
+    });
+
+    it("should flip Matter's normal when the puck is bodyB", () => {
+      expect(getSurfaceNormal({ bodyA: "wall", normal }, "puck")).toEqual({
+        x: -0,
+        y: -1,
+      });
+    });
+  });
+
+  describe("getBounceVelocity", () => {
+    const floor: BounceContact = { normal: { x: 0, y: -1 }, restitution: 1 };
+
+    it("should reflect the velocity around the normal", () => {
+      expect(getBounceVelocity({ x: 3, y: 4 }, floor)).toEqual({ x: 3, y: -4 });
+    });
+
+    it("should keep the speed for any angle and surface orientation", () => {
+      for (let surface = 0; surface < 360; surface += 15) {
+        const normal = unit(surface);
+        for (let angle = -85; angle <= 85; angle += 5) {
+          // Incoming against the normal, `angle` degrees off head-on
+          const direction = unit(surface + 180 + angle);
+          const velocity = { x: direction.x * 12, y: direction.y * 12 };
+          const bounced = getBounceVelocity(velocity, {
+            normal,
+            restitution: 1,
+          });
+
+          expect(speed(bounced)).toBeCloseTo(12, 10);
+          // Angle of reflection equals the angle of incidence
+          const tangent = { x: -normal.y, y: normal.x };
+          const along = (v: { x: number; y: number }) =>
+            v.x * tangent.x + v.y * tangent.y;
+          const across = (v: { x: number; y: number }) =>
+            v.x * normal.x + v.y * normal.y;
+          expect(along(bounced)).toBeCloseTo(along(velocity), 10);
+          expect(across(bounced)).toBeCloseTo(-across(velocity), 10);
+        }
+      }
+    });
+
+    it("should scale the speed along the normal by the restitution", () => {
+      expect(
+        getBounceVelocity({ x: 3, y: 4 }, { ...floor, restitution: 1.5 }),
+      ).toEqual({ x: 3, y: -6 });
+    });
+
+    it("should leave a puck moving away from the surface alone", () => {
+      const velocity = { x: 3, y: -4 };
+      expect(getBounceVelocity(velocity, floor)).toBe(velocity);
+      expect(getBounceVelocity({ x: 5, y: 0 }, floor)).toEqual({ x: 5, y: 0 });
+    });
+
+    it("should bounce relative to a moving surface", () => {
+      // A floor rising at 2 sends the puck back 2 * 2 faster
+      const rising = { ...floor, surfaceVelocity: { x: 0, y: -2 } };
+      expect(getBounceVelocity({ x: 3, y: 4 }, rising)).toEqual({
+        x: 3,
+        y: -8,
+      });
+      // Outrun by the puck moving the same way, it never touches it
+      const falling = { ...floor, surfaceVelocity: { x: 0, y: 6 } };
+      expect(getBounceVelocity({ x: 3, y: 4 }, falling)).toEqual({
+        x: 3,
+        y: 4,
+      });
+    });
+  });
+
+  describe("getSurfaceVelocity", () => {
+    const body = {
+      position: { x: 10, y: 10 },
+      velocity: { x: 1, y: 0 },
+      angularVelocity: 0,
+    };
+
+    it("should move with the body without rotation", () => {
+      expect(getSurfaceVelocity(body, [{ x: 50, y: 10 }])).toEqual({
+        x: 1,
+        y: 0,
+      });
+    });
+
+    it("should add the rotation at the middle of the contacts", () => {
+      const spinning = { ...body, angularVelocity: 0.5 };
+
+      // Clockwise on screen, the right side moves down
+      expect(
+        getSurfaceVelocity(spinning, [
+          { x: 20, y: 8 },
+          { x: 20, y: 12 },
+        ]),
+      ).toEqual({ x: 1, y: 5 });
+      expect(getSurfaceVelocity(spinning, [{ x: 10, y: 0 }])).toEqual({
+        x: 6,
+        y: 0,
+      });
+    });
+  });
+
+  describe("resolveBounces", () => {
+    it("should bounce off both walls of a corner", () => {
+      const contacts: BounceContact[] = [
+        { normal: { x: 0, y: -1 }, restitution: 1 },
+        { normal: { x: -1, y: 0 }, restitution: 1 },
+      ];
+      expect(resolveBounces({ x: 3, y: 4 }, contacts)).toEqual({
+        x: -3,
+        y: -4,
+      });
+    });
+
+    it("should keep the velocity without contacts", () => {
+      expect(resolveBounces({ x: 3, y: 4 }, [])).toEqual({ x: 3, y: 4 });
+    });
+  });
+
+  describe("Matter harness", () => {
+    const { Engine, Bodies, Body, Composite, Events } = Matter;
+    const STEP = 1000 / 60;
+    const SPEED = 10;
+    let factory: typeof import("../src/utils/matter-factory");
+
+    beforeAll(async () => {
+      // Build the track bodies with the real engine instead of the mocks
+      (globalThis as any).Phaser.Physics.Matter.Matter = Matter;
+      vi.resetModules();
+      factory = await import("../src/utils/matter-factory");
+    });
+
+    /**
+     * Slide a puck set up like the game's into a standard wall, rotated by
+     * `wallAngle`, hitting it `hitAngle` degrees off head-on
+     */
+    const simulateHit = (
+      wallAngle: number,
+      hitAngle: number,
+      exactBounces: boolean,
+    ) => {
+      const engine = Engine.create({ gravity: { x: 0, y: 0 } });
+      const normal = unit(wallAngle);
+      const tangent = { x: -normal.y, y: normal.x };
+      const corner = (across: number, along: number) => ({
+        x: normal.x * across + tangent.x * along,
+        y: normal.y * across + tangent.y * along,
+      });
+      const [wall] = factory.createWallBodies([
+        {
+          type: "wall",
+          shape: {
+            vertices: [
+              corner(-20, -1000),
+              corner(20, -1000),
+              corner(20, 1000),
+              corner(-20, 1000),
+            ],
+          },
+        },
+      ]);
+      const puck = Bodies.circle(normal.x * 150, normal.y * 150, 24, {
+        restitution: 0,
+        friction: 1,
+        frictionAir: 0,
+      });
+      Composite.add(engine.world, [wall, puck]);
+
+      const direction = unit(wallAngle + 180 + hitAngle);
+      Body.setVelocity(puck, {
+        x: direction.x * SPEED,
+        y: direction.y * SPEED,
+      });
+
+      // Same hook as the Game scene
+      let contacts: BounceContact[] = [];
+      let incoming: { x: number; y: number } | null = null;
+      Events.on(engine, "collisionStart", (event: any) => {
+        event.pairs.forEach((pair: any) => {
+          const other = (pair.bodyA === puck ? pair.bodyB : pair.bodyA).parent;
+          if (!factory.isLosslessBody(other)) return;
+
+          incoming ??= { x: puck.velocity.x, y: puck.velocity.y };
+          contacts.push({
+            normal: getSurfaceNormal(pair.collision, puck),
+            restitution: other.restitution,
+          });
+        });
+      });
+
+      let hits = 0;
+      for (let frame = 0; frame < 60; frame++) {
+        Engine.update(engine, STEP);
+        if (incoming) {
+          hits++;
+          if (exactBounces) {
+            Body.setVelocity(puck, resolveBounces(incoming, contacts));
+            Body.setAngularVelocity(puck, 0);
+          }
+        }
+        contacts = [];
+        incoming = null;
+      }
+
+      const away = puck.velocity.x * normal.x + puck.velocity.y * normal.y;
+      return { puck, hits, away };
+    };
+
+    it("should build walls that keep their material once static", () => {
+      const [wall] = factory.createWallBodies([
+        { type: "wall", shape: { x: 0, y: 0, width: 10, height: 10 } },
+      ]);
+
+      expect(wall.isStatic).toBe(true);
+      expect(wall.restitution).toBe(1);
+      expect(wall.friction).toBe(0);
+      expect(factory.isLosslessBody(wall)).toBe(true);
+    });
+
+    it("should preserve the speed across angled hits", () => {
+      [0, 30, 90, 135, 200].forEach((wallAngle) => {
+        [0, 20, 45, 70, -60].forEach((hitAngle) => {
+          const { puck, hits, away } = simulateHit(wallAngle, hitAngle, true);
+
+          expect(hits).toBe(1);
+          expect(away).toBeGreaterThan(0);
+          expect(speed(puck.velocity)).toBeCloseTo(SPEED, 9);
+          expect(puck.angularVelocity).toBe(0);
+        });
+      });
+    });
+
+    it("should lose speed to Matter's own response", () => {
+      const { puck, hits } = simulateHit(30, 45, false);
+
+      expect(hits).toBe(1);
+      expect(speed(puck.velocity)).toBeLessThan(SPEED - 1e-6);
+    });
+  });
+});
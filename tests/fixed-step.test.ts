@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import {
+  advanceFixedStep,
+  createFixedStepClock,
+  interpolatePosition,
+} from "../src/utils/fixed-step";
+
+const config = { step: 10, maxStepsPerFrame: 5 };
+
+describe("advanceFixedStep", () => {
+  it("should run whole steps and keep the remainder", () => {
+    const advance = advanceFixedStep(createFixedStepClock(), 25, config);
+
+    expect(advance.steps).toBe(2);
+    expect(advance.clock.tick).toBe(2);
+    expect(advance.clock.accumulator).toBe(5);
+    expect(advance.alpha).toBe(0.5);
+  });
+
+  it("should carry the remainder into the next frame", () => {
+    const first = advanceFixedStep(createFixedStepClock(), 7, config);
+    const second = advanceFixedStep(first.clock, 7, config);
+
+    expect(first.steps).toBe(0);
+    expect(second.steps).toBe(1);
+    expect(second.clock.accumulator).toBe(4);
+  });
+
+  it("should run the same steps for the same time at any frame rate", () => {
+    let fast = createFixedStepClock();
+    for (let frame = 0; frame < 24; frame++) {
+      fast = advanceFixedStep(fast, 1000 / 144, config).clock;
+    }
+    let slow = createFixedStepClock();
+    for (let frame = 0; frame < 10; frame++) {
+      slow = advanceFixedStep(slow, 1000 / 60, config).clock;
+    }
+
+    expect(fast.tick).toBe(16);
+    expect(slow.tick).toBe(16);
+  });
+
+  it("should drop the backlog after a stall", () => {
+    const advance = advanceFixedStep(createFixedStepClock(), 1000, config);
+
+    expect(advance.steps).toBe(5);
+    expect(advance.clock.accumulator).toBeLessThan(config.step);
+  });
+
+  it("should ignore negative deltas", () => {
+    const advance = advanceFixedStep(createFixedStepClock(), -50, config);
+
+    expect(advance.steps).toBe(0);
+    expect(advance.alpha).toBe(0);
+  });
+});
+
+describe("interpolatePosition", () => {
+  it("should blend between two positions", () => {
+    expect(
+      interpolatePosition({ x: 0, y: 10 }, { x: 10, y: 20 }, 0.25),
+    ).toEqual({ x: 2.5, y: 12.5 });
+  });
+});
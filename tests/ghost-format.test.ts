@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import {
+  GAME_VERSION,
+  GHOST_FILE_VERSION,
+  createGhostFile,
+  getGhostFileName,
+  parseGhostFile,
+  serializeGhostFile,
+  validateGhostForTrack,
+} from "../src/utils/ghost-format";
+import { GhostTimeline } from "../src/utils/ghost-replay";
+import { ImportedTrack } from "../src/utils/track-types";
+
+const timeline: GhostTimeline = {
+  slings: [{ frame: 0, x: 12.5, y: -3 }],
+  keyframes: [
+    { frame: 0, time: 0, x: 100, y: 200 },
+    { frame: 5, time: 83, x: 150, y: 190 },
+  ],
+  frameCount: 5,
+  time: 83,
+};
+
+function trackWithHash(trackHash: string): ImportedTrack {
+  return { metadata: { trackHash } } as ImportedTrack;
+}
+
+describe("ghost file serialization", () => {
+  it("should round trip a ghost file", () => {
+    const file = createGhostFile(timeline, "abcd1234", "balance1");
+    const parsed = parseGhostFile(serializeGhostFile(file));
+
+    expect(parsed).toEqual(file);
+    expect(parsed.version).toBe(GHOST_FILE_VERSION);
+    expect(parsed.gameVersion).toBe(GAME_VERSION);
+  });
+
+  it("should reject files that are not ghosts", () => {
+    expect(() => parseGhostFile("not json")).toThrow("not valid JSON");
+    expect(() => parseGhostFile('{"format":"other"}')).toThrow(
+      "Not a PuckPuck2 ghost file",
+    );
+  });
+
+  it("should reject unknown versions", () => {
+    const json = JSON.parse(
+      serializeGhostFile(createGhostFile(timeline, "abcd1234", "balance1")),
+    );
+    json.version = GHOST_FILE_VERSION + 1;
+
+    expect(() => parseGhostFile(JSON.stringify(json))).toThrow(
+      `Unsupported ghost file version: ${GHOST_FILE_VERSION + 1}`,
+    );
+  });
+
+  it("should list every invalid field", () => {
+    const json = JSON.parse(
+      serializeGhostFile(createGhostFile(timeline, "abcd1234", "balance1")),
+    );
+    delete json.trackHash;
+    json.keyframes = [[0, 0, "x", 1]];
+
+    expect(() => parseGhostFile(JSON.stringify(json))).toThrow(
+      "Invalid ghost file: missing trackHash, invalid keyframes",
+    );
+  });
+
+  it("should name files after the track and time", () => {
+    const file = createGhostFile(timeline, "abcd1234", "balance1");
+    expect(getGhostFileName(file)).toBe("ghost_abcd1234_83.ghost.json");
+  });
+});
+
+describe("validateGhostForTrack", () => {
+  it("should accept a ghost for the same track and balance", () => {
+    const file = createGhostFile(timeline, "abcd1234", "balance1");
+    const result = validateGhostForTrack(
+      file,
+      trackWithHash("abcd1234"),
+      "balance1",
+    );
+
+    expect(result.isValid).toBe(true);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("should reject a ghost recorded on another track", () => {
+    const file = createGhostFile(timeline, "abcd1234", "balance1");
+    const result = validateGhostForTrack(
+      file,
+      trackWithHash("ffff0000"),
+      "balance1",
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain("Ghost was recorded on a different track");
+  });
+
+  it("should warn about different balance and game versions", () => {
+    const file = {
+      ...createGhostFile(timeline, "abcd1234", "balance1"),
+      gameVersion: "0.0.1",
+    };
+    const result = validateGhostForTrack(
+      file,
+      trackWithHash("abcd1234"),
+      "balance2",
+    );
+
+    expect(result.isValid).toBe(true);
+    expect(result.warnings).toHaveLength(2);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  GhostRecorder,
+  GhostTimeline,
+  GHOST_STORAGE_KEY,
+  getGhostPosition,
+  loadBestGhost,
+  saveBestGhost,
+} from "../src/utils/ghost-replay";
+
+describe("GhostRecorder", () => {
+  it("should keep a keyframe every interval frames", () => {
+    const recorder = new GhostRecorder(3);
+
+    for (let frame = 0; frame < 7; frame++) {
+      recorder.recordFrame(frame * 10, { x: frame, y: 0 });
+    }
+    const timeline = recorder.finish(70, { x: 7, y: 0 });
+
+    expect(timeline.keyframes.map((k) => k.frame)).toEqual([0, 3, 6, 7]);
+    expect(timeline.frameCount).toBe(7);
+    expect(timeline.time).toBe(70);
+  });
+
+  it("should record slings with the current frame index", () => {
+    const recorder = new GhostRecorder(5);
+
+    recorder.recordSling({ x: 10, y: -20 });
+    recorder.recordFrame(0, { x: 0, y: 0 });
+    recorder.recordFrame(16, { x: 1, y: 0 });
+    recorder.recordSling({ x: -5, y: 5 });
+
+    const timeline = recorder.finish(32, { x: 2, y: 0 });
+
+    expect(timeline.slings).toEqual([
+      { frame: 0, x: 10, y: -20 },
+      { frame: 2, x: -5, y: 5 },
+    ]);
+  });
+
+  it("should not duplicate the final keyframe", () => {
+    const recorder = new GhostRecorder(1);
+
+    recorder.recordFrame(0, { x: 0, y: 0 });
+    recorder.recordFrame(16, { x: 5, y: 0 });
+    const timeline = recorder.finish(16, { x: 6, y: 0 });
+
+    expect(timeline.keyframes).toHaveLength(2);
+    expect(timeline.keyframes[1]).toMatchObject({ time: 16, x: 6 });
+  });
+});
+
+describe("getGhostPosition", () => {
+  const timeline: GhostTimeline = {
+    slings: [],
+    keyframes: [
+      { frame: 0, time: 0, x: 0, y: 0 },
+      { frame: 5, time: 100, x: 100, y: 50 },
+      { frame: 10, time: 200, x: 100, y: 150 },
+    ],
+    frameCount: 10,
+    time: 200,
+  };
+
+  it("should return null for an empty timeline", () => {
+    expect(getGhostPosition({ ...timeline, keyframes: [] }, 50)).toBeNull();
+  });
+
+  it("should interpolate between keyframes", () => {
+    expect(getGhostPosition(timeline, 50)).toEqual({ x: 50, y: 25 });
+    expect(getGhostPosition(timeline, 150)).toEqual({ x: 100, y: 100 });
+  });
+
+  it("should return exact keyframe positions", () => {
+    expect(getGhostPosition(timeline, 100)).toEqual({ x: 100, y: 50 });
+  });
+
+  it("should clamp before the start and after the finish", () => {
+    expect(getGhostPosition(timeline, -10)).toEqual({ x: 0, y: 0 });
+    expect(getGhostPosition(timeline, 500)).toEqual({ x: 100, y: 150 });
+  });
+});
+
+describe("best ghost storage", () => {
+  const timeline: GhostTimeline = {
+    slings: [{ frame: 0, x: 1, y: 2 }],
+    keyframes: [{ frame: 0, time: 0, x: 0, y: 0 }],
+    frameCount: 1,
+    time: 16,
+  };
+
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("should save and load the best ghost per track", () => {
+    saveBestGhost("track-a", timeline);
+
+    expect(loadBestGhost("track-a")).toEqual(timeline);
+    expect(loadBestGhost("track-b")).toBeNull();
+  });
+
+  it("should ignore malformed entries", () => {
+    window.localStorage.setItem(
+      GHOST_STORAGE_KEY,
+      JSON.stringify({ "track-a": { keyframes: "nope" } }),
+    );
+
+    expect(loadBestGhost("track-a")).toBeNull();
+  });
+});
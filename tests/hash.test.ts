@@ -0,0 +1,17 @@
+import { describe, it, expect } from "vitest";
+import { hashString } from "../src/utils/hash";
+
+describe("hashString", () => {
+  it("should return 8 hex characters", () => {
+    expect(hashString("")).toBe("811c9dc5");
+    expect(hashString("a")).toBe("e40c292c");
+  });
+
+  it("should be stable for the same input", () => {
+    expect(hashString("<svg></svg>")).toBe(hashString("<svg></svg>"));
+  });
+
+  it("should differ for different inputs", () => {
+    expect(hashString("track-a")).not.toBe(hashString("track-b"));
+  });
+});
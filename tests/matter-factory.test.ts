@@ -2,6 +2,9 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import {
   Wall,
   Obstacle,
+  Checkpoint,
+  SurfaceZone,
+  Teleporter,
   GameRect,
   TrackBounds,
 } from "../src/utils/track-types";
@@ -9,12 +12,24 @@ import {
   getWallBodyConfig,
   getObstacleBodyConfig,
   getBoundaryBodyConfig,
+  getCheckpointBodyConfig,
   createRectangleBody,
   createCircleBody,
   createWallBodies,
   createObstacleBodies,
   createBoundaryBodies,
+  createCheckpointBodies,
+  createSurfaceZoneBodies,
+  createTeleporterBodies,
+  getBodyMaterial,
+  isLosslessBody,
+  applyBounceScale,
+  MATERIAL_PROPERTIES,
   createInvisibleBoundary,
+  calculatePolygonCentroid,
+  createPolygonBody,
+  createCompoundBody,
+  createEllipseBody,
 } from "../src/utils/matter-factory";
 
 // Get the global mock bodies from setup
@@ -50,7 +65,6 @@ describe("matter-factory", () => {
       const config = getWallBodyConfig();
 
       expect(config.isStatic).toBe(true);
-      expect(config.restitution).toBe(0.8);
       expect(config.label).toBe("wall");
     });
 
@@ -58,10 +72,29 @@ describe("matter-factory", () => {
       const config = getObstacleBodyConfig();
 
       expect(config.isStatic).toBe(true);
-      expect(config.restitution).toBe(0.9);
       expect(config.label).toBe("obstacle");
     });
 
+    it("should make standard walls and obstacles lossless", () => {
+      [getWallBodyConfig(), getObstacleBodyConfig()].forEach((config) => {
+        expect(config.restitution).toBe(1);
+        expect(config.friction).toBe(0);
+        expect(config.plugin).toEqual({ material: "standard" });
+      });
+    });
+
+    it("should map materials to their restitution and friction", () => {
+      expect(getWallBodyConfig("bumper").restitution).toBeGreaterThan(1);
+      expect(getWallBodyConfig("dead").restitution).toBeLessThan(0.5);
+      expect(getObstacleBodyConfig("sticky")).toEqual(
+        expect.objectContaining({
+          ...MATERIAL_PROPERTIES.sticky,
+          label: "obstacle",
+          plugin: { material: "sticky" },
+        }),
+      );
+    });
+
     it("should return boundary body config", () => {
       const config = getBoundaryBodyConfig();
 
@@ -70,6 +103,14 @@ describe("matter-factory", () => {
       expect(config.label).toBe("boundary");
       expect(config.isSensor).toBe(false);
     });
+
+    it("should return checkpoint body config", () => {
+      const config = getCheckpointBodyConfig();
+
+      expect(config.isStatic).toBe(true);
+      expect(config.isSensor).toBe(true);
+      expect(config.label).toBe("checkpoint");
+    });
   });
 
   describe("createRectangleBody", () => {
@@ -101,6 +142,98 @@ describe("matter-factory", () => {
     });
   });
 
+  describe("polygon bodies", () => {
+    const triangle = [
+      { x: 0, y: 0 },
+      { x: 30, y: 0 },
+      { x: 0, y: 30 },
+    ];
+
+    it("should calculate the area centroid of a polygon", () => {
+      expect(calculatePolygonCentroid(triangle)).toEqual({ x: 10, y: 10 });
+    });
+
+    it("should create polygon bodies at their centroid", () => {
+      const options = { isStatic: true, label: "test-polygon" };
+
+      createPolygonBody({ vertices: triangle }, options);
+
+      expect(mockBodies.fromVertices).toHaveBeenCalledWith(
+        10,
+        10,
+        [triangle],
+        options,
+      );
+    });
+
+    it("should approximate ellipses with polygons", () => {
+      const body = createEllipseBody(
+        { x: 100, y: 50, radiusX: 40, radiusY: 20 },
+        { label: "ellipse" },
+      );
+
+      expect(mockBodies.fromVertices).toHaveBeenCalledTimes(1);
+      expect(body.position.x).toBeCloseTo(100);
+      expect(body.position.y).toBeCloseTo(50);
+    });
+
+    it("should use circle bodies for round ellipses", () => {
+      createEllipseBody({ x: 100, y: 50, radiusX: 20, radiusY: 20 });
+
+      expect(mockBodies.circle).toHaveBeenCalledWith(100, 50, 20, undefined);
+      expect(mockBodies.fromVertices).not.toHaveBeenCalled();
+    });
+
+    it("should combine compound shapes into one body", () => {
+      const other = triangle.map((v) => ({ x: v.x + 100, y: v.y }));
+
+      const body = createCompoundBody(
+        { parts: [{ vertices: triangle }, { vertices: other }] },
+        { isStatic: true, label: "wall" },
+      );
+
+      expect(mockBodies.fromVertices).toHaveBeenCalledTimes(2);
+      expect(body.parts).toHaveLength(3); // parent and two parts
+      expect(body.label).toBe("wall");
+    });
+
+    it("should leave the holes of a polygon out of its body", () => {
+      const body = createPolygonBody(
+        {
+          vertices: [
+            { x: 0, y: 0 },
+            { x: 100, y: 0 },
+            { x: 100, y: 100 },
+            { x: 0, y: 100 },
+          ],
+          holes: [
+            [
+              { x: 25, y: 25 },
+              { x: 75, y: 25 },
+              { x: 75, y: 75 },
+              { x: 25, y: 75 },
+            ],
+          ],
+        },
+        { isStatic: true, label: "wall" },
+      );
+
+      // Triangles of the ring between both squares
+      const triangles = body.parts.slice(1);
+      const area = triangles.reduce((total: number, part: any) => {
+        const [a, b, c] = part.vertices;
+        return (
+          total +
+          Math.abs((b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y)) / 2
+        );
+      }, 0);
+
+      expect(triangles.length).toBeGreaterThan(1);
+      expect(area).toBeCloseTo(100 * 100 - 50 * 50);
+      expect(body.label).toBe("wall");
+    });
+  });
+
   describe("createWallBodies", () => {
     it("should create bodies for wall objects", () => {
       const walls: Wall[] = [
@@ -134,6 +267,101 @@ describe("matter-factory", () => {
       expect(bodies[0].label).toBe("wall-wall-1");
       expect(bodies[1].label).toBe("wall-wall-2");
     });
+
+    it("should apply per-wall restitution and friction", () => {
+      createWallBodies([
+        {
+          type: "wall",
+          shape: { x: 0, y: 0, width: 10, height: 10 },
+          restitution: 0.5,
+        },
+        {
+          type: "wall",
+          shape: { x: 0, y: 0, width: 10, height: 10 },
+          friction: 0.3,
+        },
+      ]);
+
+      expect(mockBodies.rectangle).toHaveBeenNthCalledWith(
+        1,
+        5,
+        5,
+        10,
+        10,
+        expect.objectContaining({ restitution: 0.5, friction: 0 }),
+      );
+      expect(mockBodies.rectangle).toHaveBeenNthCalledWith(
+        2,
+        5,
+        5,
+        10,
+        10,
+        expect.objectContaining({ restitution: 1, friction: 0.3 }),
+      );
+    });
+
+    it("should build walls from their material", () => {
+      const bodies = createWallBodies([
+        {
+          type: "wall",
+          shape: { x: 0, y: 0, width: 10, height: 10 },
+          material: "bumper",
+          friction: 0.3,
+        },
+      ]);
+
+      expect(mockBodies.rectangle).toHaveBeenCalledWith(
+        5,
+        5,
+        10,
+        10,
+        expect.objectContaining({
+          restitution: MATERIAL_PROPERTIES.bumper.restitution,
+          friction: 0.3,
+          plugin: { material: "bumper" },
+        }),
+      );
+      expect(getBodyMaterial(bodies[0])).toBe("bumper");
+    });
+
+    it("should only make frictionless walls lossless", () => {
+      const bodies = createWallBodies([
+        { type: "wall", shape: { x: 0, y: 0, width: 10, height: 10 } },
+        {
+          type: "wall",
+          shape: { x: 0, y: 0, width: 10, height: 10 },
+          friction: 0.3,
+        },
+        {
+          type: "wall",
+          shape: { x: 0, y: 0, width: 10, height: 10 },
+          material: "dead",
+        },
+      ]);
+
+      expect(bodies.map(isLosslessBody)).toEqual([true, false, false]);
+      expect(
+        isLosslessBody({ friction: 0, plugin: {} } as MatterJS.BodyType),
+      ).toBe(false);
+    });
+
+    it("should scale wall restitution from the material's", () => {
+      const bodies = createWallBodies([
+        { type: "wall", shape: { x: 0, y: 0, width: 10, height: 10 } },
+        {
+          type: "wall",
+          shape: { x: 0, y: 0, width: 10, height: 10 },
+          material: "bumper",
+        },
+      ]);
+
+      applyBounceScale(bodies, 0.5);
+      expect(bodies.map((body) => body.restitution)).toEqual([0.5, 0.75]);
+
+      // Scaling again starts from the material, not the last scale
+      applyBounceScale(bodies, 1);
+      expect(bodies.map((body) => body.restitution)).toEqual([1, 1.5]);
+    });
   });
 
   describe("createObstacleBodies", () => {
@@ -177,6 +405,91 @@ describe("matter-factory", () => {
     });
   });
 
+  describe("createCheckpointBodies", () => {
+    it("should create sensors labelled with their order", () => {
+      const checkpoints: Checkpoint[] = [
+        {
+          type: "checkpoint",
+          id: "cp-b",
+          shape: { x: 100, y: 0, width: 20, height: 200 },
+        },
+        {
+          type: "checkpoint",
+          id: "cp-a",
+          shape: { x: 500, y: 0, width: 20, height: 200 },
+        },
+      ];
+
+      const bodies = createCheckpointBodies(checkpoints);
+
+      expect(mockBodies.rectangle).toHaveBeenCalledWith(
+        110,
+        100,
+        20,
+        200,
+        expect.objectContaining({ isSensor: true, isStatic: true }),
+      );
+      expect(bodies[0].label).toBe("checkpoint-0");
+      expect(bodies[1].label).toBe("checkpoint-1");
+    });
+  });
+
+  describe("createSurfaceZoneBodies", () => {
+    it("should create sensors labelled with their zone index", () => {
+      const zones: SurfaceZone[] = [
+        {
+          type: "boost",
+          shape: { x: 100, y: 100, radius: 30 },
+          strength: 12,
+          direction: { x: 1, y: 0 },
+        },
+        {
+          type: "ice",
+          shape: { x: 0, y: 0, width: 200, height: 100 },
+          strength: null,
+          direction: null,
+        },
+      ];
+
+      const bodies = createSurfaceZoneBodies(zones);
+
+      expect(mockBodies.circle).toHaveBeenCalledWith(
+        100,
+        100,
+        30,
+        expect.objectContaining({ isSensor: true, isStatic: true }),
+      );
+      expect(bodies.map((body) => body.label)).toEqual(["zone-0", "zone-1"]);
+    });
+  });
+
+  describe("createTeleporterBodies", () => {
+    it("should create entrance sensors labelled with their index", () => {
+      const exit = {
+        shape: { x: 500, y: 500, radius: 20 },
+        position: { x: 500, y: 500 },
+        direction: null,
+      };
+      const teleporters: Teleporter[] = [
+        { link: "a", shape: { x: 100, y: 100, radius: 30 }, exit },
+        { link: "a", shape: { x: 0, y: 0, width: 50, height: 50 }, exit },
+      ];
+
+      const bodies = createTeleporterBodies(teleporters);
+
+      expect(mockBodies.circle).toHaveBeenCalledWith(
+        100,
+        100,
+        30,
+        expect.objectContaining({ isSensor: true, isStatic: true }),
+      );
+      expect(bodies.map((body) => body.label)).toEqual([
+        "teleporter-0",
+        "teleporter-1",
+      ]);
+    });
+  });
+
   describe("createBoundaryBodies", () => {
     it("should create boundary bodies from rectangles", () => {
       const boundaries: GameRect[] = [
@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyMotionTrack,
+  getKeyframeProgress,
+  getObstaclePose,
+} from "../src/utils/obstacle-motion";
+import { MotionTiming, MotionTrack } from "../src/utils/track-types";
+
+const timing = (overrides: Partial<MotionTiming> = {}): MotionTiming => ({
+  begin: 0,
+  duration: 1000,
+  repeatCount: 1,
+  freeze: false,
+  keyTimes: [0, 1],
+  eased: false,
+  ...overrides,
+});
+
+const slide = (dx: number, dy: number, overrides = {}): MotionTrack => ({
+  type: "translate",
+  offsets: [
+    { x: 0, y: 0 },
+    { x: dx, y: dy },
+  ],
+  ...timing(overrides),
+});
+
+const turn = (
+  angle: number,
+  pivot = { x: 0, y: 0 },
+  overrides = {},
+): MotionTrack => ({
+  type: "rotate",
+  angles: [0, angle],
+  pivot,
+  ...timing(overrides),
+});
+
+describe("obstacle-motion", () => {
+  describe("getKeyframeProgress", () => {
+    it("should rest before the animation begins", () => {
+      expect(getKeyframeProgress(timing({ begin: 500 }), 499)).toBeNull();
+      expect(getKeyframeProgress(timing({ begin: 500 }), 750)).toEqual({
+        index: 0,
+        fraction: 0.25,
+      });
+    });
+
+    it("should start partway through with a negative begin", () => {
+      expect(getKeyframeProgress(timing({ begin: -250 }), 0)).toEqual({
+        index: 0,
+        fraction: 0.25,
+      });
+    });
+
+    it("should find the keyframe segment", () => {
+      const keyTimes = timing({ keyTimes: [0, 0.8, 1] });
+
+      expect(getKeyframeProgress(keyTimes, 400)).toEqual({
+        index: 0,
+        fraction: 0.5,
+      });
+      expect(getKeyframeProgress(keyTimes, 900)!.index).toBe(1);
+      expect(getKeyframeProgress(keyTimes, 900)!.fraction).toBeCloseTo(0.5);
+    });
+
+    it("should loop indefinitely repeated animations", () => {
+      expect(
+        getKeyframeProgress(timing({ repeatCount: Infinity }), 10250),
+      ).toEqual({ index: 0, fraction: 0.25 });
+    });
+
+    it("should return to rest once over unless frozen", () => {
+      expect(getKeyframeProgress(timing({ repeatCount: 2 }), 2000)).toBeNull();
+      expect(
+        getKeyframeProgress(timing({ repeatCount: 2, freeze: true }), 5000),
+      ).toEqual({ index: 0, fraction: 1 });
+    });
+
+    it("should freeze partial repeats where they stopped", () => {
+      expect(
+        getKeyframeProgress(timing({ repeatCount: 1.5, freeze: true }), 5000),
+      ).toEqual({ index: 0, fraction: 0.5 });
+    });
+
+    it("should ease in and out", () => {
+      const eased = timing({ eased: true });
+
+      expect(getKeyframeProgress(eased, 0)!.fraction).toBe(0);
+      expect(getKeyframeProgress(eased, 500)!.fraction).toBeCloseTo(0.5);
+      expect(getKeyframeProgress(eased, 100)!.fraction).toBeLessThan(0.1);
+    });
+  });
+
+  describe("applyMotionTrack", () => {
+    it("should add the interpolated offset", () => {
+      expect(
+        applyMotionTrack({ x: 10, y: 10, angle: 0.5 }, slide(40, -20), 250),
+      ).toEqual({ x: 20, y: 5, angle: 0.5 });
+    });
+
+    it("should rotate around the pivot", () => {
+      const pose = applyMotionTrack(
+        { x: 20, y: 10, angle: 0 },
+        turn(Math.PI, { x: 10, y: 10 }),
+        500,
+      );
+
+      expect(pose.x).toBeCloseTo(10);
+      expect(pose.y).toBeCloseTo(20);
+      expect(pose.angle).toBeCloseTo(Math.PI / 2);
+    });
+
+    it("should leave the pose alone at rest", () => {
+      const pose = { x: 1, y: 2, angle: 3 };
+
+      expect(applyMotionTrack(pose, slide(10, 0, { begin: 100 }), 0)).toBe(
+        pose,
+      );
+    });
+  });
+
+  describe("getObstaclePose", () => {
+    it("should stay home without motion", () => {
+      expect(getObstaclePose([], { x: 5, y: 6 }, 1234)).toEqual({
+        x: 5,
+        y: 6,
+        angle: 0,
+      });
+    });
+
+    it("should apply the innermost track first", () => {
+      // A group spinning around the origin carrying a sliding obstacle
+      const pose = getObstaclePose(
+        [turn(Math.PI), slide(10, 0)],
+        { x: 10, y: 0 },
+        500,
+      );
+
+      expect(pose.x).toBeCloseTo(0);
+      expect(pose.y).toBeCloseTo(15);
+      expect(pose.angle).toBeCloseTo(Math.PI / 2);
+    });
+
+    it("should return to the same pose every loop", () => {
+      const motion = [
+        turn(2 * Math.PI, { x: 0, y: 0 }, { repeatCount: Infinity }),
+      ];
+      const first = getObstaclePose(motion, { x: 10, y: 0 }, 300);
+      const later = getObstaclePose(motion, { x: 10, y: 0 }, 5300);
+
+      expect(later.x).toBeCloseTo(first.x);
+      expect(later.y).toBeCloseTo(first.y);
+    });
+  });
+});
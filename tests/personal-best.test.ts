@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  PERSONAL_BEST_STORAGE_KEY,
+  BEST_SPLITS_STORAGE_KEY,
+  getPersonalBest,
+  recordPersonalBest,
+  getPersonalBestLap,
+  recordPersonalBestLap,
+  getBestSplits,
+  saveBestSplits,
+} from "../src/utils/personal-best";
+
+describe("personal-best", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("should return null for a track never finished", () => {
+    expect(getPersonalBest("abcd1234")).toBeNull();
+  });
+
+  it("should record the first finish as a new best", () => {
+    const update = recordPersonalBest("abcd1234", 15000);
+
+    expect(update).toEqual({ previousBest: null, isNewBest: true });
+    expect(getPersonalBest("abcd1234")).toBe(15000);
+  });
+
+  it("should only replace the best with a faster time", () => {
+    recordPersonalBest("abcd1234", 15000);
+
+    const slower = recordPersonalBest("abcd1234", 16000);
+    expect(slower).toEqual({ previousBest: 15000, isNewBest: false });
+    expect(getPersonalBest("abcd1234")).toBe(15000);
+
+    const faster = recordPersonalBest("abcd1234", 14000);
+    expect(faster).toEqual({ previousBest: 15000, isNewBest: true });
+    expect(getPersonalBest("abcd1234")).toBe(14000);
+  });
+
+  it("should keep bests per track", () => {
+    recordPersonalBest("track-a", 10000);
+    recordPersonalBest("track-b", 20000);
+
+    expect(getPersonalBest("track-a")).toBe(10000);
+    expect(getPersonalBest("track-b")).toBe(20000);
+  });
+
+  it("should ignore corrupted storage", () => {
+    window.localStorage.setItem(PERSONAL_BEST_STORAGE_KEY, "{oops");
+
+    expect(getPersonalBest("abcd1234")).toBeNull();
+  });
+
+  describe("best laps", () => {
+    it("should keep best laps apart from best times", () => {
+      recordPersonalBest("abcd1234", 30000);
+      const update = recordPersonalBestLap("abcd1234", 9000);
+
+      expect(update).toEqual({ previousBest: null, isNewBest: true });
+      expect(getPersonalBestLap("abcd1234")).toBe(9000);
+      expect(getPersonalBest("abcd1234")).toBe(30000);
+    });
+
+    it("should only replace the best lap with a faster one", () => {
+      recordPersonalBestLap("abcd1234", 9000);
+
+      expect(recordPersonalBestLap("abcd1234", 9500)).toEqual({
+        previousBest: 9000,
+        isNewBest: false,
+      });
+      expect(getPersonalBestLap("abcd1234")).toBe(9000);
+    });
+  });
+
+  describe("best splits", () => {
+    it("should return null for a track without splits", () => {
+      expect(getBestSplits("abcd1234")).toBeNull();
+    });
+
+    it("should store splits per track", () => {
+      saveBestSplits("track-a", [1000, 2000]);
+      saveBestSplits("track-b", [3000]);
+
+      expect(getBestSplits("track-a")).toEqual([1000, 2000]);
+      expect(getBestSplits("track-b")).toEqual([3000]);
+    });
+
+    it("should ignore malformed splits", () => {
+      window.localStorage.setItem(
+        BEST_SPLITS_STORAGE_KEY,
+        JSON.stringify({ abcd1234: [1000, "fast"] }),
+      );
+
+      expect(getBestSplits("abcd1234")).toBeNull();
+    });
+  });
+});
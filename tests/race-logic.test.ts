@@ -0,0 +1,283 @@
+import { describe, it, expect } from "vitest";
+import {
+  createRaceState,
+  startRace,
+  finishRace,
+  getElapsedTime,
+  formatRaceTime,
+  getLineCrossing,
+  getLapLine,
+  createLapProgress,
+  crossLapLine,
+  getBestLap,
+  getBestLapDelta,
+  formatTimeDelta,
+  getBestDelta,
+  createRunStats,
+  createCheckpointProgress,
+  passCheckpoint,
+  hasPassedAllCheckpoints,
+  getSplitDelta,
+  RunResult,
+} from "../src/utils/race-logic";
+import { RaceLine } from "../src/utils/track-types";
+
+describe("race state machine", () => {
+  it("should start in the ready phase with no time", () => {
+    const state = createRaceState();
+
+    expect(state.phase).toBe("ready");
+    expect(getElapsedTime(state, 5000)).toBe(0);
+  });
+
+  it("should start the clock when going from ready to running", () => {
+    const state = startRace(createRaceState(), 1000);
+
+    expect(state.phase).toBe("running");
+    expect(getElapsedTime(state, 3500)).toBe(2500);
+  });
+
+  it("should not restart the clock on later slings", () => {
+    const started = startRace(createRaceState(), 1000);
+    const state = startRace(started, 2000);
+
+    expect(state).toBe(started);
+    expect(state.startTime).toBe(1000);
+  });
+
+  it("should freeze the time once finished", () => {
+    const running = startRace(createRaceState(), 1000);
+    const finished = finishRace(running, 13340);
+
+    expect(finished.phase).toBe("finished");
+    expect(getElapsedTime(finished, 20000)).toBe(12340);
+  });
+
+  it("should not finish a race that has not started", () => {
+    const state = createRaceState();
+
+    expect(finishRace(state, 1000)).toBe(state);
+  });
+
+  it("should not start again after finishing", () => {
+    const finished = finishRace(startRace(createRaceState(), 0), 100);
+
+    expect(startRace(finished, 200)).toBe(finished);
+  });
+});
+
+describe("formatRaceTime", () => {
+  it("should show seconds with two decimals", () => {
+    expect(formatRaceTime(0)).toBe("0.00");
+    expect(formatRaceTime(12345)).toBe("12.34");
+    expect(formatRaceTime(9)).toBe("0.00");
+    expect(formatRaceTime(10)).toBe("0.01");
+  });
+
+  it("should show minutes when needed", () => {
+    expect(formatRaceTime(61230)).toBe("1:01.23");
+    expect(formatRaceTime(600000)).toBe("10:00.00");
+  });
+
+  it("should clamp negative times to zero", () => {
+    expect(formatRaceTime(-50)).toBe("0.00");
+  });
+});
+
+describe("getLineCrossing", () => {
+  // Horizontal finish line crossed upwards
+  const finishLine: RaceLine = {
+    start: { x: 100, y: 100 },
+    end: { x: 400, y: 100 },
+    direction: { x: 0, y: -1 },
+    width: 10,
+  };
+
+  it("should count the leading edge crossing in the direction", () => {
+    expect(
+      getLineCrossing({ x: 200, y: 130 }, { x: 200, y: 120 }, 24, finishLine),
+    ).toBe("forward");
+  });
+
+  it("should not count a move that stays before the line", () => {
+    expect(
+      getLineCrossing({ x: 200, y: 160 }, { x: 200, y: 130 }, 24, finishLine),
+    ).toBeNull();
+  });
+
+  it("should report crossing backwards", () => {
+    expect(
+      getLineCrossing({ x: 200, y: 50 }, { x: 200, y: 150 }, 24, finishLine),
+    ).toBe("backward");
+  });
+
+  it("should count a fast puck jumping over the line", () => {
+    expect(
+      getLineCrossing({ x: 200, y: 300 }, { x: 200, y: -100 }, 24, finishLine),
+    ).toBe("forward");
+  });
+
+  it("should ignore crossings beside the segment", () => {
+    expect(
+      getLineCrossing({ x: 450, y: 150 }, { x: 450, y: 50 }, 24, finishLine),
+    ).toBeNull();
+    // Within a radius of the end still counts
+    expect(
+      getLineCrossing({ x: 420, y: 150 }, { x: 420, y: 50 }, 24, finishLine),
+    ).toBe("forward");
+  });
+
+  it("should report backward crossings of the same edge", () => {
+    expect(
+      getLineCrossing({ x: 200, y: 120 }, { x: 200, y: 130 }, 24, finishLine),
+    ).toBe("backward");
+    expect(
+      getLineCrossing({ x: 200, y: 130 }, { x: 200, y: 120 }, 24, finishLine),
+    ).toBe("forward");
+    expect(
+      getLineCrossing({ x: 200, y: 50 }, { x: 200, y: 60 }, 24, finishLine),
+    ).toBeNull();
+  });
+});
+
+describe("laps", () => {
+  const line: RaceLine = {
+    start: { x: 0, y: 0 },
+    end: { x: 0, y: 100 },
+    direction: { x: 1, y: 0 },
+    width: 10,
+  };
+
+  it("should use the start line of a circuit without a finish line", () => {
+    const markers = {
+      startLine: null,
+      finishLine: null,
+      startSegment: line,
+      finishSegment: null,
+    };
+
+    expect(getLapLine({ markers, laps: 3 })).toBe(line);
+    expect(getLapLine({ markers, laps: 1 })).toBeNull();
+  });
+
+  it("should time each lap from the end of the previous one", () => {
+    let progress = createLapProgress();
+    progress = crossLapLine(progress, "forward", 10000, true);
+    progress = crossLapLine(progress, "forward", 19000, true);
+
+    expect(progress.lapTimes).toEqual([10000, 9000]);
+    expect(progress.lapStart).toBe(19000);
+  });
+
+  it("should not complete a lap with checkpoints left", () => {
+    const progress = createLapProgress();
+
+    expect(crossLapLine(progress, "forward", 10000, false)).toBe(progress);
+  });
+
+  it("should make up for backward crossings before counting a lap", () => {
+    let progress = createLapProgress();
+    progress = crossLapLine(progress, "backward", 1000, true);
+    progress = crossLapLine(progress, "forward", 2000, true);
+
+    expect(progress.lapTimes).toEqual([]);
+
+    progress = crossLapLine(progress, "forward", 12000, true);
+    expect(progress.lapTimes).toEqual([12000]);
+  });
+
+  it("should find the best lap", () => {
+    expect(getBestLap([10000, 9000, 9500])).toBe(9000);
+    expect(getBestLap([])).toBeNull();
+  });
+});
+
+describe("formatTimeDelta", () => {
+  it("should prefix faster times with a minus sign", () => {
+    expect(formatTimeDelta(-420)).toBe("-0.42");
+  });
+
+  it("should prefix slower or equal times with a plus sign", () => {
+    expect(formatTimeDelta(1050)).toBe("+1.05");
+    expect(formatTimeDelta(0)).toBe("+0.00");
+  });
+});
+
+describe("getBestDelta", () => {
+  const result: RunResult = {
+    ...createRunStats(),
+    trackHash: "abcd1234",
+    time: 12000,
+    previousBest: 12500,
+    isNewBest: true,
+    lapTimes: [4100, 3900, 4000],
+    previousBestLap: 4000,
+    isNewBestLap: true,
+  };
+
+  it("should be negative when beating the previous best", () => {
+    expect(getBestDelta(result)).toBe(-500);
+  });
+
+  it("should be null without a previous best", () => {
+    expect(getBestDelta({ ...result, previousBest: null })).toBeNull();
+  });
+});
+
+describe("checkpoint progress", () => {
+  it("should count checkpoints hit in order with their times", () => {
+    let progress = createCheckpointProgress();
+    progress = passCheckpoint(progress, 0, 1200);
+    progress = passCheckpoint(progress, 1, 2500);
+
+    expect(progress).toEqual({ next: 2, splits: [1200, 2500] });
+  });
+
+  it("should ignore checkpoints hit out of order or twice", () => {
+    const first = passCheckpoint(createCheckpointProgress(), 0, 1200);
+
+    expect(passCheckpoint(first, 2, 1800)).toBe(first);
+    expect(passCheckpoint(first, 0, 1900)).toBe(first);
+  });
+
+  it("should require every checkpoint before finishing", () => {
+    const progress = passCheckpoint(createCheckpointProgress(), 0, 1200);
+
+    expect(hasPassedAllCheckpoints(progress, 2)).toBe(false);
+    expect(hasPassedAllCheckpoints(progress, 1)).toBe(true);
+    expect(hasPassedAllCheckpoints(createCheckpointProgress(), 0)).toBe(true);
+  });
+});
+
+describe("getSplitDelta", () => {
+  it("should compare a split with the same split of the best run", () => {
+    expect(getSplitDelta([1200, 2400], [1000, 2600], 0)).toBe(200);
+    expect(getSplitDelta([1200, 2400], [1000, 2600], 1)).toBe(-200);
+  });
+
+  it("should be null without a best split", () => {
+    expect(getSplitDelta([1200], null, 0)).toBeNull();
+    expect(getSplitDelta([1200, 2400], [1000], 1)).toBeNull();
+  });
+});
+
+describe("getBestLapDelta", () => {
+  const result: RunResult = {
+    ...createRunStats(),
+    trackHash: "abcd1234",
+    time: 12000,
+    previousBest: null,
+    isNewBest: true,
+    lapTimes: [4100, 3900, 4000],
+    previousBestLap: 4000,
+    isNewBestLap: true,
+  };
+
+  it("should compare the best lap of the run", () => {
+    expect(getBestLapDelta(result)).toBe(-100);
+  });
+
+  it("should be null without a previous best lap", () => {
+    expect(getBestLapDelta({ ...result, previousBestLap: null })).toBeNull();
+  });
+});
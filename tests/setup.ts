@@ -1,5 +1,7 @@
 // Global test setup
 import { vi } from "vitest";
+// Phaser's polygon triangulation, plain JavaScript the mock can reuse
+import earcut from "phaser/src/geom/polygon/Earcut.js";
 
 // Mock Phaser globally for tests
 const mockBodies = {
@@ -20,13 +22,42 @@ const mockBodies = {
     label: options?.label || "body",
     ...options,
   })),
+  fromVertices: vi.fn((x, y, vertexSets, options) => {
+    const body: any = {
+      id: Math.random(),
+      position: { x, y },
+      vertices: vertexSets[0],
+      label: options?.label || "body",
+      ...options,
+    };
+    body.parts = [body];
+    return body;
+  }),
+};
+
+const mockBody = {
+  create: vi.fn((options) => {
+    const body: any = {
+      id: Math.random(),
+      label: options?.label || "body",
+      ...options,
+    };
+    body.parts = [body, ...(options?.parts ?? [])];
+    return body;
+  }),
 };
 
 (globalThis as any).Phaser = {
+  Geom: {
+    Polygon: {
+      Earcut: earcut,
+    },
+  },
   Physics: {
     Matter: {
       Matter: {
         Bodies: mockBodies,
+        Body: mockBody,
       },
     },
   },
@@ -0,0 +1,294 @@
+import { describe, it, expect } from "vitest";
+import {
+  createSlingState,
+  recordSling,
+  updateSlingState,
+  calculateTimingMultiplier,
+  calculateAngleBetween,
+  calculateAngleMultiplier,
+  clampVectorLength,
+  applyPowerCurve,
+  calculateSlingImpulse,
+  SlingImpulseConfig,
+  TimingBoostConfig,
+  AngleBoostConfig,
+} from "../src/utils/sling-physics";
+
+describe("sling state tracking", () => {
+  const config: TimingBoostConfig = {
+    maxMultiplier: 1.5,
+    curveExponent: 1,
+    decelerationThreshold: 0.1,
+    minPeakSpeed: 1,
+  };
+
+  it("should start with no peak speed", () => {
+    expect(createSlingState()).toEqual({
+      peakSpeed: 0,
+      currentSpeed: 0,
+      isDecelerating: false,
+    });
+  });
+
+  it("should use the launch speed as the initial peak", () => {
+    const state = recordSling(20);
+
+    expect(state.peakSpeed).toBe(20);
+    expect(state.isDecelerating).toBe(false);
+  });
+
+  it("should raise the peak while the puck accelerates", () => {
+    let state = recordSling(10);
+    state = updateSlingState(state, 12, config);
+    state = updateSlingState(state, 15, config);
+
+    expect(state.peakSpeed).toBe(15);
+    expect(state.isDecelerating).toBe(false);
+  });
+
+  it("should flag deceleration once speed drops past the threshold", () => {
+    let state = recordSling(10);
+
+    state = updateSlingState(state, 9.95, config);
+    expect(state.isDecelerating).toBe(false);
+
+    state = updateSlingState(state, 9.5, config);
+    expect(state.isDecelerating).toBe(true);
+    expect(state.peakSpeed).toBe(10);
+    expect(state.currentSpeed).toBe(9.5);
+  });
+});
+
+describe("calculateTimingMultiplier", () => {
+  const config: TimingBoostConfig = {
+    maxMultiplier: 2,
+    curveExponent: 1,
+    decelerationThreshold: 0.1,
+    minPeakSpeed: 1,
+  };
+
+  it("should return 1 for the first sling", () => {
+    expect(calculateTimingMultiplier(createSlingState(), config)).toBe(1);
+  });
+
+  it("should return 1 while the puck is not decelerating", () => {
+    expect(calculateTimingMultiplier(recordSling(20), config)).toBe(1);
+  });
+
+  it("should scale linearly with the ratio to the peak speed", () => {
+    const state = { peakSpeed: 20, currentSpeed: 15, isDecelerating: true };
+
+    // 75% of peak speed with max multiplier 2 -> 1 + 1 * 0.75
+    expect(calculateTimingMultiplier(state, config)).toBe(1.75);
+  });
+
+  it("should approach the max multiplier near the peak", () => {
+    const state = { peakSpeed: 20, currentSpeed: 19.8, isDecelerating: true };
+
+    expect(calculateTimingMultiplier(state, config)).toBeCloseTo(1.99);
+  });
+
+  it("should approach 1 when the puck has almost stopped", () => {
+    const state = { peakSpeed: 20, currentSpeed: 0, isDecelerating: true };
+
+    expect(calculateTimingMultiplier(state, config)).toBe(1);
+  });
+
+  it("should concentrate the reward near the peak with a higher exponent", () => {
+    const state = { peakSpeed: 20, currentSpeed: 10, isDecelerating: true };
+
+    const result = calculateTimingMultiplier(state, {
+      ...config,
+      curveExponent: 2,
+    });
+
+    // 50% of peak speed squared -> 1 + 1 * 0.25
+    expect(result).toBe(1.25);
+  });
+
+  it("should ignore slings that barely moved the puck", () => {
+    const state = { peakSpeed: 0.5, currentSpeed: 0.3, isDecelerating: true };
+
+    expect(calculateTimingMultiplier(state, config)).toBe(1);
+  });
+});
+
+describe("calculateAngleBetween", () => {
+  it("should return 0 for identical directions", () => {
+    expect(calculateAngleBetween({ x: 1, y: 0 }, { x: 5, y: 0 })).toBe(0);
+  });
+
+  it("should return 90 for perpendicular directions", () => {
+    expect(calculateAngleBetween({ x: 1, y: 0 }, { x: 0, y: -3 })).toBe(90);
+  });
+
+  it("should return 180 for opposite directions", () => {
+    expect(calculateAngleBetween({ x: 1, y: 1 }, { x: -2, y: -2 })).toBeCloseTo(
+      180,
+    );
+  });
+
+  it("should return 0 when a vector has no length", () => {
+    expect(calculateAngleBetween({ x: 0, y: 0 }, { x: 1, y: 0 })).toBe(0);
+  });
+});
+
+describe("calculateAngleMultiplier", () => {
+  const config: AngleBoostConfig = {
+    peakMultiplier: 1.5,
+    peakDegrees: 45,
+    curveExponent: 1,
+    minSpeed: 1,
+  };
+  const velocity = { x: 10, y: 0 };
+
+  function slingAt(degrees: number) {
+    const radians = (degrees * Math.PI) / 180;
+    return { x: Math.cos(radians), y: Math.sin(radians) };
+  }
+
+  it("should return 1 when slinging in the current direction", () => {
+    expect(calculateAngleMultiplier(velocity, slingAt(0), config)).toBe(1);
+  });
+
+  it("should peak at 45 degrees", () => {
+    expect(calculateAngleMultiplier(velocity, slingAt(45), config)).toBeCloseTo(
+      1.5,
+    );
+    expect(
+      calculateAngleMultiplier(velocity, slingAt(-45), config),
+    ).toBeCloseTo(1.5);
+  });
+
+  it("should be lower on both sides of the peak", () => {
+    const at30 = calculateAngleMultiplier(velocity, slingAt(30), config);
+    const at45 = calculateAngleMultiplier(velocity, slingAt(45), config);
+    const at60 = calculateAngleMultiplier(velocity, slingAt(60), config);
+
+    expect(at30).toBeGreaterThan(1);
+    expect(at30).toBeLessThan(at45);
+    expect(at60).toBeGreaterThan(1);
+    expect(at60).toBeLessThan(at45);
+  });
+
+  it("should return 1 at twice the peak angle and beyond", () => {
+    expect(calculateAngleMultiplier(velocity, slingAt(90), config)).toBeCloseTo(
+      1,
+    );
+    expect(calculateAngleMultiplier(velocity, slingAt(180), config)).toBe(1);
+  });
+
+  it("should return 1 when the puck is (almost) still", () => {
+    expect(
+      calculateAngleMultiplier({ x: 0.5, y: 0 }, slingAt(45), config),
+    ).toBe(1);
+  });
+
+  it("should narrow the window with a higher curve exponent", () => {
+    const wide = calculateAngleMultiplier(velocity, slingAt(20), config);
+    const narrow = calculateAngleMultiplier(velocity, slingAt(20), {
+      ...config,
+      curveExponent: 3,
+    });
+
+    expect(narrow).toBeLessThan(wide);
+    expect(
+      calculateAngleMultiplier(velocity, slingAt(45), {
+        ...config,
+        curveExponent: 3,
+      }),
+    ).toBeCloseTo(1.5);
+  });
+
+  it("should follow a tuned peak angle", () => {
+    const result = calculateAngleMultiplier(velocity, slingAt(30), {
+      ...config,
+      peakDegrees: 30,
+    });
+
+    expect(result).toBeCloseTo(1.5);
+  });
+});
+
+describe("clampVectorLength", () => {
+  it("should keep vectors shorter than the max length", () => {
+    expect(clampVectorLength({ x: 3, y: 4 }, 10)).toEqual({ x: 3, y: 4 });
+  });
+
+  it("should scale longer vectors down to the max length", () => {
+    expect(clampVectorLength({ x: 30, y: 40 }, 10)).toEqual({ x: 6, y: 8 });
+  });
+
+  it("should handle zero vectors", () => {
+    expect(clampVectorLength({ x: 0, y: 0 }, 10)).toEqual({ x: 0, y: 0 });
+  });
+});
+
+describe("applyPowerCurve", () => {
+  it("should map linearly", () => {
+    expect(applyPowerCurve(0.5, "linear")).toBe(0.5);
+  });
+
+  it("should ease in (less power on short slings)", () => {
+    expect(applyPowerCurve(0.5, "ease-in")).toBe(0.25);
+  });
+
+  it("should ease out (more power on short slings)", () => {
+    expect(applyPowerCurve(0.5, "ease-out")).toBe(0.75);
+  });
+
+  it("should keep the endpoints for every curve", () => {
+    (["linear", "ease-in", "ease-out"] as const).forEach((curve) => {
+      expect(applyPowerCurve(0, curve)).toBe(0);
+      expect(applyPowerCurve(1, curve)).toBe(1);
+    });
+  });
+
+  it("should clamp ratios outside of 0 to 1", () => {
+    expect(applyPowerCurve(2, "linear")).toBe(1);
+    expect(applyPowerCurve(-1, "ease-out")).toBe(0);
+  });
+});
+
+describe("calculateSlingImpulse", () => {
+  const config: SlingImpulseConfig = {
+    maxLength: 500,
+    velocityMultiplier: 0.1,
+    powerCurve: "linear",
+  };
+
+  it("should match the plain velocity multiplier within the max length", () => {
+    const impulse = calculateSlingImpulse({ x: 300, y: -400 }, config);
+
+    expect(impulse.length).toBe(500);
+    expect(impulse.power).toBe(1);
+    expect(impulse.velocity.x).toBeCloseTo(30);
+    expect(impulse.velocity.y).toBeCloseTo(-40);
+  });
+
+  it("should cap the impulse when dragging past the max length", () => {
+    const impulse = calculateSlingImpulse({ x: 3000, y: 0 }, config);
+
+    expect(impulse.vector).toEqual({ x: 500, y: 0 });
+    expect(impulse.length).toBe(500);
+    expect(impulse.velocity.x).toBeCloseTo(50);
+    expect(impulse.velocity.y).toBeCloseTo(0);
+  });
+
+  it("should apply the power curve to the launch speed", () => {
+    const impulse = calculateSlingImpulse(
+      { x: 0, y: 250 },
+      { ...config, powerCurve: "ease-in" },
+    );
+
+    expect(impulse.power).toBe(0.25);
+    expect(impulse.velocity.y).toBeCloseTo(12.5);
+  });
+
+  it("should return no impulse for an empty drag", () => {
+    const impulse = calculateSlingImpulse({ x: 0, y: 0 }, config);
+
+    expect(impulse.power).toBe(0);
+    expect(impulse.velocity).toEqual({ x: 0, y: 0 });
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { createSpatialGrid, querySpatialGrid } from "../src/utils/spatial-grid";
+
+describe("spatial-grid", () => {
+  const grid = createSpatialGrid(
+    [
+      { x: 0, y: 0, width: 50, height: 50 },
+      { x: 150, y: 0, width: 100, height: 10 },
+      { x: -120, y: -120, width: 20, height: 20 },
+    ],
+    100,
+  );
+
+  it("should return the items overlapping the point's cell", () => {
+    expect(querySpatialGrid(grid, { x: 10, y: 10 })).toEqual([0]);
+    expect(querySpatialGrid(grid, { x: 120, y: 50 })).toEqual([1]);
+    expect(querySpatialGrid(grid, { x: 210, y: 5 })).toEqual([1]);
+  });
+
+  it("should handle negative coordinates", () => {
+    expect(querySpatialGrid(grid, { x: -110, y: -110 })).toEqual([2]);
+  });
+
+  it("should return nothing for empty cells", () => {
+    expect(querySpatialGrid(grid, { x: 500, y: 500 })).toEqual([]);
+  });
+
+  it("should reject invalid cell sizes", () => {
+    expect(() => createSpatialGrid([], 0)).toThrow();
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import {
+  SurfaceZoneConfig,
+  getBoostedVelocity,
+  getZoneAirFriction,
+} from "../src/utils/surface-zones";
+import { SurfaceZone } from "../src/utils/track-types";
+
+const config: SurfaceZoneConfig = {
+  airFriction: 0.05,
+  boostSpeed: 10,
+  slowAirFriction: 0.15,
+  iceAirFriction: 0.005,
+};
+
+function createZone(
+  type: SurfaceZone["type"],
+  overrides: Partial<SurfaceZone> = {},
+): SurfaceZone {
+  return {
+    shape: { x: 0, y: 0, width: 100, height: 100 },
+    type,
+    strength: null,
+    direction: null,
+    ...overrides,
+  };
+}
+
+describe("getBoostedVelocity", () => {
+  it("should push along the pad direction", () => {
+    const pad = createZone("boost", { direction: { x: 0, y: -1 } });
+
+    expect(getBoostedVelocity({ x: 5, y: 0 }, pad, config)).toEqual({
+      x: 5,
+      y: -10,
+    });
+  });
+
+  it("should push the way the puck goes without a direction", () => {
+    const pad = createZone("boost", { strength: 5 });
+
+    expect(getBoostedVelocity({ x: 3, y: 4 }, pad, config)).toEqual({
+      x: 6,
+      y: 8,
+    });
+  });
+
+  it("should leave a puck at rest alone without a direction", () => {
+    const pad = createZone("boost");
+
+    expect(getBoostedVelocity({ x: 0, y: 0 }, pad, config)).toEqual({
+      x: 0,
+      y: 0,
+    });
+  });
+});
+
+describe("getZoneAirFriction", () => {
+  it("should use the normal air friction outside of zones", () => {
+    expect(getZoneAirFriction([], config)).toBe(0.05);
+    expect(getZoneAirFriction([createZone("boost")], config)).toBe(0.05);
+  });
+
+  it("should use the zone strength or the balance default", () => {
+    expect(getZoneAirFriction([createZone("slow")], config)).toBe(0.15);
+    expect(
+      getZoneAirFriction([createZone("ice", { strength: 0.001 })], config),
+    ).toBe(0.001);
+  });
+
+  it("should let slow zones win over ice", () => {
+    const zones = [
+      createZone("ice"),
+      createZone("slow", { strength: 0.2 }),
+      createZone("slow"),
+    ];
+
+    expect(getZoneAirFriction(zones, config)).toBe(0.2);
+  });
+});
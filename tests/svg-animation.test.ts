@@ -0,0 +1,300 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_MOTION_PERIOD,
+  getDataAnimations,
+  getElementAnimations,
+  parseAnimationElement,
+  parseClockValue,
+} from "../src/utils/svg-animation";
+import { createMockDocument } from "./test-utils";
+
+const animationOf = (markup: string) => {
+  const doc = createMockDocument(`<svg width="100" height="100">
+    <rect id="target" x="0" y="0" width="20" height="20">${markup}</rect>
+  </svg>`);
+  return parseAnimationElement(doc.querySelector("#target")!.children[0]);
+};
+
+describe("svg-animation", () => {
+  describe("parseClockValue", () => {
+    it("should read timecount values", () => {
+      expect(parseClockValue("2s")).toBe(2000);
+      expect(parseClockValue("500ms")).toBe(500);
+      expect(parseClockValue("1.5")).toBe(1500);
+      expect(parseClockValue("0.5min")).toBe(30000);
+      expect(parseClockValue("-1s")).toBe(-1000);
+    });
+
+    it("should read full and partial clock values", () => {
+      expect(parseClockValue("0:02.5")).toBe(2500);
+      expect(parseClockValue("1:00:00")).toBe(3600000);
+    });
+
+    it("should reject anything else", () => {
+      expect(parseClockValue("click")).toBeNull();
+      expect(parseClockValue("indefinite")).toBeNull();
+      expect(parseClockValue("")).toBeNull();
+    });
+  });
+
+  describe("parseAnimationElement", () => {
+    it("should read a spinning animateTransform", () => {
+      const animation = animationOf(
+        `<animateTransform attributeName="transform" type="rotate"
+          from="0 10 10" to="360 10 10" dur="3s" repeatCount="indefinite"/>`,
+      );
+
+      expect(animation).toMatchObject({
+        outside: false,
+        track: {
+          type: "rotate",
+          pivot: { x: 10, y: 10 },
+          begin: 0,
+          duration: 3000,
+          repeatCount: Infinity,
+          freeze: false,
+          keyTimes: [0, 1],
+          eased: false,
+        },
+      });
+      expect(
+        animation!.track.type === "rotate" && animation!.track.angles,
+      ).toEqual([0, 2 * Math.PI]);
+      expect(animation!.target.id).toBe("target");
+    });
+
+    it("should read translate values with keyTimes", () => {
+      const animation = animationOf(
+        `<animateTransform attributeName="transform" type="translate"
+          values="0 0; 50 0; 50 20" keyTimes="0; 0.8; 1" dur="1s"
+          begin="0.5s" repeatCount="2" fill="freeze"/>`,
+      );
+
+      expect(animation!.track).toMatchObject({
+        type: "translate",
+        offsets: [
+          { x: 0, y: 0 },
+          { x: 50, y: 0 },
+          { x: 50, y: 20 },
+        ],
+        keyTimes: [0, 0.8, 1],
+        begin: 500,
+        repeatCount: 2,
+        freeze: true,
+      });
+    });
+
+    it("should space keyframes evenly without valid keyTimes", () => {
+      const animation = animationOf(
+        `<animateTransform attributeName="transform" type="translate"
+          values="0; 10; 20" keyTimes="0; 1" dur="1s"/>`,
+      );
+
+      expect(animation!.track.keyTimes).toEqual([0, 0.5, 1]);
+    });
+
+    it("should build values from from/by and from rest to to", () => {
+      const by = animationOf(
+        `<animateTransform attributeName="transform" type="translate"
+          from="10 0" by="5 5" dur="1s"/>`,
+      );
+      const to = animationOf(
+        `<animateTransform attributeName="transform" type="rotate" to="90"
+          dur="1s"/>`,
+      );
+
+      expect(by!.track.type === "translate" && by!.track.offsets).toEqual([
+        { x: 10, y: 0 },
+        { x: 15, y: 5 },
+      ]);
+      expect(to!.track.type === "rotate" && to!.track.angles).toEqual([
+        0,
+        Math.PI / 2,
+      ]);
+    });
+
+    it("should pace animateMotion along its path", () => {
+      const animation = animationOf(
+        `<animateMotion path="M0 0 L30 0 L30 10" dur="4s"
+          repeatCount="indefinite"/>`,
+      );
+
+      expect(animation).toMatchObject({
+        outside: true,
+        track: {
+          type: "translate",
+          offsets: [
+            { x: 0, y: 0 },
+            { x: 30, y: 0 },
+            { x: 30, y: 10 },
+          ],
+          keyTimes: [0, 0.75, 1],
+        },
+      });
+    });
+
+    it("should close animateMotion loops", () => {
+      const animation = animationOf(
+        `<animateMotion path="M0 0 H10 V10 Z" dur="4s" calcMode="linear"/>`,
+      );
+
+      expect(
+        animation!.track.type === "translate" && animation!.track.offsets,
+      ).toEqual([
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 10, y: 10 },
+        { x: 0, y: 0 },
+      ]);
+      expect(animation!.track.keyTimes).toEqual([0, 1 / 3, 2 / 3, 1]);
+    });
+
+    it("should ease spline animations", () => {
+      const animation = animationOf(
+        `<animateTransform attributeName="transform" type="translate"
+          values="0; 10" calcMode="spline" keySplines="0.4 0 0.6 1" dur="1s"/>`,
+      );
+
+      expect(animation!.track.eased).toBe(true);
+    });
+
+    it("should ignore animations that cannot move an obstacle", () => {
+      expect(
+        animationOf(
+          `<animateTransform attributeName="transform" type="scale"
+            from="1" to="2" dur="1s"/>`,
+        ),
+      ).toBeNull();
+      expect(
+        animationOf(`<animateTransform attributeName="transform" to="10"/>`),
+      ).toBeNull();
+      expect(
+        animationOf(`<animate attributeName="transform" to="10" dur="1s"/>`),
+      ).toBeNull();
+      expect(
+        animationOf(
+          `<animateMotion href="#other" path="M0 0 L10 0" dur="1s"/>`,
+        ),
+      ).toBeNull();
+    });
+
+    it("should only start on clock begin values", () => {
+      expect(
+        animationOf(
+          `<animateTransform attributeName="transform" type="rotate"
+            to="90" dur="1s" begin="click"/>`,
+        ),
+      ).toBeNull();
+      expect(
+        animationOf(
+          `<animateTransform attributeName="transform" type="rotate"
+            to="90" dur="1s" begin="click; 2s; 1s"/>`,
+        )!.track.begin,
+      ).toBe(1000);
+    });
+  });
+
+  describe("getDataAnimations", () => {
+    const elementWith = (attributes: string) =>
+      createMockDocument(`<svg width="100" height="100">
+        <rect id="target" x="10" y="20" width="40" height="20" ${attributes}/>
+      </svg>`).querySelector("#target") as SVGElement;
+
+    it("should spin around the element's center", () => {
+      const [spin] = getDataAnimations(elementWith(`data-spin="-90"`));
+
+      expect(spin.track).toMatchObject({
+        type: "rotate",
+        pivot: { x: 30, y: 30 },
+        duration: 4000,
+        repeatCount: Infinity,
+      });
+      expect(spin.track.type === "rotate" && spin.track.angles).toEqual([
+        0,
+        -2 * Math.PI,
+      ]);
+    });
+
+    it("should swing through the middle at the start", () => {
+      const [swing] = getDataAnimations(
+        elementWith(`data-swing="30" data-pivot="30 0" data-period="3"`),
+      );
+
+      expect(swing.track).toMatchObject({
+        type: "rotate",
+        pivot: { x: 30, y: 0 },
+        begin: -750,
+        duration: 3000,
+        eased: true,
+      });
+    });
+
+    it("should slide there and back", () => {
+      const [slide] = getDataAnimations(elementWith(`data-slide="0 50"`));
+
+      expect(slide.track).toMatchObject({
+        type: "translate",
+        offsets: [
+          { x: 0, y: 0 },
+          { x: 0, y: 50 },
+          { x: 0, y: 0 },
+        ],
+        duration: DEFAULT_MOTION_PERIOD,
+        eased: true,
+      });
+    });
+
+    it("should inherit data attributes from groups", () => {
+      const doc = createMockDocument(`<svg width="100" height="100">
+        <g data-spin="180"><circle id="target" cx="5" cy="5" r="5"/></g>
+      </svg>`);
+      const [spin] = getDataAnimations(
+        doc.querySelector("#target") as SVGElement,
+      );
+
+      expect(spin.target.id).toBe("target");
+      expect(spin.track).toMatchObject({
+        pivot: { x: 5, y: 5 },
+        duration: 2000,
+      });
+    });
+
+    it("should leave elements without motion attributes alone", () => {
+      expect(getDataAnimations(elementWith(`data-period="3"`))).toEqual([]);
+    });
+  });
+
+  describe("getElementAnimations", () => {
+    it("should list group animations first and motion before transforms", () => {
+      const doc = createMockDocument(`<svg width="100" height="100">
+        <g id="group">
+          <animateTransform attributeName="transform" type="rotate"
+            to="90" dur="1s"/>
+          <rect id="target" x="0" y="0" width="10" height="10" data-slide="5 0">
+            <animateTransform attributeName="transform" type="translate"
+              to="10 0" dur="1s"/>
+            <animateMotion path="M0 0 L0 10" dur="1s"/>
+          </rect>
+        </g>
+      </svg>`);
+
+      const animations = getElementAnimations(
+        doc.querySelector("#target") as SVGElement,
+      );
+
+      expect(
+        animations.map(({ target, outside, track }) => [
+          target.id,
+          outside,
+          track.type,
+        ]),
+      ).toEqual([
+        ["group", false, "rotate"],
+        ["target", true, "translate"],
+        ["target", false, "translate"],
+        ["target", false, "translate"],
+      ]);
+      expect(animations[3].track.duration).toBe(DEFAULT_MOTION_PERIOD);
+    });
+  });
+});
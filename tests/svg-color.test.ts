@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { normalizeColor } from "../src/utils/svg-color";
+
+describe("svg-color", () => {
+  describe("normalizeColor", () => {
+    it("should normalize hex colors", () => {
+      expect(normalizeColor("#000")).toBe("#000000");
+      expect(normalizeColor("#fFd700")).toBe("#FFD700");
+      expect(normalizeColor("#80008080")).toBe("#800080");
+      expect(normalizeColor("#00fa")).toBe("#0000FF");
+    });
+
+    it("should resolve named colors case-insensitively", () => {
+      expect(normalizeColor("black")).toBe("#000000");
+      expect(normalizeColor(" Purple ")).toBe("#800080");
+      expect(normalizeColor("gold")).toBe("#FFD700");
+    });
+
+    it("should parse rgb() in both syntaxes", () => {
+      expect(normalizeColor("rgb(0,0,0)")).toBe("#000000");
+      expect(normalizeColor("rgba(128, 0, 128, 0.5)")).toBe("#800080");
+      expect(normalizeColor("rgb(0 0 255 / 50%)")).toBe("#0000FF");
+      expect(normalizeColor("rgb(100%, 100%, 100%)")).toBe("#FFFFFF");
+    });
+
+    it("should parse hsl()", () => {
+      expect(normalizeColor("hsl(0, 0%, 100%)")).toBe("#FFFFFF");
+      expect(normalizeColor("hsl(240 100% 50%)")).toBe("#0000FF");
+      expect(normalizeColor("hsla(300, 100%, 25.1%, 1)")).toBe("#800080");
+    });
+
+    it("should return null for missing or invisible colors", () => {
+      expect(normalizeColor(null)).toBeNull();
+      expect(normalizeColor("none")).toBeNull();
+      expect(normalizeColor("transparent")).toBeNull();
+      expect(normalizeColor("rgba(0, 0, 0, 0)")).toBeNull();
+      expect(normalizeColor("#00000000")).toBeNull();
+      expect(normalizeColor("not-a-color")).toBeNull();
+      expect(normalizeColor("#12345")).toBeNull();
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import {
   parseSVGText,
   extractElementsByColor,
@@ -6,8 +6,16 @@ import {
   extractTrackElements,
   getSVGDimensions,
   getSVGWorldSize,
+  getSVGRespawnMode,
+  getSVGLapCount,
   getElementBounds,
   getCircleData,
+  getResolvedPaint,
+  getSurfaceProperties,
+  getTrackRole,
+  getTeleporterLink,
+  getStrokeWidth,
+  isFilledWithColor,
 } from "../src/utils/svg-parser";
 import {
   createMockSVG,
@@ -107,6 +115,222 @@ describe("svg-parser", () => {
     });
   });
 
+  describe("color resolution", () => {
+    const resolve = (svgText: string, selector: string) => {
+      const element = createMockDocument(svgText).querySelector(selector)!;
+      return {
+        fill: getResolvedPaint(element, "fill"),
+        stroke: getResolvedPaint(element, "stroke"),
+      };
+    };
+
+    it("should normalize attribute colors", () => {
+      expect(
+        resolve(
+          '<svg><rect fill="#000" stroke="rgb(128, 0, 128)"/></svg>',
+          "rect",
+        ),
+      ).toEqual({ fill: "#000000", stroke: "#800080" });
+    });
+
+    it("should let the inline style override attributes", () => {
+      expect(
+        resolve(
+          '<svg><rect fill="red" style="fill: black; stroke:gold"/></svg>',
+          "rect",
+        ),
+      ).toEqual({ fill: "#000000", stroke: "#FFD700" });
+    });
+
+    it("should apply <style> rules by specificity", () => {
+      const svgText = `<svg>
+        <style>
+          .wall { fill: #000; }
+          rect { fill: blue; }
+          #special.wall { fill: purple; }
+        </style>
+        <rect class="wall"/>
+        <rect id="special" class="wall" fill="red"/>
+      </svg>`;
+
+      expect(resolve(svgText, "rect.wall").fill).toBe("#000000");
+      expect(resolve(svgText, "#special").fill).toBe("#800080");
+    });
+
+    it("should let important rules win over the inline style", () => {
+      const svgText = `<svg>
+        <style>.wall { fill: black !important; }</style>
+        <rect class="wall" style="fill: white"/>
+      </svg>`;
+
+      expect(resolve(svgText, "rect").fill).toBe("#000000");
+    });
+
+    it("should skip at-rules and comments", () => {
+      const svgText = `<svg>
+        <style>
+          /* .wall { fill: red; } */
+          @media print { .wall { fill: blue; } }
+          .wall { fill: purple; }
+        </style>
+        <rect class="wall"/>
+      </svg>`;
+
+      expect(resolve(svgText, "rect").fill).toBe("#800080");
+    });
+
+    it("should inherit paint from groups", () => {
+      const svgText = `<svg>
+        <g fill="purple" stroke="#000" stroke-width="4">
+          <g><circle r="5"/></g>
+          <rect fill="inherit" stroke="none"/>
+        </g>
+      </svg>`;
+
+      expect(resolve(svgText, "circle")).toEqual({
+        fill: "#800080",
+        stroke: "#000000",
+      });
+      expect(resolve(svgText, "rect")).toEqual({
+        fill: "#800080",
+        stroke: null,
+      });
+      expect(
+        getStrokeWidth(
+          createMockDocument(svgText).querySelector("circle") as SVGElement,
+        ),
+      ).toBe(4);
+    });
+
+    it("should resolve currentColor and url() fallbacks", () => {
+      const svgText = `<svg>
+        <g color="gold"><rect fill="currentColor" stroke="url(#grad) blue"/></g>
+      </svg>`;
+
+      expect(resolve(svgText, "rect")).toEqual({
+        fill: "#FFD700",
+        stroke: "#0000FF",
+      });
+    });
+
+    it("should default to a black fill, except for lines", () => {
+      expect(resolve("<svg><rect/></svg>", "rect")).toEqual({
+        fill: "#000000",
+        stroke: null,
+      });
+      expect(resolve("<svg><line/></svg>", "line").fill).toBeNull();
+    });
+
+    it("should extract elements using the resolved colors", () => {
+      const doc = createMockDocument(`<svg>
+        <style>.obstacle { fill: purple; }</style>
+        <defs><rect id="template" fill="#800080"/></defs>
+        <g fill="#800080">
+          <rect id="grouped"/>
+        </g>
+        <circle id="classed" class="obstacle"/>
+        <rect id="styled" style="fill: rgb(128, 0, 128)"/>
+        <rect id="wall" fill="#000"/>
+      </svg>`);
+
+      const ids = extractElementsByColor(doc, "#800080").map(
+        (element) => element.id,
+      );
+
+      expect(ids).toEqual(["grouped", "classed", "styled"]);
+      expect(
+        isFilledWithColor(doc.querySelector("#wall") as SVGElement, "black"),
+      ).toBe(true);
+    });
+  });
+
+  describe("track roles", () => {
+    const svgText = `<svg>
+      <rect id="tagged-wall" data-puck-role="wall" fill="tomato"/>
+      <rect id="recolored" data-puck-role="obstacle" fill="#000000"/>
+      <rect id="colored-wall" fill="#000000"/>
+      <g data-puck-role="checkpoint">
+        <line id="checkpoint-1" stroke="orange"/>
+        <line id="checkpoint-2" stroke="orange"/>
+      </g>
+      <rect id="track" data-puck-role=" Track " fill="grey"/>
+      <rect id="typo" data-puck-role="wal" fill="#800080"/>
+    </svg>`;
+    const ids = (elements: SVGElement[]) =>
+      elements.map((element) => element.id);
+
+    it("should read the role from the element or its group", () => {
+      const doc = createMockDocument(svgText);
+
+      expect(getTrackRole(doc.querySelector("#tagged-wall")!)).toBe("wall");
+      expect(getTrackRole(doc.querySelector("#checkpoint-1")!)).toBe(
+        "checkpoint",
+      );
+      expect(getTrackRole(doc.querySelector("#track")!)).toBe("track");
+      expect(getTrackRole(doc.querySelector("#colored-wall")!)).toBeNull();
+    });
+
+    it("should classify by role first and fall back to colors", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const elements = extractTrackElements(createMockDocument(svgText));
+
+      expect(ids(elements.walls)).toEqual(["tagged-wall", "colored-wall"]);
+      // An unknown role falls back to the color
+      expect(ids(elements.obstacles)).toEqual(["recolored", "typo"]);
+      expect(ids(elements.trackAreas)).toEqual(["track"]);
+      expect(ids(elements.outOfBounds)).toEqual([]);
+      expect(ids(elements.checkpoints)).toEqual([
+        "checkpoint-1",
+        "checkpoint-2",
+      ]);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it("should read surface properties from data attributes", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const doc = createMockDocument(`<svg>
+        <g data-restitution="1">
+          <rect id="bouncy" data-friction="0"/>
+          <rect id="broken" data-friction="slippery"/>
+        </g>
+        <rect id="plain"/>
+      </svg>`);
+
+      expect(getSurfaceProperties(doc.querySelector("#bouncy")!)).toEqual({
+        restitution: 1,
+        friction: 0,
+      });
+      expect(getSurfaceProperties(doc.querySelector("#broken")!)).toEqual({
+        restitution: 1,
+      });
+      expect(getSurfaceProperties(doc.querySelector("#plain")!)).toEqual({});
+      warn.mockRestore();
+    });
+
+    it("should read the material from data-material", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const doc = createMockDocument(`<svg>
+        <g data-material="Bumper">
+          <rect id="bumper"/>
+          <rect id="sticky" data-material="sticky" data-friction="0.5"/>
+        </g>
+        <rect id="unknown" data-material="rubber"/>
+      </svg>`);
+
+      expect(getSurfaceProperties(doc.querySelector("#bumper")!)).toEqual({
+        material: "bumper",
+      });
+      expect(getSurfaceProperties(doc.querySelector("#sticky")!)).toEqual({
+        material: "sticky",
+        friction: 0.5,
+      });
+      expect(getSurfaceProperties(doc.querySelector("#unknown")!)).toEqual({});
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+
   describe("getSVGDimensions", () => {
     it("should extract SVG dimensions", () => {
       const svgText = '<svg width="800" height="600"><rect/></svg>';
@@ -117,6 +341,13 @@ describe("svg-parser", () => {
       expect(dimensions.height).toBe(600);
     });
 
+    it("should fall back to the viewBox size", () => {
+      const svgText = '<svg viewBox="0 0 400 300"><rect/></svg>';
+      const doc = createMockDocument(svgText);
+
+      expect(getSVGDimensions(doc)).toEqual({ width: 400, height: 300 });
+    });
+
     it("should throw error for missing SVG element", () => {
       const doc = createMockDocument("<div></div>");
       expect(() => getSVGDimensions(doc)).toThrow("No SVG root element found");
@@ -179,6 +410,141 @@ describe("svg-parser", () => {
       expect(elements.startLines).toHaveLength(1);
       expect(elements.finishLines).toHaveLength(1);
     });
+
+    it("should extract out-of-bounds zones in either color or by role", () => {
+      const doc = createMockDocument(`<svg>
+        <rect id="track" fill="white"/>
+        <rect id="sky" fill="#87CEEB"/>
+        <circle id="red" fill="rgb(255, 0, 0)"/>
+        <rect id="tagged" data-puck-role="out-of-bounds" fill="green"/>
+      </svg>`);
+
+      expect(
+        extractTrackElements(doc).outOfBounds.map((element) => element.id),
+      ).toEqual(["sky", "red", "tagged"]);
+    });
+
+    it("should ignore out-of-bounds zones painted under the track", () => {
+      const doc = createMockDocument(`<svg>
+        <rect id="background" fill="#87CEEB"/>
+        <rect id="pit" data-puck-role="out-of-bounds"/>
+        <g><rect id="track" fill="white"/></g>
+        <circle id="hole" fill="red"/>
+      </svg>`);
+
+      expect(
+        extractTrackElements(doc).outOfBounds.map((element) => element.id),
+      ).toEqual(["hole"]);
+    });
+
+    it("should extract checkpoints by color or role", () => {
+      const doc = createMockDocument(`<svg>
+        <rect id="orange" fill="orange"/>
+        <rect id="tagged" data-puck-role="checkpoint" fill="#00FF00"/>
+      </svg>`);
+
+      expect(
+        extractTrackElements(doc).checkpoints.map((element) => element.id),
+      ).toEqual(["orange", "tagged"]);
+    });
+  });
+
+  describe("surface zones", () => {
+    it("should extract boost pads, slow and ice zones", () => {
+      const doc = createMockDocument(`<svg>
+        <rect id="boost" fill="lime"/>
+        <rect id="mud" fill="saddlebrown"/>
+        <rect id="ice" fill="cyan"/>
+        <g data-puck-role="ice"><circle id="rink" fill="white"/></g>
+      </svg>`);
+      const elements = extractTrackElements(doc);
+
+      expect(elements.boostPads.map((element) => element.id)).toEqual([
+        "boost",
+      ]);
+      expect(elements.slowZones.map((element) => element.id)).toEqual(["mud"]);
+      expect(elements.iceZones.map((element) => element.id)).toEqual([
+        "ice",
+        "rink",
+      ]);
+    });
+  });
+
+  describe("teleporters", () => {
+    it("should extract entrances and exits", () => {
+      const doc = createMockDocument(`<svg>
+        <rect id="in" fill="magenta" data-teleporter="a"/>
+        <rect id="out" fill="blueviolet" data-teleporter="a"/>
+        <g data-puck-role="teleporter-exit" data-teleporter="b">
+          <circle id="back" fill="white"/>
+        </g>
+      </svg>`);
+      const elements = extractTrackElements(doc);
+
+      expect(elements.teleporters.map((element) => element.id)).toEqual(["in"]);
+      expect(elements.teleporterExits.map((element) => element.id)).toEqual([
+        "out",
+        "back",
+      ]);
+    });
+
+    it("should read the link from the element or its group", () => {
+      const doc = createMockDocument(`<svg>
+        <g data-teleporter=" left "><rect id="grouped"/></g>
+        <rect id="empty" data-teleporter=""/>
+        <rect id="unlinked"/>
+      </svg>`);
+      const link = (id: string) =>
+        getTeleporterLink(doc.querySelector(`#${id}`)!);
+
+      expect(link("grouped")).toBe("left");
+      expect(link("empty")).toBeNull();
+      expect(link("unlinked")).toBeNull();
+    });
+  });
+
+  describe("getSVGLapCount", () => {
+    it("should read data-laps", () => {
+      const doc = createMockDocument(
+        '<svg width="800" height="600" data-laps="3"><rect/></svg>',
+      );
+
+      expect(getSVGLapCount(doc)).toBe(3);
+    });
+
+    it("should default to a single lap", () => {
+      const missing = createMockDocument('<svg width="800" height="600"/>');
+      const invalid = createMockDocument(
+        '<svg width="800" height="600" data-laps="2.5"/>',
+      );
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      expect(getSVGLapCount(missing)).toBe(1);
+      expect(getSVGLapCount(invalid)).toBe(1);
+      warn.mockRestore();
+    });
+  });
+
+  describe("getSVGRespawnMode", () => {
+    it("should read data-respawn", () => {
+      const doc = createMockDocument(
+        '<svg width="800" height="600" data-respawn="checkpoint"><rect/></svg>',
+      );
+
+      expect(getSVGRespawnMode(doc)).toBe("checkpoint");
+    });
+
+    it("should default to the last valid position", () => {
+      const missing = createMockDocument('<svg width="800" height="600"/>');
+      const invalid = createMockDocument(
+        '<svg width="800" height="600" data-respawn="teleport"/>',
+      );
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      expect(getSVGRespawnMode(missing)).toBe("last-position");
+      expect(getSVGRespawnMode(invalid)).toBe("last-position");
+      warn.mockRestore();
+    });
   });
 
   describe("getElementBounds", () => {
@@ -238,6 +604,54 @@ describe("svg-parser", () => {
       expect(bounds.width).toBe(110); // |x2-x1| + strokeWidth
       expect(bounds.height).toBe(110); // |y2-y1| + strokeWidth
     });
+
+    it("should get bounds for ellipse element", () => {
+      const svgText = createMockSVG([
+        { type: "ellipse", cx: 100, cy: 50, rx: 40, ry: 20, fill: "#000000" },
+      ]);
+      const doc = createMockDocument(svgText);
+      const ellipse = doc.querySelector("ellipse")!;
+
+      expect(getElementBounds(ellipse as SVGElement)).toEqual({
+        x: 60,
+        y: 30,
+        width: 80,
+        height: 40,
+      });
+    });
+
+    it("should get bounds for polygon element", () => {
+      const svgText = createMockSVG([
+        { type: "polygon", points: "10,20 50,5 30,60", fill: "#000000" },
+      ]);
+      const doc = createMockDocument(svgText);
+      const polygon = doc.querySelector("polygon")!;
+
+      expect(getElementBounds(polygon as SVGElement)).toEqual({
+        x: 10,
+        y: 5,
+        width: 40,
+        height: 55,
+      });
+    });
+
+    it("should get bounds for path element", () => {
+      const svgText = createMockSVG([
+        {
+          type: "path",
+          d: "M100 150 Q150 50 200 150 L200 250 Z",
+          fill: "#000000",
+        },
+      ]);
+      const doc = createMockDocument(svgText);
+      const path = doc.querySelector("path")!;
+
+      const bounds = getElementBounds(path as SVGElement);
+      expect(bounds.x).toBe(100);
+      expect(bounds.y).toBeCloseTo(100); // quadratic peak
+      expect(bounds.width).toBe(100);
+      expect(bounds.height).toBeCloseTo(150);
+    });
   });
 
   describe("getCircleData", () => {
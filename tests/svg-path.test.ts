@@ -0,0 +1,197 @@
+import { describe, it, expect } from "vitest";
+import {
+  parsePathData,
+  flattenPathData,
+  getSubpathBounds,
+  getPathRegions,
+} from "../src/utils/svg-path";
+
+describe("svg-path", () => {
+  describe("parsePathData", () => {
+    it("should parse commands with their arguments", () => {
+      expect(parsePathData("M10 20 L30,40 h5 V-2.5 z")).toEqual([
+        { type: "M", args: [10, 20] },
+        { type: "L", args: [30, 40] },
+        { type: "h", args: [5] },
+        { type: "V", args: [-2.5] },
+        { type: "z", args: [] },
+      ]);
+    });
+
+    it("should treat extra moveto pairs as lineto", () => {
+      expect(parsePathData("m0 0 10 0 0 10").map((c) => c.type)).toEqual([
+        "m",
+        "l",
+        "l",
+      ]);
+    });
+
+    it("should read compact numbers and exponents", () => {
+      expect(parsePathData("M.5.5L-1e1-2")).toEqual([
+        { type: "M", args: [0.5, 0.5] },
+        { type: "L", args: [-10, -2] },
+      ]);
+    });
+
+    it("should read arc flags without separators", () => {
+      expect(parsePathData("M0 0a5 5 0 1010 0")[1].args).toEqual([
+        5, 5, 0, 1, 0, 10, 0,
+      ]);
+    });
+
+    it("should keep the commands before invalid path data", () => {
+      expect(parsePathData("L0 0")).toEqual([]);
+      expect(parsePathData("M0 0 X")).toEqual([{ type: "M", args: [0, 0] }]);
+      expect(parsePathData("M0 0 L10 0 L10")).toEqual([
+        { type: "M", args: [0, 0] },
+        { type: "L", args: [10, 0] },
+      ]);
+      expect(console.warn).toHaveBeenCalledWith(
+        "Ignoring the rest of invalid path data:",
+        expect.stringContaining("Expected a number"),
+      );
+    });
+  });
+
+  describe("flattenPathData", () => {
+    it("should resolve relative commands to absolute points", () => {
+      const [subpath] = flattenPathData("m10 10 l10 0 v10 h-10 z");
+
+      expect(subpath.closed).toBe(true);
+      expect(subpath.points).toEqual([
+        { x: 10, y: 10 },
+        { x: 20, y: 10 },
+        { x: 20, y: 20 },
+        { x: 10, y: 20 },
+      ]);
+    });
+
+    it("should drop a closing point that repeats the start", () => {
+      const [subpath] = flattenPathData("M0 0 L10 0 L10 10 L0 0 Z");
+      expect(subpath.points).toHaveLength(3);
+    });
+
+    it("should split subpaths on moveto and after close", () => {
+      const subpaths = flattenPathData(
+        "M0 0 L10 0 L10 10 Z L0 10 M50 50 L60 60",
+      );
+
+      expect(subpaths).toHaveLength(3);
+      // Drawing after Z continues from the closed subpath's start
+      expect(subpaths[1].points[0]).toEqual({ x: 0, y: 0 });
+      expect(subpaths[2].points[0]).toEqual({ x: 50, y: 50 });
+    });
+
+    it("should flatten curves through their end points", () => {
+      const [subpath] = flattenPathData(
+        "M0 0 C0 50 100 50 100 0 S200 -50 200 0 Q250 50 300 0 T400 0",
+      );
+      const points = subpath.points;
+
+      expect(points.length).toBeGreaterThan(8);
+      expect(points).toContainEqual({ x: 100, y: 0 });
+      expect(points).toContainEqual({ x: 200, y: 0 });
+      expect(points).toContainEqual({ x: 300, y: 0 });
+      expect(points[points.length - 1]).toEqual({ x: 400, y: 0 });
+    });
+
+    it("should keep cubic curves within their control points", () => {
+      const [subpath] = flattenPathData("M0 0 C0 100 100 100 100 0");
+      const bounds = getSubpathBounds([subpath]);
+
+      // The curve peaks at 3/4 of the control point height
+      expect(bounds.height).toBeCloseTo(75, 0);
+      expect(bounds.width).toBeCloseTo(100);
+    });
+
+    it("should flatten arcs onto their ellipse", () => {
+      const [subpath] = flattenPathData("M0 50 A50 50 0 0 1 100 50");
+
+      subpath.points.forEach((point) => {
+        expect(Math.hypot(point.x - 50, point.y - 50)).toBeCloseTo(50);
+      });
+      // Sweep flag 1 goes through the top of the circle (negative y)
+      expect(getSubpathBounds([subpath]).y).toBeCloseTo(0, 0);
+    });
+
+    it("should scale up arc radii that cannot reach the end point", () => {
+      const [subpath] = flattenPathData("M0 0 A1 1 0 0 0 100 0");
+      const bounds = getSubpathBounds([subpath]);
+
+      expect(bounds.height).toBeCloseTo(50, 0);
+    });
+
+    it("should take the large arc when requested", () => {
+      const small = flattenPathData("M0 0 A60 60 0 0 1 100 0");
+      const large = flattenPathData("M0 0 A60 60 0 1 1 100 0");
+
+      expect(getSubpathBounds(large).height).toBeGreaterThan(
+        getSubpathBounds(small).height,
+      );
+    });
+  });
+
+  describe("getSubpathBounds", () => {
+    it("should return an empty rect for no points", () => {
+      expect(getSubpathBounds([])).toEqual({ x: 0, y: 0, width: 0, height: 0 });
+    });
+  });
+
+  describe("getPathRegions", () => {
+    // Outer square drawn one way, inner square drawn the other way or not
+    const outer = "M0 0 H100 V100 H0 Z";
+    const reversed = "M25 25 V75 H75 V25 Z";
+    const sameWay = "M25 25 H75 V75 H25 Z";
+
+    it("should cut subpaths winding the other way with nonzero", () => {
+      const regions = getPathRegions(
+        flattenPathData(`${outer} ${reversed}`),
+        "nonzero",
+      );
+
+      expect(regions).toHaveLength(1);
+      expect(regions[0].outline).toHaveLength(4);
+      expect(regions[0].holes).toHaveLength(1);
+      expect(regions[0].holes[0][0]).toEqual({ x: 25, y: 25 });
+    });
+
+    it("should fill subpaths winding the same way with nonzero", () => {
+      const regions = getPathRegions(
+        flattenPathData(`${outer} ${sameWay}`),
+        "nonzero",
+      );
+
+      expect(regions).toHaveLength(1);
+      expect(regions[0].holes).toHaveLength(0);
+    });
+
+    it("should cut every nested subpath with evenodd", () => {
+      const regions = getPathRegions(
+        flattenPathData(`${outer} ${sameWay}`),
+        "evenodd",
+      );
+
+      expect(regions).toHaveLength(1);
+      expect(regions[0].holes).toHaveLength(1);
+    });
+
+    it("should fill islands inside holes as regions of their own", () => {
+      const island = "M40 40 H60 V60 H40 Z";
+      const regions = getPathRegions(
+        flattenPathData(`${outer} ${sameWay} ${island}`),
+        "evenodd",
+      );
+
+      expect(regions).toHaveLength(2);
+      expect(regions[0].holes).toHaveLength(1);
+      expect(regions[1].outline[0]).toEqual({ x: 40, y: 40 });
+      expect(regions[1].holes).toHaveLength(0);
+    });
+
+    it("should skip subpaths enclosing nothing", () => {
+      expect(
+        getPathRegions(flattenPathData("M0 0 L10 10 L20 20 Z"), "nonzero"),
+      ).toEqual([]);
+    });
+  });
+});
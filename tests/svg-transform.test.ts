@@ -0,0 +1,224 @@
+import { describe, it, expect } from "vitest";
+import {
+  IDENTITY_MATRIX,
+  applyMatrix,
+  getElementMatrix,
+  getMatrixScale,
+  getViewBoxMatrix,
+  getViewportSize,
+  isAxisAligned,
+  isSimilarity,
+  multiplyMatrices,
+  parseTransform,
+  parseViewBox,
+  rotateMatrix,
+  scaleMatrix,
+  translateMatrix,
+} from "../src/utils/svg-transform";
+import { createMockDocument } from "./test-utils";
+
+const expectPoint = (
+  actual: { x: number; y: number },
+  expected: { x: number; y: number },
+) => {
+  expect(actual.x).toBeCloseTo(expected.x, 6);
+  expect(actual.y).toBeCloseTo(expected.y, 6);
+};
+
+describe("svg-transform", () => {
+  describe("multiplyMatrices", () => {
+    it("should apply the second matrix first", () => {
+      const matrix = multiplyMatrices(translateMatrix(10, 0), scaleMatrix(2));
+
+      expectPoint(applyMatrix(matrix, { x: 5, y: 5 }), { x: 20, y: 10 });
+    });
+  });
+
+  describe("parseTransform", () => {
+    it("should return the identity for a missing attribute", () => {
+      expect(parseTransform(null)).toEqual(IDENTITY_MATRIX);
+      expect(parseTransform("")).toEqual(IDENTITY_MATRIX);
+    });
+
+    it("should parse translate, scale and matrix", () => {
+      expectPoint(
+        applyMatrix(parseTransform("translate(10, 20)"), { x: 1, y: 1 }),
+        {
+          x: 11,
+          y: 21,
+        },
+      );
+      expectPoint(
+        applyMatrix(parseTransform("translate(10)"), { x: 1, y: 1 }),
+        {
+          x: 11,
+          y: 1,
+        },
+      );
+      expectPoint(applyMatrix(parseTransform("scale(2 3)"), { x: 1, y: 1 }), {
+        x: 2,
+        y: 3,
+      });
+      expectPoint(
+        applyMatrix(parseTransform("matrix(1 0 0 1 5 6)"), { x: 1, y: 1 }),
+        { x: 6, y: 7 },
+      );
+    });
+
+    it("should rotate about an optional center", () => {
+      expectPoint(applyMatrix(parseTransform("rotate(90)"), { x: 10, y: 0 }), {
+        x: 0,
+        y: 10,
+      });
+      expectPoint(
+        applyMatrix(parseTransform("rotate(180 50 50)"), { x: 60, y: 50 }),
+        { x: 40, y: 50 },
+      );
+    });
+
+    it("should skew along either axis", () => {
+      expectPoint(applyMatrix(parseTransform("skewX(45)"), { x: 0, y: 10 }), {
+        x: 10,
+        y: 10,
+      });
+      expectPoint(applyMatrix(parseTransform("skewY(45)"), { x: 10, y: 0 }), {
+        x: 10,
+        y: 10,
+      });
+    });
+
+    it("should apply a list of transforms right to left", () => {
+      const matrix = parseTransform("translate(100 0) scale(2)");
+
+      expectPoint(applyMatrix(matrix, { x: 10, y: 10 }), { x: 120, y: 20 });
+    });
+
+    it("should reject a matrix with the wrong number of values", () => {
+      expect(() => parseTransform("matrix(1 0 0 1)")).toThrow(
+        "Invalid transform",
+      );
+    });
+  });
+
+  describe("parseViewBox", () => {
+    it("should parse space and comma separated values", () => {
+      expect(parseViewBox("0 0 100 50")).toEqual({
+        x: 0,
+        y: 0,
+        width: 100,
+        height: 50,
+      });
+      expect(parseViewBox("-10,-20,30,40")).toEqual({
+        x: -10,
+        y: -20,
+        width: 30,
+        height: 40,
+      });
+    });
+
+    it("should ignore malformed or empty viewBoxes", () => {
+      expect(parseViewBox(null)).toBeNull();
+      expect(parseViewBox("0 0 100")).toBeNull();
+      expect(parseViewBox("0 0 0 100")).toBeNull();
+    });
+  });
+
+  describe("getViewBoxMatrix", () => {
+    const viewBox = { x: 10, y: 10, width: 100, height: 50 };
+
+    it("should stretch the viewBox with none", () => {
+      const matrix = getViewBoxMatrix(
+        viewBox,
+        { width: 200, height: 200 },
+        "none",
+      );
+
+      expectPoint(applyMatrix(matrix, { x: 110, y: 60 }), { x: 200, y: 200 });
+    });
+
+    it("should fit and center the viewBox by default", () => {
+      const matrix = getViewBoxMatrix(viewBox, { width: 200, height: 200 });
+
+      // Uniform scale of 2, 100 units of vertical space left to center
+      expectPoint(applyMatrix(matrix, { x: 10, y: 10 }), { x: 0, y: 50 });
+      expectPoint(applyMatrix(matrix, { x: 110, y: 60 }), { x: 200, y: 150 });
+    });
+
+    it("should follow the alignment and slice options", () => {
+      const maxAligned = getViewBoxMatrix(
+        viewBox,
+        { width: 200, height: 200 },
+        "xMinYMax meet",
+      );
+      expectPoint(applyMatrix(maxAligned, { x: 10, y: 10 }), { x: 0, y: 100 });
+
+      const sliced = getViewBoxMatrix(
+        viewBox,
+        { width: 200, height: 200 },
+        "xMinYMin slice",
+      );
+      expect(getMatrixScale(sliced)).toBeCloseTo(4);
+    });
+  });
+
+  describe("getViewportSize", () => {
+    it("should prefer width and height", () => {
+      const svg = createMockDocument(
+        '<svg width="800" height="600" viewBox="0 0 400 300"></svg>',
+      ).querySelector("svg")!;
+
+      expect(getViewportSize(svg)).toEqual({ width: 800, height: 600 });
+    });
+
+    it("should fall back to the viewBox for missing or relative sizes", () => {
+      const svg = createMockDocument(
+        '<svg width="100%" viewBox="0 0 400 300"></svg>',
+      ).querySelector("svg")!;
+
+      expect(getViewportSize(svg)).toEqual({ width: 400, height: 300 });
+    });
+  });
+
+  describe("getElementMatrix", () => {
+    it("should combine nested groups with the element transform", () => {
+      const doc = createMockDocument(`<svg width="200" height="200">
+        <g transform="translate(100 0)">
+          <g transform="scale(2)">
+            <rect transform="translate(5 5)" x="0" y="0" width="10" height="10"/>
+          </g>
+        </g>
+      </svg>`);
+      const matrix = getElementMatrix(doc.querySelector("rect")!);
+
+      expectPoint(applyMatrix(matrix, { x: 0, y: 0 }), { x: 110, y: 10 });
+      expectPoint(applyMatrix(matrix, { x: 10, y: 10 }), { x: 130, y: 30 });
+    });
+
+    it("should include the root viewBox mapping", () => {
+      const doc = createMockDocument(
+        '<svg width="200" height="100" viewBox="50 50 100 50"><rect/></svg>',
+      );
+      const matrix = getElementMatrix(doc.querySelector("rect")!);
+
+      expectPoint(applyMatrix(matrix, { x: 50, y: 50 }), { x: 0, y: 0 });
+      expectPoint(applyMatrix(matrix, { x: 150, y: 100 }), { x: 200, y: 100 });
+    });
+  });
+
+  describe("matrix checks", () => {
+    it("should tell rotations apart from scales and skews", () => {
+      expect(isAxisAligned(scaleMatrix(2, 3))).toBe(true);
+      expect(isAxisAligned(rotateMatrix(30))).toBe(false);
+
+      expect(isSimilarity(rotateMatrix(30))).toBe(true);
+      expect(isSimilarity(scaleMatrix(2, -2))).toBe(true);
+      expect(isSimilarity(scaleMatrix(2, 3))).toBe(false);
+      expect(isSimilarity(parseTransform("skewX(20)"))).toBe(false);
+    });
+
+    it("should measure the average scale", () => {
+      expect(getMatrixScale(rotateMatrix(45))).toBeCloseTo(1);
+      expect(getMatrixScale(scaleMatrix(2, 8))).toBeCloseTo(4);
+    });
+  });
+});
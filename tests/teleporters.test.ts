@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import {
+  TeleporterConfig,
+  getExitVelocity,
+  isTeleporterReady,
+} from "../src/utils/teleporters";
+import { TeleporterExit } from "../src/utils/track-types";
+
+const config: TeleporterConfig = { cooldown: 500 };
+
+function createExit(overrides: Partial<TeleporterExit> = {}): TeleporterExit {
+  return {
+    shape: { x: 0, y: 0, width: 100, height: 100 },
+    position: { x: 50, y: 50 },
+    direction: null,
+    ...overrides,
+  };
+}
+
+describe("isTeleporterReady", () => {
+  it("should be ready before any teleport", () => {
+    expect(isTeleporterReady(null, 0, config)).toBe(true);
+  });
+
+  it("should wait for the cooldown after a teleport", () => {
+    expect(isTeleporterReady(1000, 1000, config)).toBe(false);
+    expect(isTeleporterReady(1000, 1499, config)).toBe(false);
+    expect(isTeleporterReady(1000, 1500, config)).toBe(true);
+  });
+
+  it("should teleport again at once without a cooldown", () => {
+    expect(isTeleporterReady(1000, 1000, { cooldown: 0 })).toBe(true);
+  });
+});
+
+describe("getExitVelocity", () => {
+  it("should keep the velocity through exits without a direction", () => {
+    expect(getExitVelocity({ x: 3, y: -4 }, createExit())).toEqual({
+      x: 3,
+      y: -4,
+    });
+  });
+
+  it("should send the puck along the exit direction at its own speed", () => {
+    const exit = createExit({ direction: { x: 0, y: -1 } });
+
+    expect(getExitVelocity({ x: 3, y: 4 }, exit)).toEqual({ x: 0, y: -5 });
+  });
+
+  it("should leave a puck at rest at rest", () => {
+    const exit = createExit({ direction: { x: 1, y: 0 } });
+
+    expect(getExitVelocity({ x: 0, y: 0 }, exit)).toEqual({ x: 0, y: 0 });
+  });
+});
@@ -10,6 +10,13 @@ export function createMockSVG(elements: MockSVGElement[]): string {
           return `<circle id="${el.id || ""}" cx="${el.cx}" cy="${el.cy}" r="${el.r}" fill="${el.fill}"/>`;
         case "line":
           return `<line id="${el.id || ""}" x1="${el.x1}" y1="${el.y1}" x2="${el.x2}" y2="${el.y2}" stroke="${el.stroke}" stroke-width="${el.strokeWidth || 1}"/>`;
+        case "ellipse":
+          return `<ellipse id="${el.id || ""}" cx="${el.cx}" cy="${el.cy}" rx="${el.rx}" ry="${el.ry}" fill="${el.fill || "none"}" stroke="${el.stroke || "none"}" stroke-width="${el.strokeWidth || 1}"/>`;
+        case "polygon":
+        case "polyline":
+          return `<${el.type} id="${el.id || ""}" points="${el.points}" fill="${el.fill || "none"}" stroke="${el.stroke || "none"}" stroke-width="${el.strokeWidth || 1}"/>`;
+        case "path":
+          return `<path id="${el.id || ""}" d="${el.d}" fill="${el.fill || "none"}" stroke="${el.stroke || "none"}" stroke-width="${el.strokeWidth || 1}"/>`;
         default:
           return "";
       }
@@ -23,7 +30,14 @@ export function createMockSVG(elements: MockSVGElement[]): string {
 }
 
 export interface MockSVGElement {
-  type: "rect" | "circle" | "line";
+  type:
+    | "rect"
+    | "circle"
+    | "ellipse"
+    | "line"
+    | "polygon"
+    | "polyline"
+    | "path";
   id?: string;
   fill?: string;
   stroke?: string;
@@ -37,11 +51,18 @@ export interface MockSVGElement {
   cx?: number;
   cy?: number;
   r?: number;
+  // Ellipse props
+  rx?: number;
+  ry?: number;
   // Line props
   x1?: number;
   y1?: number;
   x2?: number;
   y2?: number;
+  // Polygon and polyline props
+  points?: string;
+  // Path props
+  d?: string;
 }
 
 export function createMockDocument(svgText: string): Document {
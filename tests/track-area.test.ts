@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import {
+  createTrackArea,
+  getShapeBounds,
+  isPointInHole,
+  isPointInShape,
+  isPointInTrackArea,
+} from "../src/utils/track-area";
+
+describe("track-area", () => {
+  describe("isPointInShape", () => {
+    it("should test rectangles including their edges", () => {
+      const rect = { x: 0, y: 0, width: 100, height: 50 };
+
+      expect(isPointInShape({ x: 50, y: 25 }, rect)).toBe(true);
+      expect(isPointInShape({ x: 100, y: 50 }, rect)).toBe(true);
+      expect(isPointInShape({ x: 101, y: 25 }, rect)).toBe(false);
+    });
+
+    it("should test circles and ellipses", () => {
+      const circle = { x: 0, y: 0, radius: 10 };
+      const ellipse = { x: 0, y: 0, radiusX: 20, radiusY: 5 };
+
+      expect(isPointInShape({ x: 6, y: 8 }, circle)).toBe(true);
+      expect(isPointInShape({ x: 8, y: 8 }, circle)).toBe(false);
+      expect(isPointInShape({ x: 19, y: 0 }, ellipse)).toBe(true);
+      expect(isPointInShape({ x: 0, y: 6 }, ellipse)).toBe(false);
+    });
+
+    it("should test concave polygons and compounds", () => {
+      const lShape = {
+        vertices: [
+          { x: 0, y: 0 },
+          { x: 100, y: 0 },
+          { x: 100, y: 50 },
+          { x: 50, y: 50 },
+          { x: 50, y: 100 },
+          { x: 0, y: 100 },
+        ],
+      };
+
+      expect(isPointInShape({ x: 25, y: 75 }, lShape)).toBe(true);
+      expect(isPointInShape({ x: 75, y: 75 }, lShape)).toBe(false);
+
+      const compound = {
+        parts: [
+          lShape,
+          {
+            vertices: [
+              { x: 200, y: 0 },
+              { x: 300, y: 0 },
+              { x: 300, y: 100 },
+            ],
+          },
+        ],
+      };
+      expect(isPointInShape({ x: 290, y: 10 }, compound)).toBe(true);
+      expect(isPointInShape({ x: 150, y: 10 }, compound)).toBe(false);
+    });
+
+    it("should leave out the holes of polygons", () => {
+      const ring = {
+        vertices: [
+          { x: 0, y: 0 },
+          { x: 100, y: 0 },
+          { x: 100, y: 100 },
+          { x: 0, y: 100 },
+        ],
+        holes: [
+          [
+            { x: 25, y: 25 },
+            { x: 75, y: 25 },
+            { x: 75, y: 75 },
+            { x: 25, y: 75 },
+          ],
+        ],
+      };
+
+      expect(isPointInShape({ x: 10, y: 50 }, ring)).toBe(true);
+      expect(isPointInShape({ x: 50, y: 50 }, ring)).toBe(false);
+      expect(isPointInShape({ x: 50, y: 50 }, { parts: [ring] })).toBe(false);
+    });
+  });
+
+  describe("getShapeBounds", () => {
+    it("should compute the bounds of every shape type", () => {
+      expect(getShapeBounds({ x: 10, y: 10, radius: 5 })).toEqual({
+        x: 5,
+        y: 5,
+        width: 10,
+        height: 10,
+      });
+      expect(
+        getShapeBounds({
+          parts: [
+            {
+              vertices: [
+                { x: -5, y: 0 },
+                { x: 5, y: 20 },
+                { x: 0, y: 5 },
+              ],
+            },
+            {
+              vertices: [
+                { x: 30, y: 10 },
+                { x: 40, y: 0 },
+                { x: 35, y: 5 },
+              ],
+            },
+          ],
+        }),
+      ).toEqual({ x: -5, y: 0, width: 45, height: 20 });
+    });
+  });
+
+  describe("isPointInTrackArea", () => {
+    const area = createTrackArea(
+      [
+        { x: 0, y: 0, width: 300, height: 100 },
+        { x: 250, y: 250, radius: 60 },
+      ],
+      [{ x: 100, y: 20, width: 40, height: 40 }],
+      64,
+    );
+
+    it("should be inside when any shape contains the point", () => {
+      expect(isPointInTrackArea(area, { x: 20, y: 20 })).toBe(true);
+      expect(isPointInTrackArea(area, { x: 250, y: 300 })).toBe(true);
+    });
+
+    it("should be outside in the gaps between shapes", () => {
+      expect(isPointInTrackArea(area, { x: 100, y: 200 })).toBe(false);
+      // Inside the circle's bounds but not the circle
+      expect(isPointInTrackArea(area, { x: 195, y: 195 })).toBe(false);
+    });
+
+    it("should be outside inside out-of-bounds holes", () => {
+      expect(isPointInHole(area, { x: 120, y: 40 })).toBe(true);
+      expect(isPointInTrackArea(area, { x: 120, y: 40 })).toBe(false);
+      expect(isPointInTrackArea(area, { x: 160, y: 40 })).toBe(true);
+    });
+
+    it("should be outside everywhere for an empty track area", () => {
+      expect(isPointInTrackArea(createTrackArea([]), { x: 0, y: 0 })).toBe(
+        false,
+      );
+    });
+  });
+});
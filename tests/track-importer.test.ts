@@ -1,4 +1,5 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
+import { readFileSync } from "fs";
 import { GameConfig, ImportedTrack } from "../src/utils/track-types";
 import { MOCK_TRACK_SVG, MOCK_GAME_CONFIG } from "./test-utils";
 import {
@@ -6,7 +7,14 @@ import {
   validateTrackData,
   loadTrackFromFile,
   importTrackFromFile,
+  addTrackToScene,
 } from "../src/utils/track-importer";
+import { createTrackArea, isPointInTrackArea } from "../src/utils/track-area";
+
+// Track area drawn as a square ring, the inner square winding the other way
+const RING_TRACK_SVG = `<svg width="200" height="200">
+  <path d="M0 0 H200 V200 H0 Z M50 50 V150 H150 V50 Z" fill="#FFFFFF"/>
+</svg>`;
 
 describe("track-importer", () => {
   describe("importTrack", () => {
@@ -19,8 +27,11 @@ describe("track-importer", () => {
       expect(result.obstacles).toBeInstanceOf(Array);
       expect(result.boundaries).toBeInstanceOf(Array);
       expect(result.metadata).toBeDefined();
+      expect(result.markers.startLine).not.toBeNull();
+      expect(result.markers.finishLine).not.toBeNull();
 
       // Check metadata
+      expect(result.metadata.trackHash).toMatch(/^[0-9a-f]{8}$/);
       expect(result.metadata.originalSVGSize.width).toBe(1000);
       expect(result.metadata.originalSVGSize.height).toBe(500);
       expect(result.metadata.elementCounts.walls).toBe(2);
@@ -28,6 +39,120 @@ describe("track-importer", () => {
       expect(result.metadata.elementCounts.trackAreas).toBe(1);
     });
 
+    it("should keep the real outline of the track area", () => {
+      // L-shaped track: the empty corner is outside even though it is
+      // inside the bounding box
+      const track = importTrack(
+        `<svg width="200" height="200">
+          <polygon points="0,0 200,0 200,100 100,100 100,200 0,200" fill="#FFFFFF"/>
+        </svg>`,
+        { worldWidth: 200, worldHeight: 200 },
+      );
+      const toGame = (x: number, y: number) => ({
+        x: track.bounds.x + (x / 200) * track.bounds.width,
+        y: track.bounds.y + (y / 200) * track.bounds.height,
+      });
+
+      expect(track.trackArea.shapes).toHaveLength(1);
+      expect(isPointInTrackArea(track.trackArea, toGame(50, 150))).toBe(true);
+      expect(isPointInTrackArea(track.trackArea, toGame(150, 50))).toBe(true);
+      expect(isPointInTrackArea(track.trackArea, toGame(150, 150))).toBe(false);
+    });
+
+    it("should subtract out-of-bounds zones from the track area", () => {
+      const track = importTrack(
+        `<svg width="200" height="200">
+          <rect x="0" y="0" width="200" height="200" fill="#FFFFFF"/>
+          <circle cx="50" cy="50" r="20" fill="red"/>
+          <rect x="120" y="120" width="40" height="40" fill="#87CEEB"/>
+        </svg>`,
+        { worldWidth: 200, worldHeight: 200 },
+      );
+      const toGame = (x: number, y: number) => ({
+        x: track.bounds.x + (x / 200) * track.bounds.width,
+        y: track.bounds.y + (y / 200) * track.bounds.height,
+      });
+
+      expect(track.trackArea.holes).toHaveLength(2);
+      expect(isPointInTrackArea(track.trackArea, toGame(50, 50))).toBe(false);
+      expect(isPointInTrackArea(track.trackArea, toGame(140, 140))).toBe(false);
+      expect(isPointInTrackArea(track.trackArea, toGame(100, 100))).toBe(true);
+    });
+
+    it("should leave the infield of a ring-shaped track area out", () => {
+      const track = importTrack(RING_TRACK_SVG, {
+        worldWidth: 200,
+        worldHeight: 200,
+      });
+      const toGame = (x: number, y: number) => ({
+        x: track.bounds.x + (x / 200) * track.bounds.width,
+        y: track.bounds.y + (y / 200) * track.bounds.height,
+      });
+
+      expect(track.trackArea.shapes).toHaveLength(1);
+      expect(isPointInTrackArea(track.trackArea, toGame(25, 100))).toBe(true);
+      expect(isPointInTrackArea(track.trackArea, toGame(100, 100))).toBe(false);
+    });
+
+    it("should list the obstacles that move", () => {
+      const track = importTrack(
+        `<svg width="200" height="200">
+          <rect x="0" y="0" width="200" height="200" fill="#FFFFFF"/>
+          <rect x="20" y="20" width="20" height="20" fill="#800080"/>
+          <rect x="120" y="120" width="40" height="10" fill="#800080"
+            data-spin="90"/>
+        </svg>`,
+        { worldWidth: 200, worldHeight: 200 },
+      );
+
+      expect(track.obstacles).toHaveLength(2);
+      expect(track.movingObstacles).toHaveLength(1);
+      const [moving] = track.movingObstacles;
+      expect(moving.body).toBe(track.obstacles[1]);
+      expect(moving.home).toEqual(moving.body.position);
+      expect(moving.home).not.toBe(moving.body.position);
+      expect(moving.motion).toMatchObject([{ type: "rotate" }]);
+    });
+
+    it("should link teleporter entrances to their exit", () => {
+      const track = importTrack(
+        `<svg width="200" height="200">
+          <rect x="0" y="0" width="200" height="200" fill="#FFFFFF"/>
+          <rect id="in" x="20" y="20" width="20" height="20" fill="#FF00FF"
+            data-teleporter="a"/>
+          <rect id="out" x="140" y="140" width="20" height="20" fill="#8A2BE2"
+            data-teleporter="a"/>
+        </svg>`,
+        { worldWidth: 200, worldHeight: 200 },
+      );
+
+      expect(track.teleporters).toHaveLength(1);
+      expect(track.teleporters[0].exit.id).toBe("out");
+      expect(track.teleporterBodies.map((body) => body.label)).toEqual([
+        "teleporter-0",
+      ]);
+    });
+
+    it("should keep the dev track in bounds over its sky blue background", () => {
+      const track = importTrack(
+        // Read from the repository root, where the tests run
+        readFileSync("public/assets/tracks/track_straight_test.svg", "utf8"),
+        MOCK_GAME_CONFIG,
+      );
+      const { x, y, width, height } = track.bounds;
+
+      expect(track.trackArea.holes).toHaveLength(0);
+      expect(isPointInTrackArea(track.trackArea, track.startPosition!)).toBe(
+        true,
+      );
+      expect(
+        isPointInTrackArea(track.trackArea, {
+          x: x + width / 2,
+          y: y + height / 2,
+        }),
+      ).toBe(true);
+    });
+
     it("should throw error for invalid SVG", () => {
       const invalidSVG = "<invalid>not an svg</invalid>";
 
@@ -55,6 +180,7 @@ describe("track-importer", () => {
 
       expect(result.startPosition).toBeNull();
       expect(result.finishPosition).toBeNull();
+      expect(result.markers.finishLine).toBeNull();
     });
   });
 
@@ -70,12 +196,23 @@ describe("track-importer", () => {
     it("should detect invalid track bounds", () => {
       const invalidTrack: ImportedTrack = {
         bounds: { x: 0, y: 0, width: 0, height: 0 },
+        trackArea: createTrackArea([]),
         walls: [],
         obstacles: [],
+        movingObstacles: [],
         boundaries: [],
+        checkpoints: [],
+        surfaceZones: [],
+        zoneBodies: [],
+        teleporters: [],
+        teleporterBodies: [],
+        respawnMode: "last-position",
+        laps: 1,
         startPosition: null,
         finishPosition: null,
+        markers: { startLine: null, finishLine: null },
         metadata: {
+          trackHash: "00000000",
           originalSVGSize: { width: 100, height: 100 },
           scaleFactor: 1,
           elementCounts: { walls: 0, obstacles: 0, trackAreas: 0 },
@@ -96,6 +233,7 @@ describe("track-importer", () => {
         ...track,
         startPosition: null,
         finishPosition: null,
+        markers: { startLine: null, finishLine: null },
       };
 
       const validation = validateTrackData(trackWithoutLines);
@@ -105,15 +243,41 @@ describe("track-importer", () => {
       expect(validation.warnings).toContain("No finish line found in track");
     });
 
+    it("should accept a circuit finishing on its start line", () => {
+      const track = importTrack(MOCK_TRACK_SVG, MOCK_GAME_CONFIG);
+      const circuit: ImportedTrack = {
+        ...track,
+        finishPosition: null,
+        laps: 3,
+      };
+
+      expect(validateTrackData(circuit).warnings).not.toContain(
+        "No finish line found in track",
+      );
+    });
+
     it("should warn about very large tracks", () => {
       const largeTrack: ImportedTrack = {
         bounds: { x: 0, y: 0, width: 15000, height: 12000 },
+        trackArea: createTrackArea([
+          { x: 0, y: 0, width: 15000, height: 12000 },
+        ]),
         walls: [],
         obstacles: [],
+        movingObstacles: [],
         boundaries: [],
+        checkpoints: [],
+        surfaceZones: [],
+        zoneBodies: [],
+        teleporters: [],
+        teleporterBodies: [],
+        respawnMode: "last-position",
+        laps: 1,
         startPosition: null,
         finishPosition: null,
+        markers: { startLine: null, finishLine: null },
         metadata: {
+          trackHash: "00000000",
           originalSVGSize: { width: 15000, height: 12000 },
           scaleFactor: 1,
           elementCounts: { walls: 0, obstacles: 0, trackAreas: 1 },
@@ -129,6 +293,64 @@ describe("track-importer", () => {
     });
   });
 
+  describe("addTrackToScene", () => {
+    const createMockGraphics = () => ({
+      fillStyle: vi.fn(),
+      fillRect: vi.fn(),
+      fillPoints: vi.fn(),
+      fillTriangle: vi.fn(),
+      fillCircle: vi.fn(),
+      fillEllipse: vi.fn(),
+      lineStyle: vi.fn(),
+      lineBetween: vi.fn(),
+      setDepth: vi.fn(),
+      setPosition: vi.fn(),
+      setRotation: vi.fn(),
+    });
+
+    it("should not paint the infield of a ring-shaped track area", () => {
+      const track = importTrack(RING_TRACK_SVG, {
+        worldWidth: 200,
+        worldHeight: 200,
+      });
+      const graphics: ReturnType<typeof createMockGraphics>[] = [];
+      const scene = {
+        add: {
+          graphics: () => {
+            graphics.push(createMockGraphics());
+            return graphics[graphics.length - 1];
+          },
+        },
+        matter: { world: { add: vi.fn() } },
+      };
+
+      addTrackToScene(track, scene as unknown as Phaser.Scene);
+
+      // Drawn after the out-of-bounds background
+      const trackGraphics = graphics[1];
+      const triangles = trackGraphics.fillTriangle.mock.calls;
+      const isPainted = (x: number, y: number) =>
+        triangles.some(([ax, ay, bx, by, cx, cy]) => {
+          const sides = [
+            (bx - ax) * (y - ay) - (by - ay) * (x - ax),
+            (cx - bx) * (y - by) - (cy - by) * (x - bx),
+            (ax - cx) * (y - cy) - (ay - cy) * (x - cx),
+          ];
+          return (
+            sides.every((side) => side >= 0) || sides.every((side) => side <= 0)
+          );
+        });
+      const center = {
+        x: track.bounds.x + track.bounds.width / 2,
+        y: track.bounds.y + track.bounds.height / 2,
+      };
+
+      expect(trackGraphics.fillPoints).not.toHaveBeenCalled();
+      expect(isPainted(track.bounds.x + 1, center.y)).toBe(true);
+      expect(isPainted(center.x, center.y)).toBe(false);
+    });
+  });
+
   describe("loadTrackFromFile", () => {
     it("should load text from file", async () => {
       const mockFile = new File([MOCK_TRACK_SVG], "test.svg", {
@@ -197,6 +419,19 @@ describe("track-importer", () => {
       expect(result).toBeDefined();
     });
 
+    it("should draw malformed paths up to their first error", () => {
+      const result = importTrack(
+        `<svg width="1000" height="500">
+  <rect width="800" height="300" fill="#FFFFFF"/>
+  <path d="M0 0 L100 0 L100 50 Z L" fill="#000000"/>
+  <rect x="200" y="200" width="50" height="50" fill="#000000"/>
+</svg>`,
+        MOCK_GAME_CONFIG,
+      );
+
+      expect(result.walls).toHaveLength(2);
+    });
+
     it("should handle very small game config", () => {
       const smallConfig: GameConfig = { worldWidth: 100, worldHeight: 100 };
 
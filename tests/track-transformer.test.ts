@@ -11,6 +11,14 @@ import {
   calculateStartPosition,
   calculateFinishPosition,
   calculateWorldBounds,
+  createStrokePolygons,
+  svgElementToGameShape,
+  getEllipseVertices,
+  svgElementToRaceLine,
+  processCheckpoints,
+  processSurfaceZones,
+  processTeleporters,
+  getObstacleMotion,
 } from "../src/utils/track-transformer";
 import { createMockSVG, createMockDocument } from "./test-utils";
 
@@ -122,6 +130,85 @@ describe("track-transformer", () => {
     });
   });
 
+  describe("SVG transforms", () => {
+    const scaling = { scaleX: 2, scaleY: 2, offsetX: 10, offsetY: 20 };
+
+    it("should move elements inside translated groups", () => {
+      const doc = createMockDocument(`<svg width="1000" height="500">
+        <g transform="translate(100 50)">
+          <rect x="0" y="0" width="40" height="20" fill="#000000"/>
+        </g>
+      </svg>`);
+
+      const rect = svgRectToGameRect(
+        doc.querySelector("rect") as SVGElement,
+        scaling,
+      );
+
+      expect(rect).toEqual({ x: 210, y: 120, width: 80, height: 40 });
+    });
+
+    it("should turn a rotated rect into a rotated polygon", () => {
+      const doc = createMockDocument(`<svg width="1000" height="500">
+        <rect x="0" y="0" width="100" height="10" transform="rotate(90)" fill="#000000"/>
+      </svg>`);
+
+      const shape = svgElementToGameShape(
+        doc.querySelector("rect") as SVGElement,
+        { scaleX: 1, scaleY: 1, offsetX: 0, offsetY: 0 },
+        "#000000",
+      );
+
+      expect(shape).toHaveProperty("vertices");
+      const vertices = (shape as { vertices: { x: number; y: number }[] })
+        .vertices;
+      expect(vertices[1].x).toBeCloseTo(0);
+      expect(vertices[1].y).toBeCloseTo(100);
+      expect(vertices[2].x).toBeCloseTo(-10);
+      expect(vertices[2].y).toBeCloseTo(100);
+    });
+
+    it("should scale circles and stroke widths with the transform", () => {
+      const doc = createMockDocument(`<svg width="1000" height="500">
+        <g transform="scale(3)">
+          <circle cx="10" cy="10" r="5" fill="#000000"/>
+          <line x1="0" y1="0" x2="10" y2="0" stroke="#000000" stroke-width="2"/>
+        </g>
+      </svg>`);
+
+      const circle = svgCircleToGameCircle(
+        doc.querySelector("circle") as SVGElement,
+        scaling,
+      );
+      expect(circle).toEqual({ x: 70, y: 80, radius: 30 });
+
+      const band = svgElementToGameShape(
+        doc.querySelector("line") as SVGElement,
+        scaling,
+        "#000000",
+      ) as { vertices: { x: number; y: number }[] };
+      const ys = band.vertices.map((vertex) => vertex.y);
+      // Stroke width 2 scaled by the group and the game scaling
+      expect(Math.max(...ys) - Math.min(...ys)).toBeCloseTo(12);
+    });
+
+    it("should map the viewBox to the viewport", () => {
+      const doc =
+        createMockDocument(`<svg width="1000" height="500" viewBox="0 0 100 50">
+        <rect x="10" y="10" width="10" height="10" fill="#000000"/>
+      </svg>`);
+
+      const rect = svgRectToGameRect(doc.querySelector("rect") as SVGElement, {
+        scaleX: 1,
+        scaleY: 1,
+        offsetX: 0,
+        offsetY: 0,
+      });
+
+      expect(rect).toEqual({ x: 100, y: 100, width: 100, height: 100 });
+    });
+  });
+
   describe("processTrackArea", () => {
     it("should process track area elements and calculate bounds", () => {
       const svgText = createMockSVG([
@@ -206,6 +293,274 @@ describe("track-transformer", () => {
 
       expect(walls[1].id).toBe("wall-2");
     });
+
+    it("should carry surface properties from data attributes", () => {
+      const doc = createMockDocument(`<svg width="100" height="100">
+        <g data-friction="0.5">
+          <rect x="0" y="0" width="10" height="10" fill="#000000" data-restitution="1.2"/>
+        </g>
+      </svg>`);
+      const scaling = { scaleX: 1, scaleY: 1, offsetX: 0, offsetY: 0 };
+
+      const [wall] = processWalls([doc.querySelector("rect")!], scaling);
+
+      expect(wall.restitution).toBe(1.2);
+      expect(wall.friction).toBe(0.5);
+    });
+
+    it("should treat any fill as solid for role-tagged elements", () => {
+      const doc = createMockDocument(`<svg width="100" height="100">
+        <rect data-puck-role="wall" x="0" y="0" width="10" height="10" fill="tomato"/>
+        <rect data-puck-role="wall" x="0" y="0" width="10" height="10" fill="none" stroke="tomato"/>
+      </svg>`);
+      const scaling = { scaleX: 1, scaleY: 1, offsetX: 0, offsetY: 0 };
+
+      const walls = processWalls(
+        Array.from(doc.querySelectorAll("rect")),
+        scaling,
+      );
+
+      expect(walls[0].shape).toEqual({ x: 0, y: 0, width: 10, height: 10 });
+      expect(walls[1].shape).toHaveProperty("parts");
+    });
+  });
+
+  describe("path walls", () => {
+    const scaling = { scaleX: 2, scaleY: 2, offsetX: 10, offsetY: 0 };
+
+    it("should turn a filled path into a polygon", () => {
+      const svgText = createMockSVG([
+        { type: "path", id: "curve", d: "M0 0 L50 0 L0 50 Z", fill: "#000000" },
+      ]);
+      const doc = createMockDocument(svgText);
+      const walls = processWalls(
+        [doc.querySelector("path") as SVGElement],
+        scaling,
+      );
+
+      expect(walls).toHaveLength(1);
+      expect(walls[0].id).toBe("curve");
+      expect(walls[0].shape).toEqual({
+        vertices: [
+          { x: 10, y: 0 },
+          { x: 110, y: 0 },
+          { x: 10, y: 100 },
+        ],
+      });
+    });
+
+    it("should keep the holes its fill-rule leaves in a filled path", () => {
+      const doc = createMockDocument(`<svg width="1000" height="500">
+        <path d="M0 0 H100 V100 H0 Z M25 25 H75 V75 H25 Z"
+          fill="#000000" fill-rule="evenodd"/>
+      </svg>`);
+      const [wall] = processWalls(
+        [doc.querySelector("path") as SVGElement],
+        scaling,
+      );
+
+      expect("vertices" in wall.shape && wall.shape.holes).toEqual([
+        [
+          { x: 60, y: 50 },
+          { x: 160, y: 50 },
+          { x: 160, y: 150 },
+          { x: 60, y: 150 },
+        ],
+      ]);
+    });
+
+    it("should turn a stroked path into a compound of thick segments", () => {
+      const svgText = createMockSVG([
+        {
+          type: "path",
+          d: "M0 0 H100 V100",
+          stroke: "#000000",
+          strokeWidth: 4,
+        },
+      ]);
+      const doc = createMockDocument(svgText);
+      const walls = processWalls(
+        [doc.querySelector("path") as SVGElement],
+        scaling,
+      );
+
+      expect(walls).toHaveLength(1);
+      const shape = walls[0].shape;
+      expect("parts" in shape && shape.parts).toHaveLength(2);
+    });
+
+    it("should flatten curves finely once scaled up", () => {
+      // A 10 unit arc in a 100 unit viewBox, drawn 10 times larger
+      const doc = createMockDocument(`<svg width="1000" height="1000"
+        viewBox="0 0 100 100">
+        <path d="M0 0 L10 0 A10 10 0 0 1 0 10 Z" fill="#000000"/>
+      </svg>`);
+      const [wall] = processWalls([doc.querySelector("path") as SVGElement], {
+        scaleX: 1,
+        scaleY: 1,
+        offsetX: 0,
+        offsetY: 0,
+      });
+
+      // The arc is about 157 game units long
+      expect(
+        "vertices" in wall.shape && wall.shape.vertices.length,
+      ).toBeGreaterThan(16);
+    });
+
+    it("should skip paths without an outline", () => {
+      const svgText = createMockSVG([
+        { type: "path", d: "M0 0", fill: "#000000" },
+      ]);
+      const doc = createMockDocument(svgText);
+
+      expect(
+        processWalls([doc.querySelector("path") as SVGElement], scaling),
+      ).toHaveLength(0);
+    });
+  });
+
+  describe("svgElementToGameShape", () => {
+    const scaling = { scaleX: 1, scaleY: 1, offsetX: 0, offsetY: 0 };
+    const toShape = (svgText: string, selector: string) =>
+      svgElementToGameShape(
+        createMockDocument(svgText).querySelector(selector) as SVGElement,
+        scaling,
+        "#000000",
+      );
+
+    it("should keep filled polygons as real polygons", () => {
+      const shape = toShape(
+        createMockSVG([
+          { type: "polygon", points: "0,0 100,20 20,100", fill: "#000000" },
+        ]),
+        "polygon",
+      );
+
+      expect(shape).toEqual({
+        vertices: [
+          { x: 0, y: 0 },
+          { x: 100, y: 20 },
+          { x: 20, y: 100 },
+        ],
+      });
+    });
+
+    it("should turn a stroked polyline into a thick band", () => {
+      const shape = toShape(
+        createMockSVG([
+          {
+            type: "polyline",
+            points: "0,0 100,0 100,100",
+            stroke: "#000000",
+            strokeWidth: 10,
+          },
+        ]),
+        "polyline",
+      );
+
+      expect(shape && "parts" in shape && shape.parts).toHaveLength(2);
+    });
+
+    it("should turn a diagonal line into a rotated band", () => {
+      const shape = toShape(
+        createMockSVG([
+          {
+            type: "line",
+            x1: 0,
+            y1: 0,
+            x2: 100,
+            y2: 100,
+            stroke: "#000000",
+            strokeWidth: 10,
+          },
+        ]),
+        "line",
+      );
+
+      expect(shape && "vertices" in shape).toBe(true);
+      if (shape && "vertices" in shape) {
+        // Corners sit half the stroke width away from the line
+        const corner = shape.vertices[0];
+        const distance = Math.abs(corner.x - corner.y) / Math.SQRT2;
+        expect(distance).toBeCloseTo(5);
+      }
+    });
+
+    it("should keep filled ellipses as ellipses", () => {
+      const shape = toShape(
+        createMockSVG([
+          { type: "ellipse", cx: 50, cy: 60, rx: 40, ry: 20, fill: "#000000" },
+        ]),
+        "ellipse",
+      );
+
+      expect(shape).toEqual({ x: 50, y: 60, radiusX: 40, radiusY: 20 });
+    });
+
+    it("should turn a stroked rect into a frame", () => {
+      const shape = toShape(
+        createMockSVG([
+          {
+            type: "rect",
+            x: 0,
+            y: 0,
+            width: 100,
+            height: 50,
+            fill: "#FFFFFF",
+          },
+        ]).replace('fill="#FFFFFF"', 'fill="#FFFFFF" stroke="#000000"'),
+        "rect",
+      );
+
+      expect(shape && "parts" in shape && shape.parts).toHaveLength(4);
+    });
+  });
+
+  describe("getEllipseVertices", () => {
+    it("should place vertices on the ellipse", () => {
+      const vertices = getEllipseVertices(
+        { x: 10, y: 20, radiusX: 40, radiusY: 10 },
+        4,
+      );
+
+      expect(vertices[0]).toEqual({ x: 50, y: 20 });
+      expect(vertices[1].x).toBeCloseTo(10);
+      expect(vertices[1].y).toBeCloseTo(30);
+    });
+  });
+
+  describe("createStrokePolygons", () => {
+    it("should build a quad per segment with square caps", () => {
+      const polygons = createStrokePolygons(
+        [
+          { x: 0, y: 0 },
+          { x: 10, y: 0 },
+        ],
+        4,
+        false,
+      );
+
+      expect(polygons).toHaveLength(1);
+      const xs = polygons[0].vertices.map((v) => v.x);
+      const ys = polygons[0].vertices.map((v) => v.y);
+      expect(Math.min(...xs)).toBeCloseTo(-2);
+      expect(Math.max(...xs)).toBeCloseTo(12);
+      expect(Math.min(...ys)).toBeCloseTo(-2);
+      expect(Math.max(...ys)).toBeCloseTo(2);
+    });
+
+    it("should connect the last point back to the first when closed", () => {
+      const square = [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 10, y: 10 },
+        { x: 0, y: 10 },
+      ];
+
+      expect(createStrokePolygons(square, 2, false)).toHaveLength(3);
+      expect(createStrokePolygons(square, 2, true)).toHaveLength(4);
+    });
   });
 
   describe("processObstacles", () => {
@@ -259,6 +614,65 @@ describe("track-transformer", () => {
         expect(obstacles[1].shape.width).toBe(50);
         expect(obstacles[1].shape.height).toBe(50);
       }
+
+      // Neither one moves
+      expect(obstacles[0].motion).toEqual([]);
+      expect(obstacles[1].motion).toEqual([]);
+    });
+  });
+
+  describe("getObstacleMotion", () => {
+    const scaling = { scaleX: 2, scaleY: 2, offsetX: 0, offsetY: 0 };
+    const obstacleIn = (group: string) =>
+      createMockDocument(`<svg width="200" height="200">
+        <g transform="${group}">
+          <rect id="obstacle" x="0" y="0" width="20" height="10"
+            data-spin="90"/>
+        </g>
+      </svg>`).querySelector("#obstacle") as SVGElement;
+
+    it("should map pivots through the enclosing transforms", () => {
+      const [spin] = getObstacleMotion(
+        obstacleIn("translate(100 50)"),
+        scaling,
+      );
+
+      expect(spin).toMatchObject({
+        type: "rotate",
+        pivot: { x: 220, y: 110 },
+        angles: [0, 2 * Math.PI],
+      });
+    });
+
+    it("should scale offsets without moving them with the groups", () => {
+      const doc = createMockDocument(`<svg width="200" height="200">
+        <g transform="translate(30 30) scale(2)">
+          <circle id="obstacle" cx="0" cy="0" r="5">
+            <animateMotion path="M0 0 L10 0" dur="1s"/>
+          </circle>
+        </g>
+      </svg>`);
+
+      const [motion] = getObstacleMotion(
+        doc.querySelector("#obstacle") as SVGElement,
+        scaling,
+      );
+
+      expect(motion.type === "translate" && motion.offsets).toEqual([
+        { x: 0, y: 0 },
+        { x: 40, y: 0 },
+      ]);
+    });
+
+    it("should turn mirrored obstacles the other way", () => {
+      const [spin] = getObstacleMotion(obstacleIn("scale(-1 1)"), scaling);
+
+      expect(spin.type === "rotate" && spin.angles).toEqual([-0, -2 * Math.PI]);
+    });
+
+    it("should drop rotations that cannot stay rigid", () => {
+      expect(getObstacleMotion(obstacleIn("skewX(30)"), scaling)).toEqual([]);
+      expect(getObstacleMotion(obstacleIn("scale(2 1)"), scaling)).toEqual([]);
     });
   });
 
@@ -309,6 +723,63 @@ describe("track-transformer", () => {
       }
     });
 
+    it("should import oriented segments along the long side", () => {
+      const doc = createMockDocument(`<svg width="1000" height="500">
+        <rect id="vertical" x="100" y="150" width="10" height="200" fill="#0000FF"/>
+        <rect id="horizontal" x="100" y="150" width="200" height="10" fill="#FFD700"/>
+      </svg>`);
+      const scaling = { scaleX: 1, scaleY: 1, offsetX: 0, offsetY: 0 };
+
+      const markers = processStartFinishLines(
+        [doc.querySelector("#vertical") as SVGElement],
+        [doc.querySelector("#horizontal") as SVGElement],
+        scaling,
+      );
+
+      expect(markers.startSegment).toEqual({
+        start: { x: 105, y: 150 },
+        end: { x: 105, y: 350 },
+        direction: { x: 1, y: 0 },
+        width: 10,
+      });
+      expect(markers.finishSegment).toEqual({
+        start: { x: 100, y: 155 },
+        end: { x: 300, y: 155 },
+        direction: { x: 0, y: -1 },
+        width: 10,
+      });
+    });
+
+    it("should follow rotations and data-direction", () => {
+      const doc = createMockDocument(`<svg width="1000" height="500">
+        <rect id="rotated" x="-50" y="-5" width="100" height="10" transform="rotate(90)"/>
+        <line id="down" x1="0" y1="0" x2="100" y2="0" stroke-width="4" data-direction="down"/>
+        <g data-direction="45">
+          <line id="diagonal" x1="0" y1="0" x2="0" y2="100"/>
+        </g>
+      </svg>`);
+      const scaling = { scaleX: 2, scaleY: 2, offsetX: 0, offsetY: 0 };
+      const toLine = (id: string) =>
+        svgElementToRaceLine(
+          doc.querySelector(`#${id}`) as SVGElement,
+          scaling,
+        )!;
+
+      // Up turned a quarter clockwise points right
+      const rotated = toLine("rotated");
+      expect(rotated.direction.x).toBeCloseTo(1);
+      expect(rotated.direction.y).toBeCloseTo(0);
+      expect(rotated.width).toBeCloseTo(20);
+
+      const down = toLine("down");
+      expect(down.direction.x).toBeCloseTo(0);
+      expect(down.direction.y).toBeCloseTo(1);
+      expect(down.width).toBe(8);
+
+      // The direction is projected onto the line normal
+      expect(toLine("diagonal").direction).toEqual({ x: 1, y: 0 });
+    });
+
     it("should handle missing start or finish lines", () => {
       const scaling = { scaleX: 1, scaleY: 1, offsetX: 0, offsetY: 0 };
 
@@ -319,6 +790,174 @@ describe("track-transformer", () => {
     });
   });
 
+  describe("processCheckpoints", () => {
+    const scaling = { scaleX: 1, scaleY: 1, offsetX: 0, offsetY: 0 };
+
+    it("should order checkpoints by data-order, then by id number", () => {
+      const doc = createMockDocument(`<svg width="1000" height="500">
+        <rect id="cp-10" x="500" y="0" width="10" height="100" fill="#FFA500"/>
+        <rect id="cp-2" x="300" y="0" width="10" height="100" fill="#FFA500"/>
+        <rect id="late" x="900" y="0" width="10" height="100" fill="#FFA500"/>
+        <rect id="first" x="100" y="0" width="10" height="100" fill="#FFA500" data-order="1"/>
+      </svg>`);
+      const elements = Array.from(doc.querySelectorAll("rect")) as SVGElement[];
+
+      const checkpoints = processCheckpoints(elements, scaling);
+
+      expect(checkpoints.map((checkpoint) => checkpoint.id)).toEqual([
+        "first",
+        "cp-2",
+        "cp-10",
+        "late",
+      ]);
+      expect(checkpoints[0].shape).toEqual({
+        x: 100,
+        y: 0,
+        width: 10,
+        height: 100,
+      });
+    });
+
+    it("should keep document order for unordered checkpoints", () => {
+      const doc = createMockDocument(`<svg width="1000" height="500">
+        <rect x="500" y="0" width="10" height="100" fill="#FFA500"/>
+        <rect x="300" y="0" width="10" height="100" fill="#FFA500"/>
+      </svg>`);
+      const elements = Array.from(doc.querySelectorAll("rect")) as SVGElement[];
+
+      const checkpoints = processCheckpoints(elements, scaling);
+
+      expect(checkpoints.map((checkpoint) => checkpoint.id)).toEqual([
+        "checkpoint-0",
+        "checkpoint-1",
+      ]);
+    });
+  });
+
+  describe("processSurfaceZones", () => {
+    const scaling = { scaleX: 2, scaleY: 2, offsetX: 0, offsetY: 0 };
+
+    it("should read strength and a boost direction following rotations", () => {
+      const doc = createMockDocument(`<svg width="1000" height="500">
+        <g transform="rotate(90 50 50)">
+          <rect id="pad" x="0" y="0" width="100" height="100" fill="#00FF00"
+            data-direction="right" data-strength="15"/>
+        </g>
+        <rect id="mud" x="200" y="0" width="50" height="50" fill="#8B4513"/>
+      </svg>`);
+
+      const zones = processSurfaceZones(
+        {
+          boostPads: [doc.querySelector("#pad") as SVGElement],
+          slowZones: [doc.querySelector("#mud") as SVGElement],
+          iceZones: [],
+        },
+        scaling,
+      );
+
+      expect(zones).toHaveLength(2);
+      expect(zones[0].type).toBe("boost");
+      expect(zones[0].strength).toBe(15);
+      expect(zones[0].direction!.x).toBeCloseTo(0);
+      expect(zones[0].direction!.y).toBeCloseTo(1);
+      expect(zones[1]).toEqual({
+        shape: { x: 400, y: 0, width: 100, height: 100 },
+        type: "slow",
+        id: "mud",
+        strength: null,
+        direction: null,
+      });
+    });
+  });
+
+  describe("processTeleporters", () => {
+    const scaling = { scaleX: 2, scaleY: 2, offsetX: 0, offsetY: 0 };
+    const teleportersOf = (markup: string) => {
+      const doc = createMockDocument(
+        `<svg width="1000" height="500">${markup}</svg>`,
+      );
+      return processTeleporters(
+        {
+          teleporters: Array.from(
+            doc.querySelectorAll("[fill='#FF00FF']"),
+          ) as SVGElement[],
+          teleporterExits: Array.from(
+            doc.querySelectorAll("[fill='#8A2BE2']"),
+          ) as SVGElement[],
+        },
+        scaling,
+      );
+    };
+
+    it("should pair entrances with the exit sharing their link", () => {
+      const teleporters = teleportersOf(`
+        <rect id="in-a" x="0" y="0" width="20" height="20" fill="#FF00FF"
+          data-teleporter="a"/>
+        <rect id="in-b" x="50" y="0" width="20" height="20" fill="#FF00FF"
+          data-teleporter="b"/>
+        <circle id="out-b" cx="300" cy="100" r="10" fill="#8A2BE2"
+          data-teleporter="b"/>
+        <circle id="out-a" cx="200" cy="100" r="10" fill="#8A2BE2"
+          data-teleporter="a"/>
+        <rect id="in-a2" x="0" y="50" width="20" height="20" fill="#FF00FF"
+          data-teleporter="a"/>
+      `);
+
+      expect(teleporters.map(({ id, exit }) => [id, exit.id])).toEqual([
+        ["in-a", "out-a"],
+        ["in-b", "out-b"],
+        ["in-a2", "out-a"],
+      ]);
+      expect(teleporters[0]).toMatchObject({
+        link: "a",
+        shape: { x: 0, y: 0, width: 40, height: 40 },
+        exit: { position: { x: 400, y: 200 }, direction: null },
+      });
+      expect(teleporters[2].exit).toBe(teleporters[0].exit);
+    });
+
+    it("should place and orient exits following their transforms", () => {
+      const [teleporter] = teleportersOf(`
+        <rect x="0" y="0" width="20" height="20" fill="#FF00FF"
+          data-teleporter="a"/>
+        <g transform="translate(100 100) rotate(90)" data-teleporter="a">
+          <rect x="0" y="0" width="40" height="20" fill="#8A2BE2"
+            data-direction="right"/>
+        </g>
+      `);
+
+      expect(teleporter.exit.position.x).toBeCloseTo(180);
+      expect(teleporter.exit.position.y).toBeCloseTo(240);
+      expect(teleporter.exit.direction!.x).toBeCloseTo(0);
+      expect(teleporter.exit.direction!.y).toBeCloseTo(1);
+    });
+
+    it("should skip entrances and exits without their other half", () => {
+      const teleporters = teleportersOf(`
+        <rect id="lonely" x="0" y="0" width="20" height="20" fill="#FF00FF"
+          data-teleporter="a"/>
+        <rect id="unlinked" x="0" y="0" width="20" height="20" fill="#FF00FF"/>
+        <circle id="nowhere" cx="200" cy="100" r="10" fill="#8A2BE2"
+          data-teleporter="b"/>
+      `);
+
+      expect(teleporters).toEqual([]);
+    });
+
+    it("should keep the first exit of a link", () => {
+      const [teleporter] = teleportersOf(`
+        <rect x="0" y="0" width="20" height="20" fill="#FF00FF"
+          data-teleporter="a"/>
+        <circle id="first" cx="200" cy="100" r="10" fill="#8A2BE2"
+          data-teleporter="a"/>
+        <circle id="second" cx="300" cy="100" r="10" fill="#8A2BE2"
+          data-teleporter="a"/>
+      `);
+
+      expect(teleporter.exit.id).toBe("first");
+    });
+  });
+
   describe("calculateStartPosition", () => {
     it("should calculate center of start line", () => {
       const startLine = { x: 100, y: 150, width: 10, height: 200 };